@@ -0,0 +1,1159 @@
+import { AsyncSequence } from "./dist/src/AsyncSequence.js";
+import { Sequence } from "./dist/src/Sequence.js";
+import { Comparator } from "./dist/src/Comparator.js";
+import { VirtualScheduler, sleep } from "./dist/src/Scheduler.js";
+import { Utils } from "./dist/src/Utils.js";
+import { jest } from '@jest/globals';
+
+// an asynchronous source recording how far it was pulled, and whether it was closed.
+function tracked(values) {
+    const state = { pulled: 0, returned: false };
+    const source = {
+        [Symbol.asyncIterator]() {
+            let index = 0;
+            return {
+                async next() {
+                    if (state.returned || index >= values.length) return { value: undefined, done: true };
+                    state.pulled++;
+                    return { value: values[index++], done: false };
+                },
+                async return() {
+                    state.returned = true;
+                    return { value: undefined, done: true };
+                }
+            };
+        }
+    };
+    return [AsyncSequence.from(source), state];
+}
+
+// an asynchronous source whose first pull only settles once released, recording whether it was
+// closed.
+function slow(value) {
+    const state = { returned: false };
+    const gate = deferred();
+    const source = {
+        [Symbol.asyncIterator]() {
+            return {
+                next: () => gate.promise.then(() => ({ value, done: false })),
+                async return() {
+                    state.returned = true;
+                    return { value: undefined, done: true };
+                }
+            };
+        }
+    };
+    return [AsyncSequence.from(source), state, gate.resolve];
+}
+
+function deferred() {
+    let resolve, reject;
+    const promise = new Promise((res, rej) => { resolve = res; reject = rej; });
+    return { promise, resolve, reject };
+}
+
+// an asynchronous source whose every pull rejects.
+function failing(error) {
+    return AsyncSequence.from({
+        [Symbol.asyncIterator]: () => ({ next: () => Promise.reject(error) })
+    });
+}
+
+// an asynchronous source throwing after its elements in each of its first `failures` iterations.
+function flaky(values, failures) {
+    const state = { iterations: 0 };
+    const source = AsyncSequence.from({
+        async *[Symbol.asyncIterator]() {
+            const iteration = ++state.iterations;
+            yield* values;
+            if (iteration <= failures) throw new Error(`failure ${iteration}`);
+        }
+    });
+    return [source, state];
+}
+
+// a source emitting every [time, value] pair once the scheduler reaches its time, and ending right
+// after the last one, or at `end` if provided.
+function timed(scheduler, events, end) {
+    return AsyncSequence.from({
+        async *[Symbol.asyncIterator]() {
+            for (const [at, value] of events) {
+                await sleep(scheduler, at - scheduler.now())[0];
+                yield value;
+            }
+            if (end !== undefined) await sleep(scheduler, end - scheduler.now())[0];
+        }
+    });
+}
+
+// consumes `sequence` while advancing the scheduler by `ms`, recording when every element arrived
+// and when the sequence settled.
+async function emissions(scheduler, sequence, ms = 100) {
+    const emitted = [];
+    let settled;
+    const done = sequence.forEach(x => { emitted.push([scheduler.now(), x]); })
+        .then(() => settled = { at: scheduler.now() }, error => settled = { at: scheduler.now(), error });
+    await scheduler.advance(ms);
+    await done;
+    return [emitted, settled];
+}
+
+// lets every pending promise callback run.
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe("AsyncSequence", () => {
+    describe("abortable", () => {
+        it("should reject without pulling if the signal is already aborted", async () => {
+            const [source, state] = tracked([1, 2, 3]);
+            const controller = new AbortController();
+            const reason = new Error("stop");
+            controller.abort(reason);
+            await expect(source.toArray(controller.signal)).rejects.toBe(reason);
+            await expect(source.abortable(controller.signal).first()).rejects.toBe(reason);
+            expect(state.pulled).toBe(0);
+        });
+
+        it("should reject with the abort reason when aborted mid-pull, without waiting for it", async () => {
+            const [source, state, release] = slow(1);
+            const controller = new AbortController();
+            const reason = new Error("stop");
+            const result = source.toArray(controller.signal);
+            await flush();
+            controller.abort(reason);
+            await expect(result).rejects.toBe(reason);
+            // the upstream is closed as soon as the pending pull lets it.
+            expect(state.returned).toBe(false);
+            release();
+            await flush();
+            expect(state.returned).toBe(true);
+        });
+
+        it("should stop pulling and close the source once aborted by a consumer", async () => {
+            const [source, state] = tracked([1, 2, 3, 4, 5]);
+            const controller = new AbortController();
+            const seen = [];
+            await expect(source.forEach(x => {
+                seen.push(x);
+                if (x === 2) controller.abort(new Error("enough"));
+            }, controller.signal)).rejects.toThrow("enough");
+            expect(seen).toEqual([1, 2]);
+            expect(state.pulled).toBe(2);
+            expect(state.returned).toBe(true);
+        });
+
+        it("should reject with an aborterror if the signal has no reason", async () => {
+            const signal = { aborted: true, addEventListener() {}, removeEventListener() {} };
+            await expect(AsyncSequence.from([1]).toArray(signal)).rejects.toBeInstanceOf(Utils.AbortError);
+        });
+
+        it("should not affect iteration if the signal is never aborted", async () => {
+            const [source, state] = tracked([1, 2, 3]);
+            expect(await source.abortable(new AbortController().signal).toArray()).toEqual([1, 2, 3]);
+            expect(state.returned).toBe(false);
+        });
+    });
+
+    describe("average", () => {
+        it("should return the mean of numbers, or NaN if empty", async () => {
+            expect(await AsyncSequence.of(1, 2, 3, 4).average()).toBe(2.5);
+            expect(await AsyncSequence.empty().average()).toBeNaN();
+        });
+
+        it("should add bigints up exactly before converting the result", async () => {
+            expect(await AsyncSequence.of(2n ** 53n, 1n, 1n).average()).toBe(Number(2n ** 53n + 2n) / 3);
+        });
+    });
+
+    describe("breadthFirst", () => {
+        const tree = { name: "a", children: [
+            { name: "b", children: [{ name: "d", children: [] }, { name: "e", children: [] }] },
+            { name: "c", children: [{ name: "f", children: [] }] }
+        ] };
+        const graph = new Map([[1, [2, 3]], [2, [4]], [3, [4, 1]], [4, [2]]]);
+
+        it("should walk asynchronous children level by level, up to the maximum depth", async () => {
+            const walk = AsyncSequence.breadthFirst(tree, async n => AsyncSequence.from(n.children));
+            expect(await walk.map(n => n.name).join({ separator: "" })).toBe("abcdef");
+            expect(await AsyncSequence.breadthFirst(tree, n => n.children, { maxDepth: 1 }).count()).toBe(3);
+            expect(() => AsyncSequence.breadthFirst(tree, n => n.children, { maxDepth: -1 })).toThrow(Utils.IllegalArgumentError);
+        });
+
+        it("should skip nodes already visited if cycles are detected", async () => {
+            expect(await AsyncSequence.breadthFirst(1, async n => graph.get(n), { detectCycles: true }).toArray()).toEqual([1, 2, 3, 4]);
+            expect(await AsyncSequence.breadthFirst(1, async n => graph.get(n)).take(6).toArray()).toEqual([1, 2, 3, 4, 4, 1]);
+        });
+    });
+
+    describe("catchError", () => {
+        it("should continue with the sequence returned by the handler for the error thrown", async () => {
+            const [source] = flaky([1, 2], 1);
+            expect(await source.catchError(error => [error.message]).toArray()).toEqual([1, 2, "failure 1"]);
+        });
+
+        it("should not call the handler if the sequence does not throw", async () => {
+            const handler = jest.fn(() => [3]);
+            const [source] = flaky([1, 2], 0);
+            expect(await source.catchError(handler).toArray()).toEqual([1, 2]);
+            expect(handler).not.toHaveBeenCalled();
+        });
+
+        it("should reject with the error thrown by the handler", async () => {
+            const [source] = flaky([1], 1);
+            await expect(source.catchError(() => { throw new Error("again"); }).toArray()).rejects.toThrow("again");
+        });
+    });
+
+    describe("cached", () => {
+        it("should compute every element only once across iterations", async () => {
+            const [source, state] = tracked([1, 2, 3]);
+            const cached = source.cached();
+            expect(await cached.take(2).toArray()).toEqual([1, 2]);
+            expect(await cached.toArray()).toEqual([1, 2, 3]);
+            expect(state.pulled).toBe(3);
+        });
+
+        it("should only replay the stored elements once disposed of, without reopening the source", async () => {
+            const generator = jest.fn(async function* () { for (let i = 1; i <= 5; i++) yield i; });
+            const cached = AsyncSequence.from({ [Symbol.asyncIterator]: generator }).cached();
+            expect(await cached.take(2).toArray()).toEqual([1, 2]);
+            await cached[Utils.asyncDispose]();
+            expect(await cached.toArray()).toEqual([1, 2]);
+            expect(cached.size()).toBe(2);
+            expect(generator).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe("chunked", () => {
+        it("should split the sequence into chunks, keeping a smaller last chunk", async () => {
+            expect(await AsyncSequence.from([1, 2, 3, 4, 5]).chunked(2).toArray()).toEqual([[1, 2], [3, 4], [5]]);
+            expect(AsyncSequence.from([1, 2, 3, 4, 5]).chunked(2).size()).toBe(3);
+        });
+
+        it("should map every chunk through the asynchronous transform", async () => {
+            expect(await AsyncSequence.from([1, 2, 3]).chunked(2, async chunk => chunk.length).toArray()).toEqual([2, 1]);
+        });
+
+        it("should throw an illegalargumenterror for a size below 1", () => {
+            expect(() => AsyncSequence.from([1]).chunked(0)).toThrow(Utils.IllegalArgumentError);
+        });
+    });
+
+    describe("chunkedWithin", () => {
+        it("should emit chunks once full, or once their first element has waited long enough", async () => {
+            const scheduler = new VirtualScheduler();
+            const source = timed(scheduler, [[0, "a"], [1, "b"], [2, "c"], [5, "d"], [20, "e"], [21, "f"]], 22);
+            const [emitted] = await emissions(scheduler, source.chunkedWithin(3, 10, scheduler));
+            expect(emitted).toEqual([[2, ["a", "b", "c"]], [15, ["d"]], [22, ["e", "f"]]]);
+        });
+
+        it("should map every chunk through the transform", async () => {
+            const scheduler = new VirtualScheduler();
+            const source = timed(scheduler, [[0, "a"], [4, "b"], [30, "c"]]);
+            const [emitted] = await emissions(scheduler, source.chunkedWithin(5, 10, chunk => chunk.join(""), scheduler));
+            expect(emitted).toEqual([[10, "ab"], [30, "c"]]);
+        });
+    });
+
+    describe("combineLatest", () => {
+        it("should emit the latest elements of every source once all of them produced one", async () => {
+            const scheduler = new VirtualScheduler();
+            const numbers = timed(scheduler, [[0, 1], [3, 2], [10, 3]]);
+            const letters = timed(scheduler, [[5, "a"], [15, "b"]]);
+            const [emitted, settled] = await emissions(scheduler, AsyncSequence.combineLatest(numbers, letters));
+            expect(emitted).toEqual([[5, [2, "a"]], [10, [3, "a"]], [15, [3, "b"]]]);
+            expect(settled.at).toBe(15);
+        });
+
+        it("should end and close every source once one ends without producing any element", async () => {
+            const [source, state] = tracked([1, 2, 3, 4, 5]);
+            expect(await AsyncSequence.combineLatest(source, AsyncSequence.from([])).toArray()).toEqual([]);
+            expect(state.returned).toBe(true);
+        });
+
+        it("should close every source when one of them throws", async () => {
+            const [source, state] = tracked([1, 2, 3, 4, 5]);
+            await expect(AsyncSequence.combineLatest(source, failing(new Error("boom"))).toArray())
+                .rejects.toThrow("boom");
+            expect(state.returned).toBe(true);
+        });
+
+        it("should close every source when the consumer stops early", async () => {
+            const [first, firstState] = tracked([1, 2, 3]);
+            const [second, secondState] = tracked([4, 5, 6]);
+            expect(await AsyncSequence.combineLatest(first, second).first()).toEqual([1, 4]);
+            expect(firstState.returned).toBe(true);
+            expect(secondState.returned).toBe(true);
+        });
+    });
+
+    describe("debounce", () => {
+        it("should only emit an element once no other one followed it for the given time", async () => {
+            const scheduler = new VirtualScheduler();
+            const source = timed(scheduler, [[0, "a"], [5, "b"], [20, "c"], [25, "d"], [50, "e"]]);
+            const [emitted] = await emissions(scheduler, source.debounce(10, scheduler));
+            expect(emitted).toEqual([[15, "b"], [35, "d"], [50, "e"]]);
+        });
+    });
+
+    describe("deadline", () => {
+        it("should reject with a timeouterror once the whole sequence takes too long", async () => {
+            const scheduler = new VirtualScheduler();
+            const source = timed(scheduler, [[0, "a"], [5, "b"], [9, "c"], [12, "d"]]);
+            const [emitted, settled] = await emissions(scheduler, source.deadline(10, scheduler));
+            expect(emitted).toEqual([[0, "a"], [5, "b"], [9, "c"]]);
+            expect(settled.at).toBe(10);
+            expect(settled.error).toBeInstanceOf(Utils.TimeoutError);
+        });
+    });
+
+    describe("depthFirst", () => {
+        const tree = { name: "a", children: [
+            { name: "b", children: [{ name: "d", children: [] }, { name: "e", children: [] }] },
+            { name: "c", children: [{ name: "f", children: [] }] }
+        ] };
+        const graph = new Map([[1, [2, 3]], [2, [4]], [3, [4, 1]], [4, [2]]]);
+
+        it("should walk asynchronous children depth-first, in pre-order or post-order", async () => {
+            const preOrder = AsyncSequence.depthFirst(tree, async n => AsyncSequence.from(n.children));
+            expect(await preOrder.map(n => n.name).join({ separator: "" })).toBe("abdecf");
+            const postOrder = AsyncSequence.depthFirst(tree, async n => n.children, { order: "post" });
+            expect(await postOrder.map(n => n.name).join({ separator: "" })).toBe("debfca");
+        });
+
+        it("should only request the children of the nodes reached, up to the maximum depth", async () => {
+            const children = jest.fn(async n => n.children);
+            expect((await AsyncSequence.depthFirst(tree, children).elementAt(2)).name).toBe("d");
+            expect(children).toHaveBeenCalledTimes(2);
+            expect(await AsyncSequence.depthFirst(tree, n => n.children, { maxDepth: 1 }).map(n => n.name).toArray()).toEqual(["a", "b", "c"]);
+            expect(() => AsyncSequence.depthFirst(tree, n => n.children, { maxDepth: 1.5 })).toThrow(Utils.IllegalArgumentError);
+        });
+
+        it("should close the children left to visit when stopped early", async () => {
+            const [children, state] = tracked([1, 2, 3]);
+            const walk = AsyncSequence.depthFirst(0, async n => n === 0 ? children : []);
+            expect(await walk.take(2).toArray()).toEqual([0, 1]);
+            expect(state.pulled).toBe(1);
+            expect(state.returned).toBe(true);
+        });
+
+        it("should skip nodes already visited if cycles are detected", async () => {
+            expect(await AsyncSequence.depthFirst(1, async n => graph.get(n), { detectCycles: true }).toArray()).toEqual([1, 2, 4, 3]);
+            expect(await AsyncSequence.depthFirst({ id: 1 }, async n => graph.get(n.id).map(id => ({ id })), { detectCycles: n => n.id })
+                .map(n => n.id).toArray()).toEqual([1, 2, 4, 3]);
+            expect(await AsyncSequence.depthFirst(1, async n => graph.get(n)).take(6).toArray()).toEqual([1, 2, 4, 2, 4, 2]);
+        });
+    });
+
+    describe("distinct", () => {
+        it("should keep the first occurrence of every element, as soon as it is found", async () => {
+            expect(await AsyncSequence.from([1, 2, 1, NaN, 3, NaN, 2]).distinct().toArray()).toEqual([1, 2, NaN, 3]);
+            expect(await AsyncSequence.range(0, Infinity).map(x => x % 3).distinct().take(3).toArray()).toEqual([0, 1, 2]);
+        });
+
+        it("should compare elements through a custom equality", async () => {
+            const points = [{ x: 1, y: 2 }, { x: 1, y: 2 }, { x: 2, y: 1 }];
+            const equality = { equals: (a, b) => a.x === b.x && a.y === b.y, hash: point => point.x };
+            expect(await AsyncSequence.from(points).distinct(equality).toArray()).toEqual([points[0], points[2]]);
+        });
+    });
+
+    describe("distinctBy", () => {
+        it("should keep the first element for every distinct asynchronous key", async () => {
+            const words = ["apple", "avocado", "banana", "blueberry", "cherry"];
+            expect(await AsyncSequence.from(words).distinctBy(async word => word[0]).toArray())
+                .toEqual(["apple", "banana", "cherry"]);
+            const caseless = { equals: (a, b) => a.toLowerCase() === b.toLowerCase(), hash: key => key.toLowerCase() };
+            expect(await AsyncSequence.from(["Ab", "aB", "c"]).distinctBy(word => word, caseless).toArray()).toEqual(["Ab", "c"]);
+        });
+    });
+
+    describe("filterConcurrent", () => {
+        it("should keep the elements fulfilling the predicate, in source order", async () => {
+            let running = 0, peak = 0;
+            const result = await AsyncSequence.from([1, 2, 3, 4, 5, 6]).filterConcurrent(async x => {
+                peak = Math.max(peak, ++running);
+                await flush();
+                running--;
+                return x % 2 === 0;
+            }, { concurrency: 2 }).toArray();
+            expect(result).toEqual([2, 4, 6]);
+            expect(peak).toBe(2);
+        });
+    });
+
+    describe("filterIsInstance", () => {
+        it("should keep the elements that are instances of the type", async () => {
+            const date = new Date(0);
+            expect(await AsyncSequence.from([1, "a", date, null]).filterIsInstance(Date).toArray()).toEqual([date]);
+        });
+    });
+
+    describe("filterNotNull", () => {
+        it("should drop null and undefined, keeping other falsy elements", async () => {
+            expect(await AsyncSequence.from([0, null, "", undefined, false]).filterNotNull().toArray()).toEqual([0, "", false]);
+        });
+    });
+
+    describe("forEachConcurrent", () => {
+        it("should run the action on every element, within the concurrency limit", async () => {
+            let running = 0, peak = 0;
+            const seen = [];
+            await AsyncSequence.from([1, 2, 3, 4, 5]).forEachConcurrent(async x => {
+                peak = Math.max(peak, ++running);
+                await flush();
+                seen.push(x);
+                running--;
+            }, { concurrency: 2 });
+            expect(seen.sort()).toEqual([1, 2, 3, 4, 5]);
+            expect(peak).toBe(2);
+        });
+
+        it("should reject if the action rejects", async () => {
+            const action = jest.fn(async x => { if (x === 3) throw new Error("boom"); });
+            await expect(AsyncSequence.from([1, 2, 3, 4]).forEachConcurrent(action, { concurrency: 2 }))
+                .rejects.toThrow("boom");
+        });
+    });
+
+    describe("fullOuterJoin", () => {
+        it("should keep the elements without matches on either side", async () => {
+            const customers = AsyncSequence.of({ id: 1, name: "maria" }, { id: 2, name: "juan" });
+            const orders = AsyncSequence.of({ customer: 1, total: 10 }, { customer: 4, total: 1 }, { customer: 4, total: 2 });
+            const joined = customers.fullOuterJoin(orders, async c => c.id, async o => o.customer, async (c, o) => [c?.name, o?.total]);
+            expect(await joined.toArray()).toEqual([["maria", 10], ["juan", undefined], [undefined, 1], [undefined, 2]]);
+        });
+    });
+
+    describe("groupJoin", () => {
+        it("should combine every element with the array of matching elements of a sequence", async () => {
+            const customers = AsyncSequence.of({ id: 1, name: "maria" }, { id: 2, name: "juan" }, { id: 3, name: "pedro" });
+            const orders = Sequence.of({ customer: 1, total: 10 }, { customer: 3, total: 5 }, { customer: 1, total: 7 });
+            const joined = customers.groupJoin(orders, c => c.id, async o => o.customer, (c, os) => [c.name, os.map(o => o.total)]);
+            expect(await joined.toArray()).toEqual([["maria", [10, 7]], ["juan", []], ["pedro", [5]]]);
+            expect(joined.size()).toBe(3);
+        });
+    });
+
+    describe("ifEmpty", () => {
+        it("should continue with the iterable the fallback resolves to if empty", async () => {
+            expect(await AsyncSequence.from([]).ifEmpty(async () => [1, 2]).toArray()).toEqual([1, 2]);
+            expect(await AsyncSequence.from([]).ifEmpty(() => AsyncSequence.from([3])).toArray()).toEqual([3]);
+        });
+
+        it("should only call the fallback if empty", async () => {
+            const fallback = jest.fn(async () => [0]);
+            const seq = AsyncSequence.from([1, 2]).ifEmpty(fallback);
+            expect(await seq.toArray()).toEqual([1, 2]);
+            expect(seq.size()).toBe(2);
+            expect(fallback).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("innerJoin", () => {
+        const customers = AsyncSequence.of({ id: 1, name: "maria" }, { id: 2, name: "juan" }, { id: 3, name: "pedro" });
+        const orders    = [{ customer: 1, total: 10 }, { customer: 3, total: 5 }, { customer: 1, total: 7 }, { customer: 4, total: 1 }];
+
+        it("should combine every element with every matching element of a sequence", async () => {
+            const joined = customers.innerJoin(Sequence.from(orders), c => c.id, o => o.customer, (c, o) => `${c.name}: ${o.total}`);
+            expect(await joined.toArray()).toEqual(["maria: 10", "maria: 7", "pedro: 5"]);
+        });
+
+        it("should combine every element with every matching element of an asynchronous sequence", async () => {
+            const joined = customers.innerJoin(AsyncSequence.from(orders), async c => c.id, async o => o.customer, async (c, o) => o.total);
+            expect(await joined.toArray()).toEqual([10, 7, 5]);
+        });
+
+        it("should index the inner side once per iteration and stream the outer side lazily", async () => {
+            const innerKey = jest.fn(async o => o.customer);
+            const [inner, state] = tracked(orders);
+            const joined = AsyncSequence.generate(1, x => x + 1).innerJoin(inner, x => x, innerKey, (x, o) => o.total);
+            expect(innerKey).not.toHaveBeenCalled();
+            expect(await joined.take(3).toArray()).toEqual([10, 7, 5]);
+            expect(innerKey).toHaveBeenCalledTimes(4);
+            expect(state.pulled).toBe(4);
+        });
+    });
+
+    describe("intersect", () => {
+        it("should keep the distinct elements also contained by the other sequence", async () => {
+            const seq = AsyncSequence.of(1, 2, 2, 3, 4);
+            expect(await seq.intersect(AsyncSequence.of(4, 2, 5)).toArray()).toEqual([2, 4]);
+            expect(await seq.intersect([3, 3]).toArray()).toEqual([3]);
+            expect(seq.intersect([1, 2]).sizeHint().toString()).toBe("≤2");
+        });
+
+        it("should compare elements by an asynchronous key and a custom equality", async () => {
+            const words = AsyncSequence.of("Foo", "bar", "qux").intersect(["FOO", "BAR"], async w => w.toLowerCase());
+            expect(await words.toArray()).toEqual(["Foo", "bar"]);
+            const byParity = AsyncSequence.of(1, 2, 3).intersect([4], x => x, { hash: x => x % 2 });
+            expect(await byParity.toArray()).toEqual([2]);
+        });
+    });
+
+    describe("leftJoin", () => {
+        it("should combine the elements without matches with undefined", async () => {
+            const customers = AsyncSequence.of({ id: 1, name: "maria" }, { id: 2, name: "juan" });
+            const orders = AsyncSequence.of({ customer: 1, total: 10 }, { customer: 4, total: 1 });
+            const joined = customers.leftJoin(orders, async c => c.id, async o => o.customer, (c, o) => [c.name, o?.total]);
+            expect(await joined.toArray()).toEqual([["maria", 10], ["juan", undefined]]);
+        });
+    });
+
+    describe("mapCatching", () => {
+        it("should leave out the elements whose transform throws", async () => {
+            const result = await AsyncSequence.from([1, 2, 3]).mapCatching(async x => {
+                if (x === 2) throw new Error("boom");
+                return x * 10;
+            }).toArray();
+            expect(result).toEqual([10, 30]);
+        });
+
+        it("should emit the recovered value for the elements whose transform throws", async () => {
+            const result = await AsyncSequence.from([1, 2, 3]).mapCatching(x => {
+                if (x === 2) throw new Error("boom");
+                return x * 10;
+            }, (error, item, index) => `${error.message} on ${item} at ${index}`).toArray();
+            expect(result).toEqual([10, "boom on 2 at 1", 30]);
+        });
+    });
+
+    describe("mapConcurrent", () => {
+        it("should never run more callbacks at the same time than the concurrency limit", async () => {
+            let running = 0, peak = 0;
+            const result = await AsyncSequence.from([1, 2, 3, 4, 5, 6, 7, 8]).mapConcurrent(async x => {
+                peak = Math.max(peak, ++running);
+                await flush();
+                running--;
+                return x * 2;
+            }, { concurrency: 3 }).toArray();
+            expect(result).toEqual([2, 4, 6, 8, 10, 12, 14, 16]);
+            expect(peak).toBe(3);
+        });
+
+        it("should emit results in source order unless unordered", async () => {
+            const run = ordered => {
+                const gates = [deferred(), deferred(), deferred()];
+                const result = AsyncSequence.from([0, 1, 2])
+                    .mapConcurrent(i => gates[i].promise.then(() => i), { concurrency: 3, ordered })
+                    .toArray();
+                return (async () => {
+                    for (const i of [2, 0, 1]) {
+                        await flush();
+                        gates[i].resolve();
+                    }
+                    return result;
+                })();
+            };
+            expect(await run(true)).toEqual([0, 1, 2]);
+            expect(await run(false)).toEqual([2, 0, 1]);
+        });
+
+        it("should reject with the first rejection and close the source", async () => {
+            const [source, state] = tracked([1, 2, 3, 4, 5]);
+            const mapped = source.mapConcurrent(async x => {
+                if (x === 2) throw new Error("boom");
+                return x;
+            }, { concurrency: 2 });
+            await expect(mapped.toArray()).rejects.toThrow("boom");
+            expect(state.returned).toBe(true);
+        });
+
+        it("should close the source when the consumer stops early", async () => {
+            const [source, state] = tracked([1, 2, 3, 4, 5, 6, 7, 8]);
+            expect(await source.mapConcurrent(x => x, { concurrency: 2 }).take(2).toArray()).toEqual([1, 2]);
+            expect(state.returned).toBe(true);
+            expect(state.pulled).toBeLessThanOrEqual(4);
+        });
+
+        it("should throw an illegalargumenterror for a concurrency below 1", () => {
+            expect(() => AsyncSequence.from([1]).mapConcurrent(x => x, { concurrency: 0 }))
+                .toThrow(Utils.IllegalArgumentError);
+        });
+    });
+
+    describe("mapNotNull", () => {
+        it("should keep the results of the transform that are neither null nor undefined", async () => {
+            const transform = jest.fn(async (x, index) => x === "" ? undefined : Number.isNaN(+x) ? null : +x + index);
+            expect(await AsyncSequence.from(["1", "a", "", "3"]).mapNotNull(transform).toArray()).toEqual([1, 6]);
+            expect(transform).toHaveBeenCalledTimes(4);
+        });
+    });
+
+    describe("max", () => {
+        it("should return the greatest number or bigint, or undefined if empty", async () => {
+            expect(await AsyncSequence.of(3, 7, 5).max()).toBe(7);
+            expect(await AsyncSequence.of(3n, 7n, 5n).max()).toBe(7n);
+            expect(await AsyncSequence.of(3, NaN, 5).max()).toBeNaN();
+            expect(await AsyncSequence.empty().max()).toBeUndefined();
+        });
+    });
+
+    describe("maxBy", () => {
+        it("should return the first element with the greatest key", async () => {
+            const seq = AsyncSequence.of({ id: 1, n: 2 }, { id: 2, n: 5 }, { id: 3, n: 5 });
+            expect(await seq.maxBy(item => item.n)).toEqual({ id: 2, n: 5 });
+            expect(await AsyncSequence.empty().maxBy(item => item)).toBeUndefined();
+        });
+    });
+
+    describe("maxWith", () => {
+        it("should return the first of the greatest elements by the comparator", async () => {
+            const seq = AsyncSequence.of("bb", "a", "cc");
+            expect(await seq.maxWith(Comparator.compareBy(item => item.length))).toBe("bb");
+            expect(await seq.maxWith((a, b) => a.localeCompare(b))).toBe("cc");
+        });
+    });
+
+    describe("merge", () => {
+        it("should emit the elements of every source in the order they arrive", async () => {
+            const scheduler = new VirtualScheduler();
+            const first = timed(scheduler, [[0, "a"], [10, "c"]]);
+            const second = timed(scheduler, [[5, "b"], [15, "d"], [20, "e"]]);
+            const [emitted, settled] = await emissions(scheduler, AsyncSequence.merge(first, second));
+            expect(emitted).toEqual([[0, "a"], [5, "b"], [10, "c"], [15, "d"], [20, "e"]]);
+            expect(settled.at).toBe(20);
+        });
+
+        it("should close every source when one of them throws", async () => {
+            const [source, state] = tracked([1, 2, 3, 4, 5]);
+            await expect(AsyncSequence.merge(source, failing(new Error("boom"))).toArray()).rejects.toThrow("boom");
+            expect(state.returned).toBe(true);
+        });
+
+        it("should close every source when the consumer stops early", async () => {
+            const [first, firstState] = tracked([1, 2, 3]);
+            const [second, secondState] = tracked([4, 5, 6]);
+            expect(await AsyncSequence.merge(first, second).take(2).toArray()).toHaveLength(2);
+            expect(firstState.returned).toBe(true);
+            expect(secondState.returned).toBe(true);
+        });
+    });
+
+    describe("min", () => {
+        it("should return the smallest number or bigint, or undefined if empty", async () => {
+            expect(await AsyncSequence.of(3, 1, 5).min()).toBe(1);
+            expect(await AsyncSequence.of(3n, 1n, 5n).min()).toBe(1n);
+            expect(await AsyncSequence.of(3, NaN, 5).min()).toBeNaN();
+            expect(await AsyncSequence.empty().min()).toBeUndefined();
+        });
+    });
+
+    describe("minBy", () => {
+        it("should return the first element with the smallest key", async () => {
+            const seq = AsyncSequence.of({ id: 1, n: 2 }, { id: 2, n: 1 }, { id: 3, n: 1 });
+            expect(await seq.minBy(item => item.n)).toEqual({ id: 2, n: 1 });
+        });
+    });
+
+    describe("minWith", () => {
+        it("should return the first of the smallest elements by the comparator", async () => {
+            const seq = AsyncSequence.of("bb", "a", "c");
+            expect(await seq.minWith(Comparator.compareBy(item => item.length))).toBe("a");
+            expect(await seq.minWith(Comparator.reverseOrder())).toBe("c");
+        });
+    });
+
+    describe("onEach", () => {
+        it("should call the action on every element lazily, passing it on once the action settles", async () => {
+            const events = [];
+            const seq = AsyncSequence.from([1, 2]).onEach(async (x, index) => {
+                await flush();
+                events.push(`action ${x} at ${index}`);
+            });
+            expect(events).toEqual([]);
+            await seq.forEach(x => { events.push(`item ${x}`); });
+            expect(events).toEqual(["action 1 at 0", "item 1", "action 2 at 1", "item 2"]);
+        });
+    });
+
+    describe("onErrorResume", () => {
+        it("should continue with the fallback if the sequence throws", async () => {
+            const [source] = flaky([1, 2], 1);
+            expect(await source.onErrorResume([3, 4]).toArray()).toEqual([1, 2, 3, 4]);
+            const [stable] = flaky([1, 2], 0);
+            expect(await stable.onErrorResume([3, 4]).toArray()).toEqual([1, 2]);
+        });
+    });
+
+    describe("race", () => {
+        it("should follow the first source to produce an element", async () => {
+            const scheduler = new VirtualScheduler();
+            const first = timed(scheduler, [[10, "a"], [12, "b"]]);
+            const second = timed(scheduler, [[5, "x"], [30, "y"]]);
+            const [emitted, settled] = await emissions(scheduler, AsyncSequence.race(first, second));
+            expect(emitted).toEqual([[5, "x"], [30, "y"]]);
+            expect(settled.at).toBe(30);
+        });
+
+        it("should leave sources ending without producing any element out of the race", async () => {
+            const scheduler = new VirtualScheduler();
+            const source = timed(scheduler, [[5, "a"]]);
+            const [emitted] = await emissions(scheduler, AsyncSequence.race(AsyncSequence.from([]), source));
+            expect(emitted).toEqual([[5, "a"]]);
+        });
+
+        it("should close the losers once a winner is decided", async () => {
+            const [loser, loserState, release] = slow(0);
+            const [winner, winnerState] = tracked([1, 2]);
+            expect(await AsyncSequence.race(loser, winner).toArray()).toEqual([1, 2]);
+            expect(winnerState.returned).toBe(false);
+            // the loser is closed as soon as its pending pull lets it.
+            release();
+            await flush();
+            expect(loserState.returned).toBe(true);
+        });
+
+        it("should close every source when one of them throws", async () => {
+            const [source, state] = tracked([1, 2, 3]);
+            await expect(AsyncSequence.race(failing(new Error("boom")), source).toArray()).rejects.toThrow("boom");
+            expect(state.returned).toBe(true);
+        });
+    });
+
+    describe("range", () => {
+        it("should produce the numbers from start to end, exclusive, with its size known", async () => {
+            expect(await AsyncSequence.range(0, 5, 2).toArray()).toEqual([0, 2, 4]);
+            expect(await AsyncSequence.range(3, 0).toArray()).toEqual([3, 2, 1]);
+            expect(await AsyncSequence.range(0n, 3n).toArray()).toEqual([0n, 1n, 2n]);
+            expect(AsyncSequence.range(0, 10, 3).size()).toBe(4);
+        });
+
+        it("should access elements by index, even on infinite ranges", async () => {
+            expect(await AsyncSequence.range(0, Infinity, 2).elementAt(1e9)).toBe(2e9);
+            expect(await AsyncSequence.range(0, 5).elementAt(5)).toBeUndefined();
+        });
+
+        it("should throw an illegalargumenterror for invalid arguments", () => {
+            expect(() => AsyncSequence.range(0, NaN)).toThrow(Utils.IllegalArgumentError);
+            expect(() => AsyncSequence.range(0, 5, 0)).toThrow(Utils.IllegalArgumentError);
+        });
+    });
+
+    describe("rangeClosed", () => {
+        it("should produce the numbers from start to end, inclusive", async () => {
+            expect(await AsyncSequence.rangeClosed(1, 3).toArray()).toEqual([1, 2, 3]);
+            expect(await AsyncSequence.rangeClosed(1n, 5n, 2n).toArray()).toEqual([1n, 3n, 5n]);
+            expect(AsyncSequence.rangeClosed(1, 3).size()).toBe(3);
+        });
+    });
+
+    describe("replay", () => {
+        it("should replay the last elements produced to consumers starting late", async () => {
+            const [source, state] = tracked([1, 2, 3, 4]);
+            const replayed = source.replay(2);
+            expect(await replayed.toArray()).toEqual([1, 2, 3, 4]);
+            expect(await replayed.toArray()).toEqual([3, 4]);
+            expect(state.pulled).toBe(4);
+        });
+
+        it("should keep the shared iteration open until disposed of", async () => {
+            const [source, state] = tracked([1, 2, 3]);
+            const replayed = source.replay(1);
+            expect(await replayed.take(1).toArray()).toEqual([1]);
+            expect(state.returned).toBe(false);
+            expect(await replayed.take(2).toArray()).toEqual([1, 2]);
+            expect(state.pulled).toBe(2);
+            await replayed[Utils.asyncDispose]();
+            expect(state.returned).toBe(true);
+        });
+    });
+
+    describe("requireNoNulls", () => {
+        it("should reject with an illegalargumenterror at the first null, without iterating again", async () => {
+            const [source, state] = tracked([1, null, 3]);
+            const result = source.requireNoNulls().toArray();
+            await expect(result).rejects.toThrow(Utils.IllegalArgumentError);
+            await expect(result).rejects.toThrow("null element found at index 1");
+            expect(state.pulled).toBe(2);
+            expect(await AsyncSequence.from([1, 0, ""]).requireNoNulls().toArray()).toEqual([1, 0, ""]);
+        });
+    });
+
+    describe("retry", () => {
+        it("should iterate the sequence again until an attempt succeeds", async () => {
+            const [source, state] = flaky([1], 2);
+            expect(await source.retry().toArray()).toEqual([1, 1, 1]);
+            expect(state.iterations).toBe(3);
+        });
+
+        it("should reject with the last error once out of attempts", async () => {
+            const [source, state] = flaky([1], 5);
+            await expect(source.retry({ attempts: 4 }).toArray()).rejects.toThrow("failure 4");
+            expect(state.iterations).toBe(4);
+        });
+
+        it("should stop retrying once shouldRetry rejects an error", async () => {
+            const [source, state] = flaky([], 5);
+            const shouldRetry = jest.fn((_, attempt) => attempt < 2);
+            await expect(source.retry({ shouldRetry }).toArray()).rejects.toThrow("failure 2");
+            expect(state.iterations).toBe(2);
+            expect(shouldRetry.mock.calls.map(([error, attempt]) => [error.message, attempt]))
+                .toEqual([["failure 1", 1], ["failure 2", 2]]);
+        });
+
+        it("should wait the backoff of every failed attempt before the next one", async () => {
+            const scheduler = new VirtualScheduler();
+            const starts = [];
+            const source = AsyncSequence.from({
+                async *[Symbol.asyncIterator]() {
+                    starts.push(scheduler.now());
+                    if (starts.length < 3) throw new Error("boom");
+                    yield "done";
+                }
+            });
+            const [emitted] = await emissions(scheduler, source.retry({ backoff: attempt => attempt * 10, scheduler }));
+            expect(starts).toEqual([0, 10, 30]);
+            expect(emitted).toEqual([[30, "done"]]);
+        });
+
+        it("should not wait after the last attempt", async () => {
+            const scheduler = new VirtualScheduler();
+            const [source, state] = flaky([], 5);
+            const [, settled] = await emissions(scheduler, source.retry({ attempts: 3, backoff: 5, scheduler }));
+            expect(state.iterations).toBe(3);
+            expect(settled.at).toBe(10);
+            expect(settled.error.message).toBe("failure 3");
+        });
+
+        it("should reject with the first error of sequences that can only be iterated once", async () => {
+            const error = new Error("boom");
+            const generator = async function* () {
+                yield 1;
+                throw error;
+            };
+            await expect(AsyncSequence.from(generator()).retry().toArray()).rejects.toBe(error);
+            await expect(AsyncSequence.from(generator()).map(x => x).retry().toArray()).rejects.toBe(error);
+        });
+
+        it("should keep retrying sequences throwing an illegalstateerror of their own", async () => {
+            let iterations = 0;
+            const source = AsyncSequence.from({
+                async *[Symbol.asyncIterator]() {
+                    throw new Utils.IllegalStateError(`failure ${++iterations}`);
+                }
+            });
+            await expect(source.retry({ attempts: 3 }).toArray()).rejects.toThrow("failure 3");
+            expect(iterations).toBe(3);
+        });
+
+        it("should throw an illegalargumenterror for less than 1 attempt", () => {
+            expect(() => AsyncSequence.from([1]).retry({ attempts: 0 })).toThrow(Utils.IllegalArgumentError);
+        });
+    });
+
+    describe("runningFold", () => {
+        it("should emit the initial value and every intermediate result of fold", async () => {
+            const seq = AsyncSequence.of(1, 2, 3);
+            expect(await seq.runningFold(0, async (acc, x) => acc + x).toArray()).toEqual([0, 1, 3, 6]);
+            expect(await seq.runningFold("", (acc, x, i) => acc + x + i).last()).toBe(await seq.fold("", (acc, x, i) => acc + x + i));
+            expect(await AsyncSequence.empty().runningFold(0, (acc, x) => acc + x).toArray()).toEqual([0]);
+            expect(seq.runningFold(0, (acc, x) => acc + x).size()).toBe(4);
+        });
+
+        it("should only pull the elements needed", async () => {
+            const [source, state] = tracked([1, 2, 3, 4]);
+            expect(await source.runningFold(0, (acc, x) => acc + x).take(2).toArray()).toEqual([0, 1]);
+            expect(state.pulled).toBe(1);
+        });
+    });
+
+    describe("runningReduce", () => {
+        it("should emit every intermediate result of reduce", async () => {
+            const seq = AsyncSequence.of(1, 2, 3, 4);
+            expect(await seq.runningReduce(async (acc, x) => acc * x).toArray()).toEqual([1, 2, 6, 24]);
+            expect(await seq.runningReduce((acc, x, i) => acc + x * i).last()).toBe(await seq.reduce((acc, x, i) => acc + x * i));
+            expect(await AsyncSequence.empty().runningReduce((acc, x) => acc + x).toArray()).toEqual([]);
+            expect(seq.runningReduce((acc, x) => acc + x).size()).toBe(4);
+        });
+    });
+
+    describe("sample", () => {
+        it("should emit the latest element of every period that produced one", async () => {
+            const scheduler = new VirtualScheduler();
+            const source = timed(scheduler, [[2, "a"], [5, "b"], [12, "c"], [31, "d"]], 45);
+            const [emitted, settled] = await emissions(scheduler, source.sample(10, scheduler));
+            expect(emitted).toEqual([[10, "b"], [20, "c"], [40, "d"]]);
+            expect(settled.at).toBe(45);
+        });
+    });
+
+    describe("scan", () => {
+        it("should behave as runningFold", async () => {
+            expect(await AsyncSequence.of(1, 2, 3).scan(10, async (acc, x) => acc - x).toArray()).toEqual([10, 9, 7, 4]);
+        });
+    });
+
+    describe("share", () => {
+        it("should produce every element once for all simultaneous consumers", async () => {
+            const [source, state] = tracked([1, 2, 3]);
+            const shared = source.share();
+            expect(await Promise.all([shared.toArray(), shared.toArray()])).toEqual([[1, 2, 3], [1, 2, 3]]);
+            expect(state.pulled).toBe(3);
+        });
+
+        it("should only deliver the elements produced after a consumer started", async () => {
+            const shared = AsyncSequence.from([1, 2, 3]).share();
+            const early = shared[Symbol.asyncIterator]();
+            expect(await early.next()).toEqual({ value: 1, done: false });
+            const late = AsyncSequence.from(shared[Symbol.asyncIterator]());
+            expect(await Promise.all([late.toArray(), AsyncSequence.from(early).toArray()])).toEqual([[2, 3], [2, 3]]);
+        });
+
+        it("should close the source once every consumer has finished, and start anew afterwards", async () => {
+            const [source, state] = tracked([1, 2, 3, 4]);
+            const shared = source.share();
+            const first = shared[Symbol.asyncIterator]();
+            const second = shared[Symbol.asyncIterator]();
+            expect(await Promise.all([first.next(), second.next()]))
+                .toEqual([{ value: 1, done: false }, { value: 1, done: false }]);
+            await first.return();
+            expect(state.returned).toBe(false);
+            await second.return();
+            expect(state.returned).toBe(true);
+            const [restarted, iterations] = flaky([1, 2], 0);
+            const again = restarted.share();
+            expect(await again.take(1).toArray()).toEqual([1]);
+            expect(await again.take(1).toArray()).toEqual([1]);
+            expect(iterations.iterations).toBe(2);
+        });
+    });
+
+    describe("sorted", () => {
+        it("should sort by natural order, ascending or descending", async () => {
+            expect(await AsyncSequence.from([3, 1, 2]).sorted().toArray()).toEqual([1, 2, 3]);
+            expect(await AsyncSequence.from(["b", "c", "a"]).sortedDescending().toArray()).toEqual(["c", "b", "a"]);
+            expect(AsyncSequence.from([3, 1, 2]).sorted().size()).toBe(3);
+        });
+    });
+
+    describe("sortedBy", () => {
+        it("should sort stably by an asynchronous key, calling the selector once per element", async () => {
+            const words = ["bb", "a", "cc", "d"];
+            const selector = jest.fn(async word => word.length);
+            expect(await AsyncSequence.from(words).sortedBy(selector).toArray()).toEqual(["a", "d", "bb", "cc"]);
+            expect(selector).toHaveBeenCalledTimes(4);
+            expect(await AsyncSequence.from(words).sortedByDescending(async word => word.length).toArray())
+                .toEqual(["bb", "cc", "a", "d"]);
+        });
+    });
+
+    describe("sortedWith", () => {
+        it("should sort by a comparator or a comparison function", async () => {
+            const people = [{ name: "b", age: 2 }, { name: "a", age: 2 }, { name: "c", age: 1 }];
+            const byAge = Comparator.compareBy(person => person.age);
+            expect((await AsyncSequence.from(people).sortedWith(byAge).toArray()).map(person => person.name))
+                .toEqual(["c", "b", "a"]);
+            const byAgeThenName = byAge.thenBy(person => person.name);
+            expect((await AsyncSequence.from(people).sortedWith(byAgeThenName).toArray()).map(person => person.name))
+                .toEqual(["c", "a", "b"]);
+            expect(await AsyncSequence.from([1, 3, 2]).sortedWith((a, b) => b - a).toArray()).toEqual([3, 2, 1]);
+        });
+    });
+
+    describe("subtract", () => {
+        it("should keep the distinct elements not contained by the other sequence", async () => {
+            const seq = AsyncSequence.of(1, 2, 2, 3, 4);
+            expect(await seq.subtract(AsyncSequence.of(4, 1)).toArray()).toEqual([2, 3]);
+            expect(seq.subtract([1]).sizeHint().toString()).toBe("≤5");
+        });
+
+        it("should compare elements by an asynchronous key", async () => {
+            const words = AsyncSequence.of("Foo", "bar", "qux").subtract(["FOO"], async w => w.toLowerCase());
+            expect(await words.toArray()).toEqual(["bar", "qux"]);
+        });
+    });
+
+    describe("sum", () => {
+        it("should add up the numbers, or return the zero of their type if empty", async () => {
+            expect(await AsyncSequence.from([1, 2, 3]).sum()).toBe(6);
+            expect(await AsyncSequence.from([]).sum()).toBe(0);
+            expect(await AsyncSequence.from([1n, 2n]).sum(0n)).toBe(3n);
+            expect(await AsyncSequence.from([]).sum(0n)).toBe(0n);
+        });
+
+        it("should accept a signal after the zero", async () => {
+            const controller = new AbortController();
+            controller.abort(new Error("stop"));
+            await expect(AsyncSequence.from([1n]).sum(0n, controller.signal)).rejects.toThrow("stop");
+            await expect(AsyncSequence.from([1]).sum(controller.signal)).rejects.toThrow("stop");
+        });
+    });
+
+    describe("sumBy", () => {
+        it("should add up the numbers generated by the selector", async () => {
+            expect(await AsyncSequence.from(["a", "bb"]).sumBy(x => x.length)).toBe(3);
+            expect(await AsyncSequence.from(["a", "bb"]).sumBy(x => BigInt(x.length), 0n)).toBe(3n);
+            expect(await AsyncSequence.from([]).sumBy(x => BigInt(x.length), 0n)).toBe(0n);
+        });
+    });
+
+    describe("summaryStatistics", () => {
+        it("should gather every statistic in a single pass", async () => {
+            expect(await AsyncSequence.from([2, 4, 4, 4, 5, 5, 7, 9]).summaryStatistics())
+                .toEqual({ count: 8, sum: 40, min: 2, max: 9, mean: 5, variance: 4 });
+            const empty = await AsyncSequence.from([]).summaryStatistics(0n);
+            expect(empty.sum).toBe(0n);
+            expect(empty.mean).toBeNaN();
+        });
+    });
+
+    describe("symmetricDifference", () => {
+        it("should keep the distinct elements contained by only one of the sequences", async () => {
+            const seq = AsyncSequence.of(1, 2, 2, 3);
+            expect(await seq.symmetricDifference(AsyncSequence.of(3, 4, 4, 5)).toArray()).toEqual([1, 2, 4, 5]);
+            expect(seq.symmetricDifference([3]).sizeHint().toString()).toBe("≤5");
+        });
+
+        it("should only iterate the other sequence once", async () => {
+            const [other, state] = tracked([2, 3]);
+            expect(await AsyncSequence.of(1, 2).symmetricDifference(other, async x => x).toArray()).toEqual([1, 3]);
+            expect(state.pulled).toBe(2);
+        });
+    });
+
+    describe("tee", () => {
+        it("should deliver every element to every branch, producing it once", async () => {
+            const [source, state] = tracked([1, 2, 3]);
+            const branches = source.tee(3);
+            expect(await Promise.all(branches.map(branch => branch.toArray()))).toEqual([[1, 2, 3], [1, 2, 3], [1, 2, 3]]);
+            expect(state.pulled).toBe(3);
+        });
+
+        it("should buffer the elements a slow branch has not read yet", async () => {
+            const [fast, slow] = AsyncSequence.from([1, 2, 3]).tee(2);
+            expect(await fast.toArray()).toEqual([1, 2, 3]);
+            expect(await slow.toArray()).toEqual([1, 2, 3]);
+        });
+
+        it("should keep a branch from getting further ahead than maxBuffered", async () => {
+            const [source, state] = tracked([1, 2, 3]);
+            const [ahead, behind] = source.tee(2, { maxBuffered: 1 });
+            const aheadIterator = ahead[Symbol.asyncIterator]();
+            const behindIterator = behind[Symbol.asyncIterator]();
+            expect(await aheadIterator.next()).toEqual({ value: 1, done: false });
+            let second;
+            aheadIterator.next().then(result => second = result);
+            await flush();
+            expect(second).toBeUndefined();
+            expect(state.pulled).toBe(1);
+            expect(await behindIterator.next()).toEqual({ value: 1, done: false });
+            await flush();
+            expect(second).toEqual({ value: 2, done: false });
+        });
+
+        it("should close the source once every branch has finished", async () => {
+            const [source, state] = tracked([1, 2, 3, 4, 5]);
+            const [first, second] = source.tee(2);
+            expect(await first.take(1).toArray()).toEqual([1]);
+            expect(state.returned).toBe(false);
+            expect(await second.take(2).toArray()).toEqual([1, 2]);
+            expect(state.returned).toBe(true);
+        });
+
+        it("should throw an illegalstateerror when a branch is iterated twice", async () => {
+            const [branch] = AsyncSequence.from([1]).tee(1);
+            await branch.toArray();
+            await expect(branch.toArray()).rejects.toThrow(Utils.IllegalStateError);
+        });
+
+        it("should throw an illegalargumenterror for a count below 1", () => {
+            expect(() => AsyncSequence.from([1]).tee(0)).toThrow(Utils.IllegalArgumentError);
+        });
+    });
+
+    describe("throttle", () => {
+        it("should emit the element opening every period, discarding the rest", async () => {
+            const scheduler = new VirtualScheduler();
+            const source = timed(scheduler, [[0, "a"], [3, "b"], [12, "c"], [15, "d"], [30, "e"]]);
+            const [emitted] = await emissions(scheduler, source.throttle(10, {}, scheduler));
+            expect(emitted).toEqual([[0, "a"], [12, "c"], [30, "e"]]);
+        });
+
+        it("should emit the last element of every period when it ends if trailing", async () => {
+            const scheduler = new VirtualScheduler();
+            const source = timed(scheduler, [[0, "a"], [3, "b"], [12, "c"], [15, "d"], [30, "e"]]);
+            const [emitted] = await emissions(scheduler, source.throttle(10, { leading: false, trailing: true }, scheduler));
+            expect(emitted).toEqual([[10, "b"], [20, "d"], [30, "e"]]);
+        });
+    });
+
+    describe("timeout", () => {
+        it("should reject with a timeouterror once an element takes too long", async () => {
+            const scheduler = new VirtualScheduler();
+            const source = timed(scheduler, [[0, "a"], [8, "b"], [16, "c"], [30, "d"]]);
+            const [emitted, settled] = await emissions(scheduler, source.timeout(10, scheduler));
+            expect(emitted).toEqual([[0, "a"], [8, "b"], [16, "c"]]);
+            expect(settled.at).toBe(26);
+            expect(settled.error).toBeInstanceOf(Utils.TimeoutError);
+        });
+    });
+
+    describe("unfold", () => {
+        it("should provide elements until the asynchronous next function returns undefined", async () => {
+            const fibonacci = AsyncSequence.unfold([0, 1], async ([a, b]) => [a, [b, a + b]]);
+            expect(await fibonacci.take(8).toArray()).toEqual([0, 1, 1, 2, 3, 5, 8, 13]);
+            const digits = AsyncSequence.unfold(1234, n => n === 0 ? undefined : [n % 10, Math.floor(n / 10)]);
+            expect(await digits.toArray()).toEqual([4, 3, 2, 1]);
+            expect(await AsyncSequence.unfold(0, async n => n < 3 ? [null, n + 1] : undefined).toArray()).toEqual([null, null, null]);
+        });
+    });
+
+    describe("union", () => {
+        it("should keep the distinct elements of both, in order of appearance", async () => {
+            expect(await AsyncSequence.of(1, 2, 2, 3).union(AsyncSequence.of(3, 4, 4, 1, 5)).toArray()).toEqual([1, 2, 3, 4, 5]);
+            expect(await AsyncSequence.empty().union([1, 1]).toArray()).toEqual([1]);
+            expect(AsyncSequence.of(1, 2).union([3]).sizeHint().toString()).toBe("1..3");
+        });
+
+        it("should compare elements by an asynchronous key if a selector is provided", async () => {
+            const words = AsyncSequence.of("Foo", "bar").union(["FOO", "Baz"], async w => w.toLowerCase());
+            expect(await words.toArray()).toEqual(["Foo", "bar", "Baz"]);
+        });
+
+        it("should not hang for infinite sequences", async () => {
+            expect(await AsyncSequence.generate(1, x => x + 1).union([1]).take(3).toArray()).toEqual([1, 2, 3]);
+        });
+    });
+
+    describe("windowed", () => {
+        it("should slide windows by the step, keeping partial windows only if asked", async () => {
+            const seq = AsyncSequence.from([1, 2, 3, 4, 5]);
+            expect(await seq.windowed(3).toArray()).toEqual([[1, 2, 3], [2, 3, 4], [3, 4, 5]]);
+            expect(await seq.windowed(2, 2).toArray()).toEqual([[1, 2], [3, 4]]);
+            expect(await seq.windowed(2, 2, { partial: true }).toArray()).toEqual([[1, 2], [3, 4], [5]]);
+            expect(seq.windowed(3).size()).toBe(3);
+        });
+
+        it("should not pull more than needed for the windows consumed", async () => {
+            const [source, state] = tracked([1, 2, 3, 4, 5, 6]);
+            expect(await source.windowed(2).first()).toEqual([1, 2]);
+            expect(state.pulled).toBe(2);
+        });
+
+        it("should throw an illegalargumenterror for a size or step below 1", () => {
+            expect(() => AsyncSequence.from([1]).windowed(0)).toThrow(Utils.IllegalArgumentError);
+            expect(() => AsyncSequence.from([1]).windowed(2, 0)).toThrow(Utils.IllegalArgumentError);
+        });
+    });
+
+    describe("withIndex", () => {
+        it("should pair every element with its index", async () => {
+            expect(await AsyncSequence.from(["a", "b"]).withIndex().toArray())
+                .toEqual([{ index: 0, value: "a" }, { index: 1, value: "b" }]);
+        });
+    });
+
+    describe("zipLongest", () => {
+        it("should pair elements until both sequences end, only filling the sides given a fill", async () => {
+            const numbers = AsyncSequence.from([1, 2, 3]);
+            expect(await numbers.zipLongest(AsyncSequence.from(["a"])).toArray())
+                .toEqual([[1, "a"], [2, undefined], [3, undefined]]);
+            expect(await numbers.zipLongest(AsyncSequence.from(["a"]), 0, "").toArray())
+                .toEqual([[1, "a"], [2, ""], [3, ""]]);
+            expect(await numbers.zipLongest(AsyncSequence.from(["a", "b", "c", "d"]), 0).toArray())
+                .toEqual([[1, "a"], [2, "b"], [3, "c"], [0, "d"]]);
+            expect(await numbers.zipLongest(AsyncSequence.from(["a"]), undefined, "").toArray())
+                .toEqual([[1, "a"], [2, ""], [3, ""]]);
+        });
+    });
+});
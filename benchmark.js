@@ -0,0 +1,63 @@
+import { performance } from "perf_hooks";
+import { Sequence } from "./dist/src/Sequence.js";
+
+// compares Sequence pipelines against their Array equivalents. run `npm run bench` after building.
+
+const size = 1_000_000;
+const runs = 5;
+const input = Array.from({ length: size }, (_, index) => index);
+
+const cases = [
+    {
+        name: "map + filter",
+        array: () => input.map(x => x * 2).filter(x => x % 3 === 0).length,
+        sequence: () => Sequence.from(input).map(x => x * 2).filter(x => x % 3 === 0).count()
+    },
+    {
+        name: "map + filter + take (early exit)",
+        array: () => input.map(x => x * 2).filter(x => x % 3 === 0).slice(0, 100).length,
+        sequence: () => Sequence.from(input).map(x => x * 2).filter(x => x % 3 === 0).take(100).count()
+    },
+    {
+        name: "12 stages",
+        array: () => input
+            .map(x => x + 1).filter(x => x % 2 === 0).map(x => x * 3).filter(x => x % 5 !== 0)
+            .map(x => x - 1).slice(10).map(x => x / 2).filter(x => x > 100)
+            .map(x => x + 7).slice(0, size / 4).map(x => x | 0).filter(x => x % 7 !== 0).length,
+        sequence: () => Sequence.from(input)
+            .map(x => x + 1).filter(x => x % 2 === 0).map(x => x * 3).filter(x => x % 5 !== 0)
+            .map(x => x - 1).drop(10).map(x => x / 2).filter(x => x > 100)
+            .map(x => x + 7).take(size / 4).map(x => x | 0).filter(x => x % 7 !== 0).count()
+    },
+    {
+        name: "dropWhile + takeWhile",
+        array: () => {
+            const start = input.findIndex(x => x >= size / 4);
+            const rest = input.slice(start);
+            const end = rest.findIndex(x => x >= size / 2);
+            return rest.slice(0, end).map(x => x * 2).length;
+        },
+        sequence: () => Sequence.from(input)
+            .dropWhile(x => x < size / 4).takeWhile(x => x < size / 2).map(x => x * 2).count()
+    }
+];
+
+function measure(fn) {
+    fn(); // warm up
+    let best = Infinity;
+    for (let run = 0; run < runs; run++) {
+        const start = performance.now();
+        fn();
+        best = Math.min(best, performance.now() - start);
+    }
+    return best;
+}
+
+console.log(`${size} elements, best of ${runs} runs\n`);
+for (const { name, array, sequence } of cases) {
+    if (array() !== sequence()) throw new Error(`${name}: results differ`);
+    const arrayTime = measure(array);
+    const sequenceTime = measure(sequence);
+    console.log(`${name.padEnd(34)} Array ${arrayTime.toFixed(1).padStart(8)}ms   ` + 
+                `Sequence ${sequenceTime.toFixed(1).padStart(8)}ms   (${(sequenceTime / arrayTime).toFixed(2)}x)`);
+}
@@ -0,0 +1,117 @@
+import { Collectors } from "./dist/src/Collector.js";
+import { Utils } from "./dist/src/Utils.js";
+
+function collect(collector, items) {
+    let container = collector.supply();
+    for (const item of items) container = collector.accumulate(container, item);
+    return collector.finish(container);
+}
+
+describe("Collectors", () => {
+    describe("isCollector", () => {
+        it("should return true only for values implementing the collector interface", () => {
+            expect(Collectors.isCollector(Collectors.toArray())).toBe(true);
+            expect(Collectors.isCollector({ supply() {}, accumulate() {} })).toBe(false);
+            expect(Collectors.isCollector(undefined)).toBe(false);
+        });
+    });
+
+    describe("toArray", () => {
+        it("should gather elements in encounter order", () => {
+            expect(collect(Collectors.toArray(), [3, 1, 2])).toEqual([3, 1, 2]);
+        });
+    });
+
+    describe("toSet", () => {
+        it("should gather distinct elements", () => {
+            expect(collect(Collectors.toSet(), [1, 2, 1])).toEqual(new Set([1, 2]));
+        });
+    });
+
+    describe("toMap", () => {
+        it("should merge conflicting values with onConflict", () => {
+            const collector = Collectors.toMap(x => x % 2, x => [x], (a, b) => [...a, ...b]);
+            expect(collect(collector, [1, 2, 3])).toEqual(new Map([[1, [1, 3]], [0, [2]]]));
+        });
+
+        it("should throw on duplicate keys if no onConflict function is provided", () => {
+            expect(() => collect(Collectors.toMap(x => x % 2, x => x), [1, 2, 3]))
+                .toThrow(Utils.IllegalStateError);
+        });
+    });
+
+    describe("associate", () => {
+        it("should keep the last value for repeated keys", () => {
+            expect(collect(Collectors.associate(x => [x.length, x]), ["a", "bb", "c"]))
+                .toEqual(new Map([[1, "c"], [2, "bb"]]));
+            expect(collect(Collectors.associateBy(x => x.length), ["a", "bb", "c"]))
+                .toEqual(new Map([[1, "c"], [2, "bb"]]));
+            expect(collect(Collectors.associateBy(x => x.length, x => x.toUpperCase()), ["a", "bb"]))
+                .toEqual(new Map([[1, "A"], [2, "BB"]]));
+            expect(collect(Collectors.associateWith(x => x.length), ["a", "bb"]))
+                .toEqual(new Map([["a", 1], ["bb", 2]]));
+        });
+    });
+
+    describe("groupingBy", () => {
+        it("should gather every group through the downstream collector", () => {
+            const words = ["apple", "avocado", "banana", "blueberry", "cherry"];
+            expect(collect(Collectors.groupingBy(x => x[0]), words))
+                .toEqual(new Map([["a", ["apple", "avocado"]], ["b", ["banana", "blueberry"]], ["c", ["cherry"]]]));
+            expect(collect(Collectors.groupingBy(x => x[0], Collectors.counting()), words))
+                .toEqual(new Map([["a", 2], ["b", 2], ["c", 1]]));
+            expect(collect(Collectors.groupingBy(x => x.length, Collectors.mapping(x => x[0], Collectors.joining(""))), words))
+                .toEqual(new Map([[5, "a"], [7, "a"], [6, "bc"], [9, "b"]]));
+        });
+    });
+
+    describe("partitioningBy", () => {
+        it("should split elements by a predicate", () => {
+            expect(collect(Collectors.partitioningBy(x => x > 2), [1, 2, 3, 4])).toEqual([[3, 4], [1, 2]]);
+            expect(collect(Collectors.partitioningBy(x => x > 2, Collectors.counting()), [1, 2, 3])).toEqual([1, 2]);
+        });
+    });
+
+    describe("numeric collectors", () => {
+        it("should aggregate per group as downstream collectors", () => {
+            const words = ["a", "bb", "cc", "ddd"];
+            expect(collect(Collectors.groupingBy(x => x.length > 1, Collectors.summing(x => x.length)), words))
+                .toEqual(new Map([[false, 1], [true, 7]]));
+            expect(collect(Collectors.groupingBy(x => x.length > 1, Collectors.averaging(x => x.length)), words))
+                .toEqual(new Map([[false, 1], [true, 7 / 3]]));
+            expect(collect(Collectors.partitioningBy(x => x > 0, Collectors.max()), [-3, 2, 5, -1])).toEqual([5, -1]);
+        });
+
+        it("should return the provided zero as the sum of no bigints", () => {
+            expect(collect(Collectors.summing(0n), [])).toBe(0n);
+            expect(collect(Collectors.summing(x => BigInt(x.length), 0n), [])).toBe(0n);
+            expect(collect(Collectors.summing(x => BigInt(x.length), 0n), ["ab", "c"])).toBe(3n);
+            expect(collect(Collectors.summarizing(0n), []).sum).toBe(0n);
+            expect(collect(Collectors.summarizing(x => BigInt(x), 0n), [1, 2]).sum).toBe(3n);
+            expect(collect(Collectors.summing(), [])).toBe(0);
+        });
+
+        it("should keep the first element on ties", () => {
+            const items = [{ id: 1, key: 2 }, { id: 2, key: 1 }, { id: 3, key: 2 }, { id: 4, key: 1 }];
+            expect(collect(Collectors.maxBy(x => x.key), items).id).toBe(1);
+            expect(collect(Collectors.minBy(x => x.key), items).id).toBe(2);
+        });
+    });
+
+    describe("reducing", () => {
+        it("should supply a new accumulator for every container", () => {
+            const pushing = Collectors.reducing(() => [], (acc, x) => { acc.push(x); return acc; });
+            const groups = collect(Collectors.groupingBy(x => x % 2, pushing), [1, 2, 3, 4]);
+            expect(groups).toEqual(new Map([[1, [1, 3]], [0, [2, 4]]]));
+        });
+    });
+
+    describe("composition", () => {
+        it("should compose filtering, mapping, reducing and collectingAndThen", () => {
+            const sum = Collectors.reducing(() => 0, (acc, x) => acc + x);
+            expect(collect(Collectors.filtering(x => x % 2 === 0, sum), [1, 2, 3, 4])).toBe(6);
+            expect(collect(Collectors.mapping(x => x * 10, Collectors.joining()), [1, 2])).toBe("10, 20");
+            expect(collect(Collectors.collectingAndThen(Collectors.toArray(), array => array.length), [1, 2])).toBe(2);
+        });
+    });
+});
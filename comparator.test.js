@@ -0,0 +1,103 @@
+import { Comparator } from "./dist/src/Comparator.js";
+
+describe("Comparator", () => {
+    const people = [{ name: "maria", age: 30, nickname: "mari" },
+                    { name: "juan" , age: 25, nickname: null   },
+                    { name: "pedro", age: 30, nickname: "pete" },
+                    { name: "ana"  , age: 25, nickname: "anita"}];
+    const names = array => array.map(person => person.name);
+
+    describe("of", () => {
+        it("should wrap a comparison function", () => {
+            expect([3, 1, 2].sort(Comparator.of((a, b) => a - b).compare)).toEqual([1, 2, 3]);
+        });
+
+        it("should return comparators as is", () => {
+            const comparator = Comparator.naturalOrder();
+            expect(Comparator.of(comparator)).toBe(comparator);
+        });
+    });
+
+    describe("naturalOrder", () => {
+        it("should order values with relational operators", () => {
+            expect([10, 2, 1].sort(Comparator.naturalOrder().compare)).toEqual([1, 2, 10]);
+            expect([3n, 1n, 2n].sort(Comparator.naturalOrder().compare)).toEqual([1n, 2n, 3n]);
+        });
+
+        it("should consider null smaller than any value", () => {
+            expect([2, null, 1].sort(Comparator.naturalOrder().compare)).toEqual([null, 1, 2]);
+        });
+    });
+
+    describe("reverseOrder", () => {
+        it("should order values by the reverse of their natural order", () => {
+            expect(["a", "c", "b"].sort(Comparator.reverseOrder().compare)).toEqual(["c", "b", "a"]);
+        });
+    });
+
+    describe("compareBy", () => {
+        it("should order values by the selected key", () => {
+            expect(names([...people].sort(Comparator.compareBy(p => p.name).compare)))
+                .toEqual(["ana", "juan", "maria", "pedro"]);
+        });
+
+        it("should use the key comparator if provided", () => {
+            const comparator = Comparator.compareBy(p => p.nickname, Comparator.nullsLast());
+            expect(names([...people].sort(comparator.compare)))
+                .toEqual(["ana", "maria", "pedro", "juan"]);
+        });
+    });
+
+    describe("compareByDescending", () => {
+        it("should order values descending by the selected key", () => {
+            expect(names([...people].sort(Comparator.compareByDescending(p => p.name).compare)))
+                .toEqual(["pedro", "maria", "juan", "ana"]);
+        });
+    });
+
+    describe("nullsFirst", () => {
+        it("should place null and undefined before other values", () => {
+            const comparator = Comparator.nullsFirst((a, b) => b - a);
+            expect([1, null, 3, 2].sort(comparator.compare)).toEqual([null, 3, 2, 1]);
+        });
+    });
+
+    describe("nullsLast", () => {
+        it("should place null and undefined after other values", () => {
+            expect([1, null, 3, 2].sort(Comparator.nullsLast().compare)).toEqual([1, 2, 3, null]);
+        });
+    });
+
+    describe("reversed", () => {
+        it("should reverse the ordering", () => {
+            const comparator = Comparator.compareBy(p => p.age).thenBy(p => p.name).reversed();
+            expect(names([...people].sort(comparator.compare)))
+                .toEqual(["pedro", "maria", "juan", "ana"]);
+        });
+    });
+
+    describe("thenBy", () => {
+        it("should break ties with the selected key", () => {
+            const comparator = Comparator.compareBy(p => p.age).thenBy(p => p.name);
+            expect(names([...people].sort(comparator.compare)))
+                .toEqual(["ana", "juan", "maria", "pedro"]);
+        });
+    });
+
+    describe("thenByDescending", () => {
+        it("should break ties with the selected key in descending order", () => {
+            const comparator = Comparator.compareBy(p => p.age).thenByDescending(p => p.name);
+            expect(names([...people].sort(comparator.compare)))
+                .toEqual(["juan", "ana", "pedro", "maria"]);
+        });
+    });
+
+    describe("thenComparing", () => {
+        it("should break ties with the provided comparator", () => {
+            const comparator = Comparator.compareBy(p => p.age)
+                .thenComparing((a, b) => a.name.length - b.name.length);
+            expect(names([...people].sort(comparator.compare)))
+                .toEqual(["ana", "juan", "maria", "pedro"]);
+        });
+    });
+});
@@ -1,2 +1,8 @@
-export { Sequence } from "./src/Sequence.js";
-export { AsyncSequence } from "./src/AsyncSequence.js";
\ No newline at end of file
+export { Sequence, TraversalOptions } from "./src/Sequence.js";
+export { AsyncSequence, AbortSignalLike, AwaitableIterable, AwaitableIterator, ConcurrencyOptions, RetryOptions, SharingOptions } from "./src/AsyncSequence.js";
+export { Collector, Collectors, SummaryStatistics } from "./src/Collector.js";
+export { Comparable, Comparator, CompareFunction } from "./src/Comparator.js";
+export { KeyEquality } from "./src/KeySet.js";
+export { Scheduler, SystemScheduler, VirtualScheduler } from "./src/Scheduler.js";
+export { SizeHint } from "./src/SizeHint.js";
+export { AsyncDisposable, Disposable } from "./src/Utils.js";
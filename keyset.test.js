@@ -0,0 +1,43 @@
+import { KeySet } from "./dist/src/KeySet.js";
+
+describe("KeySet", () => {
+    const a = { x: 1, y: 2 }, b = { x: 1, y: 2 }, c = { x: 2, y: 1 };
+    const equals = (l, r) => l.x === r.x && l.y === r.y;
+    const hash   = p => p.x + p.y; // a and c collide on purpose
+
+    describe("add", () => {
+        it("should return true only for keys not already contained", () => {
+            const set = new KeySet();
+            expect(set.add(a)).toBe(true);
+            expect(set.add(a)).toBe(false);
+            expect(set.add(b)).toBe(true);
+        });
+
+        it("should compare keys by hash if only a hash function is provided", () => {
+            const set = new KeySet({ hash });
+            expect(set.add(a)).toBe(true);
+            expect(set.add(c)).toBe(false);
+        });
+
+        it("should compare keys within the same hash bucket if both functions are provided", () => {
+            const set = new KeySet({ equals, hash });
+            expect(set.add(a)).toBe(true);
+            expect(set.add(b)).toBe(false);
+            expect(set.add(c)).toBe(true);
+        });
+    });
+
+    describe("has", () => {
+        it("should return true if an equal key was added", () => {
+            const identity = new KeySet(), linear = new KeySet({ equals }), hashed = new KeySet({ equals, hash });
+            for (const set of [identity, linear, hashed]) set.add(a);
+            expect(identity.has(a)).toBe(true);
+            expect(identity.has(b)).toBe(false);
+            expect(linear.has(b)).toBe(true);
+            expect(linear.has(c)).toBe(false);
+            expect(hashed.has(b)).toBe(true);
+            expect(hashed.has(c)).toBe(false);
+            expect(hashed.has({ x: 5, y: 5 })).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,67 @@
+import { SystemScheduler, VirtualScheduler, sleep } from "./dist/src/Scheduler.js";
+
+describe("SystemScheduler", () => {
+    it("should follow the system clock", () => {
+        const before = Date.now();
+        const now = SystemScheduler.instance.now();
+        expect(now).toBeGreaterThanOrEqual(before);
+        expect(now).toBeLessThanOrEqual(Date.now());
+    });
+
+    it("should run and cancel callbacks with the global timers", async () => {
+        const calls = [];
+        const cancelled = SystemScheduler.instance.setTimeout(() => calls.push("cancelled"), 0);
+        SystemScheduler.instance.setTimeout(() => calls.push("run"), 0);
+        SystemScheduler.instance.clearTimeout(cancelled);
+        await new Promise(resolve => setTimeout(resolve, 10));
+        expect(calls).toEqual(["run"]);
+    });
+});
+
+describe("VirtualScheduler", () => {
+    describe("now", () => {
+        it("should start at 0 and only move when advanced", async () => {
+            const scheduler = new VirtualScheduler();
+            expect(scheduler.now()).toBe(0);
+            await scheduler.advance(25);
+            expect(scheduler.now()).toBe(25);
+        });
+    });
+
+    describe("advance", () => {
+        it("should run due callbacks in order, at their scheduled time", async () => {
+            const scheduler = new VirtualScheduler();
+            const calls = [];
+            scheduler.setTimeout(() => calls.push(["b", scheduler.now()]), 20);
+            scheduler.setTimeout(() => calls.push(["a", scheduler.now()]), 10);
+            scheduler.setTimeout(() => calls.push(["c", scheduler.now()]), 30);
+            await scheduler.advance(20);
+            expect(calls).toEqual([["a", 10], ["b", 20]]);
+            await scheduler.advance(10);
+            expect(calls).toEqual([["a", 10], ["b", 20], ["c", 30]]);
+        });
+
+        it("should not run cancelled callbacks", async () => {
+            const scheduler = new VirtualScheduler();
+            const calls = [];
+            const handle = scheduler.setTimeout(() => calls.push("cancelled"), 10);
+            scheduler.clearTimeout(handle);
+            await scheduler.advance(10);
+            expect(calls).toEqual([]);
+        });
+
+        it("should run callbacks scheduled by code awaiting a previous timer", async () => {
+            const scheduler = new VirtualScheduler();
+            const times = [];
+            const task = (async () => {
+                for (let i = 0; i < 3; i++) {
+                    await sleep(scheduler, 10)[0];
+                    times.push(scheduler.now());
+                }
+            })();
+            await scheduler.advance(30);
+            await task;
+            expect(times).toEqual([10, 20, 30]);
+        });
+    });
+});
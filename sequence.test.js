@@ -1,4 +1,7 @@
 import { Sequence } from "./dist/src/Sequence.js";
+import { AsyncSequence } from "./dist/src/AsyncSequence.js";
+import { Collectors } from "./dist/src/Collector.js";
+import { Comparator } from "./dist/src/Comparator.js";
 import { Utils } from "./dist/src/Utils.js";
 import { jest } from '@jest/globals';
 
@@ -46,6 +49,29 @@ describe("Sequence", () => {
         it("should return a ConstrainedSequence for iterators", () => {
             expect(Sequence.from(array[Symbol.iterator]()).iterated).not.toBeUndefined();
         });
+
+        it("should close iterators abandoned early without pulling extra elements", () => {
+            const pulled = [];
+            let closed = 0;
+            const iterator = {
+                index: 0,
+                next() { pulled.push(this.index); return { value: this.index++, done: false }; },
+                return() { closed++; return { value: undefined, done: true }; }
+            };
+            expect(Sequence.from(iterator).take(3).toArray()).toEqual([0, 1, 2]);
+            expect(pulled).toEqual([0, 1, 2]);
+            expect(closed).toBe(1);
+        });
+
+        it("should forward errors thrown into it to the iterator", () => {
+            function* source() {
+                try { yield 1; yield 2; } catch (error) { yield error; }
+            }
+            const iterator = Sequence.from(source())[Symbol.iterator]();
+            expect(iterator.next().value).toBe(1);
+            expect(iterator.throw("recovered").value).toBe("recovered");
+            expect(iterator.next().done).toBe(true);
+        });
     
         it("should return a sized sequence if the iterable is sized", () => {
             const arrayseq = Sequence.from(array);
@@ -87,6 +113,305 @@ describe("Sequence", () => {
         });
     });
     
+    describe("unfold", () => {
+        it("should return a sequence providing elements until the next function returns undefined", () => {
+            const fibonacci = Sequence.unfold([0, 1], ([a, b]) => [a, [b, a + b]]);
+            expect(fibonacci.take(8).toArray()).toEqual([0, 1, 1, 2, 3, 5, 8, 13]);
+            const digits = Sequence.unfold(1234, n => n === 0 ? undefined : [n % 10, Math.floor(n / 10)]);
+            expect(digits.toArray()).toEqual([4, 3, 2, 1]);
+            expect(digits.size()).toBeLessThan(0);
+        });
+
+        it("should allow null elements", () => {
+            expect(Sequence.unfold(0, n => n < 3 ? [null, n + 1] : undefined).toArray()).toEqual([null, null, null]);
+        });
+    });
+
+    describe("depthFirst", () => {
+        const tree = { name: "a", children: [
+            { name: "b", children: [{ name: "d", children: [] }, { name: "e", children: [] }] },
+            { name: "c", children: [{ name: "f", children: [] }] }
+        ] };
+        const graph = new Map([[1, [2, 3]], [2, [4]], [3, [4, 1]], [4, [2]]]);
+
+        it("should walk the tree depth-first, in pre-order or post-order", () => {
+            expect(Sequence.depthFirst(tree, n => n.children).map(n => n.name).join({ separator: "" })).toBe("abdecf");
+            expect(Sequence.depthFirst(tree, n => n.children, { order: "post" }).map(n => n.name).join({ separator: "" })).toBe("debfca");
+        });
+
+        it("should only request the children of the nodes reached, up to the maximum depth", () => {
+            const children = jest.fn(n => n.children);
+            expect(Sequence.depthFirst(tree, children).elementAt(2).name).toBe("d");
+            expect(children).toHaveBeenCalledTimes(2);
+            expect(Sequence.depthFirst(tree, n => n.children, { maxDepth: 1 }).map(n => n.name).toArray()).toEqual(["a", "b", "c"]);
+            expect(Sequence.depthFirst(tree, n => n.children, { maxDepth: 0 }).size()).toBe(1);
+            expect(() => Sequence.depthFirst(tree, n => n.children, { maxDepth: -1 })).toThrow(Utils.IllegalArgumentError);
+            expect(() => Sequence.depthFirst(tree, n => n.children, { maxDepth: 1.5 })).toThrow(Utils.IllegalArgumentError);
+            expect(() => Sequence.depthFirst(tree, n => n.children, { maxDepth: NaN })).toThrow(Utils.IllegalArgumentError);
+            expect(Sequence.depthFirst(tree, n => n.children, { maxDepth: Infinity }).count()).toBe(6);
+        });
+
+        it("should skip nodes already visited if cycles are detected", () => {
+            expect(Sequence.depthFirst(1, n => graph.get(n), { detectCycles: true }).toArray()).toEqual([1, 2, 4, 3]);
+            expect(Sequence.depthFirst(1, n => graph.get(n), { order: "post", detectCycles: true }).toArray()).toEqual([4, 2, 3, 1]);
+            expect(Sequence.depthFirst({ id: 1 }, n => graph.get(n.id).map(id => ({ id })), { detectCycles: n => n.id })
+                .map(n => n.id).toArray()).toEqual([1, 2, 4, 3]);
+            expect(Sequence.depthFirst(1, n => graph.get(n)).take(6).toArray()).toEqual([1, 2, 4, 2, 4, 2]);
+        });
+    });
+
+    describe("breadthFirst", () => {
+        const tree = { name: "a", children: [
+            { name: "b", children: [{ name: "d", children: [] }, { name: "e", children: [] }] },
+            { name: "c", children: [{ name: "f", children: [] }] }
+        ] };
+        const graph = new Map([[1, [2, 3]], [2, [4]], [3, [4, 1]], [4, [2]]]);
+
+        it("should walk the tree level by level", () => {
+            expect(Sequence.breadthFirst(tree, n => n.children).map(n => n.name).join({ separator: "" })).toBe("abcdef");
+            expect(Sequence.breadthFirst(tree, n => n.children, { maxDepth: 1 }).count()).toBe(3);
+        });
+
+        it("should only accept a non-negative integer or infinite maximum depth", () => {
+            expect(Sequence.breadthFirst(tree, n => n.children, { maxDepth: Infinity }).count()).toBe(6);
+            expect(Sequence.breadthFirst(tree, n => n.children, { maxDepth: 0 }).count()).toBe(1);
+            expect(() => Sequence.breadthFirst(tree, n => n.children, { maxDepth: -1 })).toThrow(Utils.IllegalArgumentError);
+            expect(() => Sequence.breadthFirst(tree, n => n.children, { maxDepth: 1.5 })).toThrow(Utils.IllegalArgumentError);
+            expect(() => Sequence.breadthFirst(tree, n => n.children, { maxDepth: NaN })).toThrow(Utils.IllegalArgumentError);
+        });
+
+        it("should skip nodes already visited if cycles are detected", () => {
+            expect(Sequence.breadthFirst(1, n => graph.get(n), { detectCycles: true }).toArray()).toEqual([1, 2, 3, 4]);
+            expect(Sequence.breadthFirst(1, n => graph.get(n)).take(6).toArray()).toEqual([1, 2, 3, 4, 4, 1]);
+        });
+    });
+
+    describe("range", () => {
+        it("should return a sequence from start to end, excluding end", () => {
+            expect(Sequence.range(0, 5).toArray()).toEqual([0, 1, 2, 3, 4]);
+            expect(Sequence.range(0, 10, 3).toArray()).toEqual([0, 3, 6, 9]);
+            expect(Sequence.range(5, 5).isEmpty()).toBe(true);
+        });
+
+        it("should descend when end is smaller than start", () => {
+            expect(Sequence.range(5, 0).toArray()).toEqual([5, 4, 3, 2, 1]);
+            expect(Sequence.range(10, 0, -4).toArray()).toEqual([10, 6, 2]);
+        });
+
+        it("should be empty when the step goes away from end", () => {
+            expect(Sequence.range(0, 5, -1).size()).toBe(0);
+            expect(Sequence.range(0, 5, -1).isEmpty()).toBe(true);
+        });
+
+        it("should support fractional steps", () => {
+            const seq = Sequence.range(0, 1, 0.25);
+            expect(seq.size()).toBe(4);
+            expect(seq.toArray()).toEqual([0, 0.25, 0.5, 0.75]);
+            expect(Sequence.range(0, 0.3, 0.1).size()).toBe(3);
+        });
+
+        it("should support bigint ranges", () => {
+            expect(Sequence.range(0n, 4n).toArray()).toEqual([0n, 1n, 2n, 3n]);
+            expect(Sequence.range(10n, 0n, -3n).toArray()).toEqual([10n, 7n, 4n, 1n]);
+            expect(Sequence.range(10n, 0n, -3n).size()).toBe(4);
+            expect(Sequence.range(0n, 4n, -1n).size()).toBe(0);
+        });
+
+        it("should return a sized sequence", () => {
+            expect(Sequence.range(0, 100).size()).toBe(100);
+            expect(Sequence.range(0, 100, 7).size()).toBe(Sequence.range(0, 100, 7).count());
+            expect(Sequence.range(0, Infinity).size()).toBeLessThan(0);
+        });
+
+        it("should access elements by index", () => {
+            const seq = Sequence.range(10, 20, 2);
+            expect(seq.elementAt(0)).toBe(10);
+            expect(seq.elementAt(4)).toBe(18);
+            expect(seq.elementAt(5)).toBeUndefined();
+            expect(seq.elementAt(-1)).toBeUndefined();
+            expect(Sequence.range(0n, 10n).elementAt(3)).toBe(3n);
+            expect(Sequence.range(0n, 10n).elementAt(10)).toBeUndefined();
+        });
+
+        it("should throw an illegalargumenterror for a step of zero", () => {
+            expect(() => Sequence.range(0, 5, 0)).toThrow(Utils.IllegalArgumentError);
+            expect(() => Sequence.range(0n, 5n, 0n)).toThrow(Utils.IllegalArgumentError);
+        });
+
+        it("should throw an illegalargumenterror for non-finite bounds other than an infinite end", () => {
+            expect(() => Sequence.range(0, NaN)).toThrow(Utils.IllegalArgumentError);
+            expect(() => Sequence.range(NaN, 5)).toThrow(Utils.IllegalArgumentError);
+            expect(() => Sequence.range(-Infinity, 5)).toThrow(Utils.IllegalArgumentError);
+            expect(() => Sequence.range(0, 5, NaN)).toThrow(Utils.IllegalArgumentError);
+            expect(() => Sequence.rangeClosed(0, 5, Infinity)).toThrow(Utils.IllegalArgumentError);
+            expect(Sequence.range(0, -Infinity).take(3).toArray()).toEqual([0, -1, -2]);
+        });
+    });
+
+    describe("rangeClosed", () => {
+        it("should return a sequence from start to end, including end", () => {
+            expect(Sequence.rangeClosed(1, 5).toArray()).toEqual([1, 2, 3, 4, 5]);
+            expect(Sequence.rangeClosed(5, 1).toArray()).toEqual([5, 4, 3, 2, 1]);
+            expect(Sequence.rangeClosed(0, 9, 3).toArray()).toEqual([0, 3, 6, 9]);
+            expect(Sequence.rangeClosed(3, 3).toArray()).toEqual([3]);
+        });
+
+        it("should return a sized sequence", () => {
+            expect(Sequence.rangeClosed(1, 100).size()).toBe(100);
+            expect(Sequence.rangeClosed(0, 1, 0.1).size()).toBe(11);
+            expect(Sequence.rangeClosed(0, 0.3, 0.1).size()).toBe(4);
+            expect(Sequence.rangeClosed(1n, 10n, 3n).size()).toBe(4);
+            expect(Sequence.rangeClosed(1n, 10n, 3n).last()).toBe(10n);
+        });
+    });
+
+    describe("zip (static)", () => {
+        it("should return a sequence of tuples until the shortest sequence ends", () => {
+            const seq = Sequence.zip(Sequence.of(1, 2, 3), Sequence.of("a", "b"), Sequence.of(true, false, true));
+            expect(seq.toArray()).toEqual([[1, "a", true], [2, "b", false]]);
+        });
+
+        it("should return a sized sequence only if all sequences are sized", () => {
+            expect(Sequence.zip(Sequence.of(1, 2, 3), Sequence.of(1)).size()).toBe(1);
+            expect(Sequence.zip(Sequence.of(1, 2, 3), Sequence.generate(0, x => x)).size()).toBeLessThan(0);
+            expect(Sequence.zip().isEmpty()).toBe(true);
+        });
+    });
+
+    describe("using", () => {
+        it("should dispose of the resource once the body returns or throws", () => {
+            const dispose = jest.fn();
+            const resource = () => Sequence.from({ [Symbol.iterator]: () => [1, 2, 3][Symbol.iterator](), [Utils.dispose]: dispose });
+            expect(Sequence.using(resource, seq => seq.toArray())).toEqual([1, 2, 3]);
+            expect(dispose).toHaveBeenCalledTimes(1);
+            expect(() => Sequence.using(resource, () => { throw new Error(); })).toThrow();
+            expect(dispose).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    describe("asAsync", () => {
+        it("should return an async sequence containing the elements of this sequence", async () => {
+            const seq = Sequence.of(1, 2, 3).asAsync();
+            expect(seq[Symbol.asyncIterator]).toBeDefined();
+            expect(await seq.toArray()).toEqual([1, 2, 3]);
+        });
+
+        it("should retain size information", () => {
+            expect(Sequence.of(1, 2, 3).asAsync().size()).toBe(3);
+            expect(Sequence.generate(0, x => x + 1).asAsync().size()).toBeLessThan(0);
+        });
+    });
+
+    describe("associate", () => {
+        it("should map the pairs generated by the transform, keeping the last value for repeated keys", () => {
+            expect(Sequence.of("a", "bb", "c").associate(x => [x.length, x])).toEqual(new Map([[1, "c"], [2, "bb"]]));
+        });
+    });
+
+    describe("associateBy", () => {
+        it("should key elements by the selector, optionally transforming the values", () => {
+            expect(Sequence.of("a", "bb").associateBy(x => x.length)).toEqual(new Map([[1, "a"], [2, "bb"]]));
+            expect(Sequence.of("a", "bb").associateBy(x => x.length, x => x.toUpperCase()))
+                .toEqual(new Map([[1, "A"], [2, "BB"]]));
+        });
+    });
+
+    describe("associateWith", () => {
+        it("should map every element to the value generated by the selector", () => {
+            expect(Sequence.of("a", "bb").associateWith(x => x.length)).toEqual(new Map([["a", 1], ["bb", 2]]));
+        });
+    });
+
+    describe("average", () => {
+        it("should return the mean of the numbers, or NaN if empty", () => {
+            expect(Sequence.of(1, 2, 3, 4).average()).toBe(2.5);
+            expect(Sequence.of(1n, 2n).average()).toBe(1.5);
+            expect(Sequence.empty().average()).toBeNaN();
+        });
+    });
+
+    describe("cached", () => {
+        it("should compute every element only once across iterations", () => {
+            const transform = jest.fn(x => x * 2);
+            const seq = Sequence.of(1, 2, 3).map(transform).cached();
+            expect(seq.count()).toBe(3);
+            expect(seq.toArray()).toEqual([2, 4, 6]);
+            expect(transform).toHaveBeenCalledTimes(3);
+        });
+
+        it("should replay stored elements and keep pulling lazily", () => {
+            const transform = jest.fn(x => x);
+            const seq = Sequence.generate(0, x => x + 1).map(transform).cached();
+            expect(seq.first()).toBe(0);
+            expect(seq.elementAt(3)).toBe(3);
+            expect(transform).toHaveBeenCalledTimes(4);
+        });
+
+        it("should support simultaneous iterators", () => {
+            const seq = Sequence.from([1, 2, 3][Symbol.iterator]()).cached();
+            const a = seq[Symbol.iterator](), b = seq[Symbol.iterator]();
+            expect([a.next().value, b.next().value, b.next().value, a.next().value]).toEqual([1, 1, 2, 2]);
+            expect(seq.toArray()).toEqual([1, 2, 3]);
+        });
+
+        it("should report its exact size once exhausted", () => {
+            const seq = Sequence.of(1, 2, 3, 4).filter(x => x % 2 === 0).cached();
+            expect(seq.size()).toBeLessThan(0);
+            seq.forEach(() => {});
+            expect(seq.size()).toBe(2);
+        });
+
+        it("should throw the source's error again on every iteration reaching it", () => {
+            const seq = Sequence.of(1, 2).map(x => { if (x === 2) throw new Error("boom"); return x; }).cached();
+            expect(() => seq.toArray()).toThrow("boom");
+            expect(seq.first()).toBe(1);
+            expect(() => seq.toArray()).toThrow("boom");
+        });
+
+        it("should only replay the stored elements once disposed of, without reopening the source", () => {
+            const generator = jest.fn(function* () { for (let i = 1; i <= 5; i++) yield i; });
+            const seq = Sequence.from({ [Symbol.iterator]: generator }).cached();
+            expect(seq.take(2).toArray()).toEqual([1, 2]);
+            expect(seq.take(2).toArray()).toEqual([1, 2]);
+            seq[Utils.dispose]();
+            expect(seq.toArray()).toEqual([1, 2]);
+            expect(seq.size()).toBe(2);
+            expect(generator).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe("chunked", () => {
+        it("should split the sequence into chunks, keeping a smaller last chunk", () => {
+            expect(Sequence.range(0, 7).chunked(3).toArray()).toEqual([[0, 1, 2], [3, 4, 5], [6]]);
+            expect(Sequence.range(0, 6).chunked(3).toArray()).toEqual([[0, 1, 2], [3, 4, 5]]);
+        });
+
+        it("should transform every chunk if a transform is provided", () => {
+            expect(Sequence.range(0, 7).chunked(3, chunk => chunk.length).toArray()).toEqual([3, 3, 1]);
+        });
+
+        it("should retain size information", () => {
+            expect(Sequence.range(0, 7).chunked(3).size()).toBe(3);
+            expect(Sequence.range(0, 6).chunked(3).size()).toBe(2);
+            expect(Sequence.generate(0, x => x + 1).chunked(3).size()).toBeLessThan(0);
+        });
+
+        it("should not hang for infinite sequences", () => {
+            expect(Sequence.generate(0, x => x + 1).chunked(2).first()).toEqual([0, 1]);
+        });
+
+        it("should throw an illegalargumenterror for sizes smaller than 1", () => {
+            expect(() => Sequence.of(1).chunked(0)).toThrow(Utils.IllegalArgumentError);
+        });
+    });
+
+    describe("collect", () => {
+        it("should gather the elements through the provided collector", () => {
+            expect(Sequence.of(1, 2, 3).collect(Collectors.joining("-"))).toBe("1-2-3");
+            expect(Sequence.empty().collect(Collectors.counting())).toBe(0);
+        });
+    });
+
     describe("concat", () => {
         it("should return a sequence containing the elements of this and the other sequence", () => {
             const seq   = Sequence.of(1, 2, 3);
@@ -139,6 +464,22 @@ describe("Sequence", () => {
             expect(haystack.containsAll(trueNeedle)) .toBe(true);
             expect(haystack.containsAll(falseNeedle)).toBe(false);
         })
+
+        it("should iterate the sequence at most once, stopping as soon as every value is found", () => {
+            const visited = jest.fn();
+            const seq = Sequence.of(1, 2, 3, 4, 5).onEach(visited);
+            expect(seq.containsAll([2, 1, 2])).toBe(true);
+            expect(visited).toHaveBeenCalledTimes(2);
+            expect(seq.containsAll([1, 6])).toBe(false);
+            expect(visited).toHaveBeenCalledTimes(7);
+            expect(Sequence.generate(1, x => x + 1).containsAll([])).toBe(true);
+        });
+
+        it("should compare values with ===, as contains does", () => {
+            expect(Sequence.of(1, NaN).contains(NaN)).toBe(false);
+            expect(Sequence.of(1, NaN).containsAll([1, NaN])).toBe(false);
+            expect(Sequence.of(-0, 1).containsAll([0, 1])).toBe(true);
+        });
     });
 
     describe("constrainOnce", () => {
@@ -160,6 +501,49 @@ describe("Sequence", () => {
         });
     });
 
+    describe("distinct", () => {
+        it("should keep only the first occurrence of every element", () => {
+            expect(Sequence.of(1, 2, 1, 3, 2, 4).distinct().toArray()).toEqual([1, 2, 3, 4]);
+        });
+
+        it("should not hang for infinite sequences", () => {
+            const seq = Sequence.generate(0, x => x + 1).map(x => x % 3).distinct();
+            expect(seq.first()).toBe(0);
+            expect(seq.elementAt(2)).toBe(2);
+        });
+
+        it("should use custom equality if provided", () => {
+            const a = { x: 1, y: 2 }, b = { x: 1, y: 2 }, c = { x: 2, y: 1 };
+            const equals = (l, r) => l.x === r.x && l.y === r.y;
+            const hash   = p => p.x * 31 + p.y;
+            expect(Sequence.of(a, b, c).distinct().count()).toBe(3);
+            expect(Sequence.of(a, b, c).distinct({ equals }).toArray()).toEqual([a, c]);
+            expect(Sequence.of(a, b, c).distinct({ hash }).toArray()).toEqual([a, c]);
+            expect(Sequence.of(a, b, c).distinct({ equals, hash }).toArray()).toEqual([a, c]);
+        });
+
+        it("should return a non-sized sequence", () => {
+            expect(Sequence.of(1, 1, 2).distinct().size()).toBeLessThan(0);
+        });
+    });
+
+    describe("distinctBy", () => {
+        it("should keep only the first element for every distinct key", () => {
+            const people = Sequence.of({ name: "maria", age: 30 },
+                                       { name: "juan" , age: 25 },
+                                       { name: "pedro", age: 30 });
+            expect(people.distinctBy(p => p.age).map(p => p.name).join()).toBe("maria, juan");
+        });
+
+        it("should use custom key equality if provided", () => {
+            const words = Sequence.of("Foo", "bar", "FOO", "Bar", "baz");
+            expect(words.distinctBy(w => w, { equals: (a, b) => a.toLowerCase() === b.toLowerCase() })
+                .toArray()).toEqual(["Foo", "bar", "baz"]);
+            expect(words.distinctBy(w => w, { hash: w => w.toLowerCase() }).toArray())
+                .toEqual(["Foo", "bar", "baz"]);
+        });
+    });
+
     describe("drop", () => {
         const seq = Sequence.of(1, 2, 3, 4, 5);
         it("should drop n amounts of elements from a sequence", () => {
@@ -228,6 +612,23 @@ describe("Sequence", () => {
         });
     });
 
+    describe("filterIsInstance", () => {
+        it("should keep only the instances of the given class", () => {
+            const errors = Sequence.of(new TypeError("a"), 1, new RangeError("b"), "c", new TypeError("d"));
+            expect(errors.filterIsInstance(TypeError).map(e => e.message).toArray()).toEqual(["a", "d"]);
+            expect(errors.filterIsInstance(Error).count()).toBe(3);
+            expect(errors.filterIsInstance(Error).size()).toBe(-1);
+        });
+    });
+
+    describe("filterNotNull", () => {
+        it("should drop null and undefined elements, and nothing else", () => {
+            const seq = Sequence.of(0, null, "", undefined, false, NaN);
+            expect(seq.filterNotNull().toArray()).toEqual([0, "", false, NaN]);
+            expect(seq.filterNotNull().sizeHint().toString()).toBe("≤6");
+        });
+    });
+
     describe("find", () => {
         it("should return the first item fulfilling a predicate or undefined", () => {
             const haystack = Sequence.of({ name: "john"  , id: 0 },
@@ -303,6 +704,17 @@ describe("Sequence", () => {
         });
     });
 
+    describe("flatMapAsync", () => {
+        it("should flatten asynchronous and synchronous sequences into an asyncsequence", async () => {
+            const seq = Sequence.of(1, 2, 3);
+            const flattened = seq.flatMapAsync(async (item, index) => item % 2 === 0
+                ? AsyncSequence.of(item, index)
+                : Sequence.of(item));
+            expect(flattened).toBeInstanceOf(AsyncSequence);
+            expect(await flattened.toArray()).toEqual([1, 2, 1, 3]);
+        });
+    });
+
     describe("fold", () => {
         it("should reduce with an initial value", () => {
             const seq = Sequence.of(1, 2, 3, 4, 5);
@@ -324,6 +736,17 @@ describe("Sequence", () => {
         });
     });
 
+    describe("fullOuterJoin", () => {
+        const customers = Sequence.of({ id: 1, name: "maria" }, { id: 2, name: "juan" }, { id: 3, name: "pedro" });
+        const orders    = [{ customer: 1, total: 10 }, { customer: 3, total: 5 }, { customer: 1, total: 7 }, { customer: 4, total: 1 }];
+
+        it("should combine matching elements, and the ones without matches on either side with undefined", () => {
+            expect(customers.fullOuterJoin(orders, c => c.id, o => o.customer, (c, o) => [c?.name, o?.total]).toArray())
+                .toEqual([["maria", 10], ["maria", 7], ["juan", undefined], ["pedro", 5], [undefined, 1]]);
+            expect(Sequence.empty().fullOuterJoin([1, 1, 2], x => x, x => x, (a, b) => b).toArray()).toEqual([1, 1, 2]);
+        });
+    });
+
     describe("groupBy", () => {
         it("should group elements to a map by a selector function", () => {
             const seq = Sequence.of(
@@ -335,6 +758,41 @@ describe("Sequence", () => {
             expect(map).toBeInstanceOf(Map);
             expect(map.get("María").length == 2);
         });
+
+        it("should put every element in its bucket, including the first one", () => {
+            expect(Sequence.of(1, 2, 3, 4, 5).groupBy(x => x % 2)).toEqual(new Map([[1, [1, 3, 5]], [0, [2, 4]]]));
+        });
+
+        it("should gather every bucket through the downstream collector", () => {
+            expect(Sequence.of(1, 2, 3, 4, 5).groupBy(x => x % 2, Collectors.counting()))
+                .toEqual(new Map([[1, 3], [0, 2]]));
+        });
+    });
+
+    describe("groupJoin", () => {
+        const customers = Sequence.of({ id: 1, name: "maria" }, { id: 2, name: "juan" }, { id: 3, name: "pedro" });
+        const orders    = [{ customer: 1, total: 10 }, { customer: 3, total: 5 }, { customer: 1, total: 7 }, { customer: 4, total: 1 }];
+
+        it("should combine every element with the array of matching elements", () => {
+            expect(customers.groupJoin(orders, c => c.id, o => o.customer, (c, os) => [c.name, os.map(o => o.total)]).toArray())
+                .toEqual([["maria", [10, 7]], ["juan", []], ["pedro", [5]]]);
+            expect(customers.groupJoin(orders, c => c.id, o => o.customer, (c, os) => os.length).size()).toBe(3);
+        });
+    });
+
+    describe("ifEmpty", () => {
+        it("should yield the fallback only when the sequence is empty", () => {
+            const fallback = jest.fn(() => [0]);
+            expect(Sequence.of(1, 2).ifEmpty(fallback).toArray()).toEqual([1, 2]);
+            expect(fallback).not.toHaveBeenCalled();
+            expect(Sequence.of(1, 2).filter(x => x > 2).ifEmpty(fallback).toArray()).toEqual([0]);
+            expect(fallback).toHaveBeenCalledTimes(1);
+        });
+
+        it("should retain the size only when the sequence is known to be non-empty", () => {
+            expect(Sequence.of(1, 2).ifEmpty(() => [0]).size()).toBe(2);
+            expect(Sequence.empty().ifEmpty(() => [0]).size()).toBe(-1);
+        });
     });
 
     describe("indexOf", () => {
@@ -346,6 +804,41 @@ describe("Sequence", () => {
         });
     });
 
+    describe("innerJoin", () => {
+        const customers = Sequence.of({ id: 1, name: "maria" }, { id: 2, name: "juan" }, { id: 3, name: "pedro" });
+        const orders    = [{ customer: 1, total: 10 }, { customer: 3, total: 5 }, { customer: 1, total: 7 }, { customer: 4, total: 1 }];
+
+        it("should combine every element with every matching element, leaving out the rest", () => {
+            expect(customers.innerJoin(orders, c => c.id, o => o.customer, (c, o) => `${c.name}: ${o.total}`).toArray())
+                .toEqual(["maria: 10", "maria: 7", "pedro: 5"]);
+            expect(customers.innerJoin(orders, c => c.id, o => o.customer, (c, o) => o).size()).toBe(-1);
+        });
+
+        it("should index the inner side once per iteration and stream the outer side lazily", () => {
+            const innerKey = jest.fn(o => o.customer);
+            const joined = Sequence.generate(1, x => x + 1).innerJoin(orders, x => x, innerKey, (x, o) => o.total);
+            expect(innerKey).not.toHaveBeenCalled();
+            expect(joined.take(3).toArray()).toEqual([10, 7, 5]);
+            expect(innerKey).toHaveBeenCalledTimes(4);
+        });
+    });
+
+    describe("intersect", () => {
+        const db     = Sequence.of({ id: 1, name: "maria" }, { id: 2, name: "juan" }, { id: 3, name: "pedro" });
+        const import_ = [{ id: 3, name: "pedro" }, { id: 4, name: "ana" }, { id: 1, name: "maria" }];
+
+        it("should keep the distinct elements also contained by the other iterable", () => {
+            expect(Sequence.of(1, 2, 2, 3, 4).intersect([4, 2, 5]).toArray()).toEqual([2, 4]);
+            expect(Sequence.of(1, 2).intersect([]).toArray()).toEqual([]);
+        });
+
+        it("should compare elements by key if a selector is provided", () => {
+            expect(db.intersect(import_, row => row.id).map(row => row.id).toArray()).toEqual([1, 3]);
+            expect(Sequence.of("Foo", "bar").intersect(["FOO"], w => w.toLowerCase()).toArray()).toEqual(["Foo"]);
+            expect(db.intersect(import_).count()).toBe(0);
+        });
+    });
+
     describe("isEmpty", () => {
         it("should return true for sequences with no elements", () => {
             expect(Sequence.empty().isEmpty()).toBe(true);
@@ -405,6 +898,17 @@ describe("Sequence", () => {
         });
     });
 
+    describe("leftJoin", () => {
+        const customers = Sequence.of({ id: 1, name: "maria" }, { id: 2, name: "juan" }, { id: 3, name: "pedro" });
+        const orders    = [{ customer: 1, total: 10 }, { customer: 3, total: 5 }, { customer: 1, total: 7 }, { customer: 4, total: 1 }];
+
+        it("should combine every element with every matching element, or undefined if there are none", () => {
+            expect(customers.leftJoin(orders, c => c.id, o => o.customer, (c, o) => [c.name, o?.total]).toArray())
+                .toEqual([["maria", 10], ["maria", 7], ["juan", undefined], ["pedro", 5]]);
+            expect(customers.leftJoin([], c => c.id, o => o, (c, o) => o).sizeHint().toString()).toBe("≥3");
+        });
+    });
+
     describe("map", () => {
         it("should transform each value with the provided transformator", () => {
             const seq = Sequence.of(1, 2, 3, 4, 5);
@@ -412,6 +916,106 @@ describe("Sequence", () => {
         });
     });
 
+    describe("mapNotNull", () => {
+        it("should map every element and drop null and undefined results", () => {
+            const seq = Sequence.of("1", "a", "3", "");
+            expect(seq.mapNotNull(x => x === "" ? undefined : Number.isNaN(+x) ? null : +x).toArray()).toEqual([1, 3]);
+            expect(seq.mapNotNull((_, i) => i % 2 === 0 ? i : null).toArray()).toEqual([0, 2]);
+            expect(seq.mapNotNull(x => x).toArray()).toEqual(["1", "a", "3", ""]);
+        });
+    });
+
+    describe("max", () => {
+        it("should return the greatest number, or undefined if empty", () => {
+            expect(Sequence.of(3, 7, 1).max()).toBe(7);
+            expect(Sequence.of(3n, 7n, 1n).max()).toBe(7n);
+            expect(Sequence.of(3, NaN, 1).max()).toBeNaN();
+            expect(Sequence.empty().max()).toBeUndefined();
+        });
+    });
+
+    describe("maxBy", () => {
+        it("should return the first element with the greatest key", () => {
+            expect(Sequence.of("bb", "a", "cc").maxBy(x => x.length)).toBe("bb");
+            expect(Sequence.empty().maxBy(x => x)).toBeUndefined();
+        });
+    });
+
+    describe("maxWith", () => {
+        it("should return the first greatest element according to the comparator", () => {
+            expect(Sequence.of(3, 7, 1).maxWith((a, b) => b - a)).toBe(1);
+        });
+    });
+
+    describe("min", () => {
+        it("should return the smallest number, or undefined if empty", () => {
+            expect(Sequence.of(3, 7, 1).min()).toBe(1);
+            expect(Sequence.of(3n, -7n, 1n).min()).toBe(-7n);
+            expect(Sequence.of(3, NaN, 1).min()).toBeNaN();
+            expect(Sequence.empty().min()).toBeUndefined();
+        });
+    });
+
+    describe("minBy", () => {
+        it("should return the first element with the smallest key", () => {
+            expect(Sequence.of("bb", "a", "c").minBy(x => x.length)).toBe("a");
+        });
+    });
+
+    describe("minWith", () => {
+        it("should return the first smallest element according to the comparator", () => {
+            expect(Sequence.of("b", "A", "a").minWith(Comparator.compareBy(x => x.toLowerCase()))).toBe("A");
+            expect(Sequence.empty().minWith((a, b) => a - b)).toBeUndefined();
+        });
+    });
+
+    describe("onClose", () => {
+        it("should run the callback once the sequence is exhausted", () => {
+            const callback = jest.fn();
+            const seq = Sequence.of(1, 2, 3).onClose(callback);
+            expect(seq.toArray()).toEqual([1, 2, 3]);
+            expect(callback).toHaveBeenCalledTimes(1);
+        });
+
+        it("should run the callback once the consumer stops early or an error is thrown", () => {
+            const callback = jest.fn();
+            Sequence.generate(0, x => x + 1).onClose(callback).find(x => x === 2);
+            expect(callback).toHaveBeenCalledTimes(1);
+            expect(() => Sequence.of(1, 2).onClose(callback).forEach(() => { throw new Error(); })).toThrow();
+            expect(callback).toHaveBeenCalledTimes(2);
+        });
+
+        it("should retain size information", () => {
+            expect(Sequence.of(1, 2, 3).onClose(jest.fn()).size()).toBe(3);
+        });
+    });
+
+    describe("onEach", () => {
+        it("should call the action lazily on every element, passing them on unchanged", () => {
+            const seen = [];
+            const seq = Sequence.of(1, 2, 3).onEach((x, i) => seen.push([x, i]));
+            expect(seen).toEqual([]);
+            expect(seq.map(x => x * 2).toArray()).toEqual([2, 4, 6]);
+            expect(seen).toEqual([[1, 0], [2, 1], [3, 2]]);
+            expect(seq.size()).toBe(3);
+        });
+
+        it("should call the action on every element before the ones requested", () => {
+            const action = jest.fn();
+            expect(Sequence.of(1, 2, 3).onEach(action).elementAt(1)).toBe(2);
+            expect(action).toHaveBeenCalledTimes(2);
+            expect(Sequence.of(1, 2, 3).onEach(action).last()).toBe(3);
+            expect(action).toHaveBeenCalledTimes(5);
+        });
+    });
+
+    describe("partition", () => {
+        it("should split the elements into the ones fulfilling the predicate and the rest", () => {
+            expect(Sequence.of(1, 2, 3, 4).partition(x => x % 2 === 0)).toEqual([[2, 4], [1, 3]]);
+            expect(Sequence.empty().partition(x => x)).toEqual([[], []]);
+        });
+    });
+
     describe("reduce", () => {
         it("should reduce without an initial value", () => {
             const seq = Sequence.of(1, 2, 3, 4, 5);
@@ -424,6 +1028,69 @@ describe("Sequence", () => {
         });
     });
 
+    describe("requireNoNulls", () => {
+        it("should pass elements unchanged until a null or undefined one is found", () => {
+            expect(Sequence.of(1, 0, 2).requireNoNulls().toArray()).toEqual([1, 0, 2]);
+            const seq = Sequence.of(1, undefined, 2).requireNoNulls();
+            expect(seq.first()).toBe(1);
+            expect(() => seq.toArray()).toThrow(Utils.IllegalArgumentError);
+            expect(() => Sequence.of(null).requireNoNulls().last()).toThrow(Utils.IllegalArgumentError);
+        });
+
+        it("should not iterate the sequence again to report the null element", () => {
+            const oneShot = Sequence.from([1, null, 3][Symbol.iterator]()).requireNoNulls();
+            expect(() => oneShot.toArray()).toThrow(new Utils.IllegalArgumentError("null element found at index 1"));
+            const action = jest.fn();
+            expect(() => Sequence.of(1, null).onEach(action).requireNoNulls().toArray()).toThrow(Utils.IllegalArgumentError);
+            expect(action).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    describe("reversed", () => {
+        it("should yield the elements in reverse order", () => {
+            expect(Sequence.of(1, 2, 3).reversed().toArray()).toEqual([3, 2, 1]);
+            expect(Sequence.of(1, 2, 3, 4).filter(x => x % 2 === 0).reversed().toArray()).toEqual([4, 2]);
+            expect(Sequence.empty().reversed().toArray()).toEqual([]);
+        });
+
+        it("should retain size information", () => {
+            expect(Sequence.of(1, 2, 3).reversed().size()).toBe(3);
+        });
+    });
+
+    describe("runningFold", () => {
+        it("should yield the initial value and every intermediate accumulation", () => {
+            const seq = Sequence.of(1, 2, 3);
+            expect(seq.runningFold(0, (acc, x) => acc + x).toArray()).toEqual([0, 1, 3, 6]);
+            expect(seq.runningFold("", (acc, x, i) => acc + x + i).last()).toBe(seq.fold("", (acc, x, i) => acc + x + i));
+            expect(Sequence.empty().runningFold(0, (acc, x) => acc + x).toArray()).toEqual([0]);
+        });
+
+        it("should have one more element than the sequence it accumulates", () => {
+            expect(Sequence.of(1, 2, 3).runningFold(0, (acc, x) => acc + x).size()).toBe(4);
+            expect(Sequence.of(1, 2, 3).scan(0, (acc, x) => acc + x).size()).toBe(4);
+        });
+
+        it("should be lazy over infinite sequences", () => {
+            const totals = Sequence.generate(1, x => x + 1).scan(0, (acc, x) => acc + x);
+            expect(totals.take(5).toArray()).toEqual([0, 1, 3, 6, 10]);
+        });
+    });
+
+    describe("runningReduce", () => {
+        it("should yield the first element and every intermediate accumulation", () => {
+            const seq = Sequence.of(1, 2, 3, 4);
+            expect(seq.runningReduce((acc, x) => acc * x).toArray()).toEqual([1, 2, 6, 24]);
+            expect(seq.runningReduce((acc, x, i) => acc + x * i).last()).toBe(seq.reduce((acc, x, i) => acc + x * i));
+            expect(seq.runningReduce((acc, x) => acc + x).size()).toBe(4);
+            expect(Sequence.empty().runningReduce((acc, x) => acc + x).toArray()).toEqual([]);
+        });
+
+        it("should be lazy over infinite sequences", () => {
+            expect(Sequence.generate(1, x => x + 1).runningReduce((acc, x) => acc + x).elementAt(3)).toBe(10);
+        });
+    });
+
     describe("size", () => {
         it("should return the size for known-size sequences", () => {
             const fn = jest.fn();
@@ -456,6 +1123,46 @@ describe("Sequence", () => {
         });
     });
 
+    describe("sizeHint", () => {
+        const bounds = seq => [seq.sizeHint().lower, seq.sizeHint().upper];
+
+        it("should be exact for sized sequences", () => {
+            expect(bounds(Sequence.of(1, 2, 3))).toEqual([3, 3]);
+            expect(bounds(Sequence.of(1, 2, 3).map(x => x * 2).sortedBy(x => -x))).toEqual([3, 3]);
+        });
+
+        it("should keep an upper bound through filtering operations", () => {
+            const seq = Sequence.range(0, 10);
+            expect(bounds(seq.filter(x => x % 2 === 0))).toEqual([0, 10]);
+            expect(bounds(seq.takeWhile(x => x < 5).drop(2))).toEqual([0, 8]);
+            expect(bounds(seq.distinct())).toEqual([1, 10]);
+            expect(seq.filter(x => x % 2 === 0).size()).toBeLessThan(0);
+        });
+
+        it("should combine the bounds of concatenated and zipped sequences", () => {
+            const filtered = Sequence.range(0, 10).filter(x => x > 3);
+            const generated = Sequence.generate(0, x => x + 1);
+            expect(bounds(Sequence.of(1, 2).concat(filtered))).toEqual([2, 12]);
+            expect(bounds(Sequence.of(1, 2).concat(generated))).toEqual([2, Infinity]);
+            expect(bounds(Sequence.zip(Sequence.of(1, 2), generated))).toEqual([0, 2]);
+            expect(bounds(Sequence.of(1, 2).zipLongest(filtered))).toEqual([2, 10]);
+        });
+
+        it("should apply windowing and taking to both bounds", () => {
+            const filtered = Sequence.range(0, 10).filter(x => x > 3);
+            expect(bounds(filtered.chunked(3))).toEqual([0, 4]);
+            expect(bounds(Sequence.range(0, Infinity).take(5))).toEqual([5, 5]);
+            expect(bounds(Sequence.range(0, Infinity))).toEqual([Infinity, Infinity]);
+        });
+
+        it("should become exact once a cached sequence is exhausted", () => {
+            const cached = Sequence.range(0, 10).filter(x => x > 3).cached();
+            expect(cached.size()).toBeLessThan(0);
+            cached.toArray();
+            expect(bounds(cached)).toEqual([6, 6]);
+        });
+    });
+
     describe("some", () => {
         it("should return true if there is at least one value if no predicate is given", () => {
             expect(Sequence.of(1).some()).toBe(true);
@@ -476,6 +1183,154 @@ describe("Sequence", () => {
         });
     });
 
+    describe("sorted", () => {
+        it("should sort elements by their natural order", () => {
+            expect(Sequence.of(3, 1, 10, 2).sorted().toArray()).toEqual([1, 2, 3, 10]);
+            expect(Sequence.of("b", "c", "a").sorted().toArray()).toEqual(["a", "b", "c"]);
+        });
+
+        it("should be lazy", () => {
+            const fn = jest.fn(x => x);
+            const seq = Sequence.of(3, 1, 2).map(fn).sorted();
+            expect(fn).not.toBeCalled();
+            expect(seq.first()).toBe(1);
+        });
+
+        it("should retain size information", () => {
+            expect(Sequence.of(3, 1, 2).sorted().size()).toBe(3);
+            expect(Sequence.of(3, 1, 2).filter(x => x > 1).sorted().size()).toBeLessThan(0);
+        });
+    });
+
+    describe("sortedBy", () => {
+        const people = Sequence.of({ name: "maria", age: 30 },
+                                   { name: "juan" , age: 25 },
+                                   { name: "pedro", age: 30 },
+                                   { name: "ana"  , age: 25 });
+        it("should sort elements by the selected key, keeping the order of equal keys", () => {
+            expect(people.sortedBy(p => p.age).map(p => p.name).join())
+                .toBe("juan, ana, maria, pedro");
+        });
+
+        it("should call the selector once per element", () => {
+            const fn = jest.fn(p => p.age);
+            people.sortedBy(fn).toArray();
+            expect(fn).toBeCalledTimes(4);
+        });
+    });
+
+    describe("sortedByDescending", () => {
+        it("should sort elements descending by the selected key, keeping the order of equal keys", () => {
+            const people = Sequence.of({ name: "maria", age: 30 },
+                                       { name: "juan" , age: 25 },
+                                       { name: "pedro", age: 30 });
+            expect(people.sortedByDescending(p => p.age).map(p => p.name).join())
+                .toBe("maria, pedro, juan");
+        });
+    });
+
+    describe("sortedDescending", () => {
+        it("should sort elements descending by their natural order", () => {
+            expect(Sequence.of(3, 1, 10, 2).sortedDescending().toArray()).toEqual([10, 3, 2, 1]);
+        });
+    });
+
+    describe("sortedWith", () => {
+        it("should sort elements with a comparison function", () => {
+            expect(Sequence.of(3, 1, 2).sortedWith((a, b) => b - a).toArray()).toEqual([3, 2, 1]);
+        });
+
+        it("should sort elements with a comparator", () => {
+            const seq = Sequence.of({ a: 1, b: 2 }, { a: 0, b: 1 }, { a: 1, b: 1 });
+            expect(seq.sortedWith(Comparator.compareBy(x => x.a).thenBy(x => x.b)).toArray())
+                .toEqual([{ a: 0, b: 1 }, { a: 1, b: 1 }, { a: 1, b: 2 }]);
+        });
+
+        it("should pass undefined elements to the comparator", () => {
+            expect(Sequence.of(2, undefined, 1).sortedWith(Comparator.nullsFirst()).toArray())
+                .toEqual([undefined, 1, 2]);
+        });
+    });
+
+    describe("subtract", () => {
+        const db     = Sequence.of({ id: 1, name: "maria" }, { id: 2, name: "juan" }, { id: 3, name: "pedro" });
+        const import_ = [{ id: 3, name: "pedro" }, { id: 4, name: "ana" }, { id: 1, name: "maria" }];
+
+        it("should keep the distinct elements not contained by the other iterable", () => {
+            expect(Sequence.of(1, 2, 2, 3, 4, 1).subtract([4, 2, 5]).toArray()).toEqual([1, 3]);
+            expect(db.subtract(import_, row => row.id).map(row => row.name).toArray()).toEqual(["juan"]);
+        });
+
+        it("should only index the other iterable once iterated, and then lazily filter", () => {
+            const indexed = jest.fn(x => x);
+            const seq = Sequence.generate(1, x => x + 1).subtract([1, 3], indexed);
+            expect(indexed).not.toHaveBeenCalled();
+            expect(seq.take(3).toArray()).toEqual([2, 4, 5]);
+        });
+    });
+
+    describe("sum", () => {
+        it("should add up the numbers, or return 0 if empty", () => {
+            expect(Sequence.of(1, 2, 3).sum()).toBe(6);
+            expect(Sequence.of(2n ** 64n, 1n).sum(0n)).toBe(2n ** 64n + 1n);
+            expect(Sequence.empty().sum()).toBe(0);
+        });
+
+        it("should return the provided zero for empty bigint sequences", () => {
+            expect(Sequence.range(0n, 0n).sum(0n)).toBe(0n);
+            expect(Sequence.range(0n, 0n).sum(0n) + 1n).toBe(1n);
+        });
+    });
+
+    describe("sumBy", () => {
+        it("should add up the numbers generated by the selector", () => {
+            expect(Sequence.of("a", "bb").sumBy(x => x.length)).toBe(3);
+            expect(Sequence.of("a", "bb").sumBy(x => BigInt(x.length), 0n)).toBe(3n);
+            expect(Sequence.empty().sumBy(x => BigInt(x.length), 0n)).toBe(0n);
+        });
+    });
+
+    describe("summaryStatistics", () => {
+        it("should gather every statistic in a single pass", () => {
+            const fn = jest.fn();
+            const stats = Sequence.of(2, 4, 4, 4, 5, 5, 7, 9).onClose(fn).summaryStatistics();
+            expect(stats).toEqual({ count: 8, sum: 40, min: 2, max: 9, mean: 5, variance: 4 });
+            expect(fn).toHaveBeenCalledTimes(1);
+        });
+
+        it("should keep the type of bigint sums and extremes", () => {
+            const stats = Sequence.of(1n, 2n, 3n).summaryStatistics(0n);
+            expect(stats.sum).toBe(6n);
+            expect(stats.min).toBe(1n);
+            expect(stats.mean).toBe(2);
+        });
+
+        it("should handle empty sequences", () => {
+            const stats = Sequence.empty().summaryStatistics();
+            expect(stats.count).toBe(0);
+            expect(stats.sum).toBe(0);
+            expect(stats.min).toBeUndefined();
+            expect(stats.mean).toBeNaN();
+            expect(stats.variance).toBeNaN();
+            expect(Sequence.range(0n, 0n).summaryStatistics(0n).sum).toBe(0n);
+        });
+    });
+
+    describe("symmetricDifference", () => {
+        const db     = Sequence.of({ id: 1, name: "maria" }, { id: 2, name: "juan" }, { id: 3, name: "pedro" });
+        const import_ = [{ id: 3, name: "pedro" }, { id: 4, name: "ana" }, { id: 1, name: "maria" }];
+
+        it("should keep the distinct elements contained by only one of both", () => {
+            expect(Sequence.of(1, 2, 2, 3).symmetricDifference([3, 4, 4, 1, 5]).toArray()).toEqual([2, 4, 5]);
+            expect(db.symmetricDifference(import_, row => row.id).map(row => row.name).toArray()).toEqual(["juan", "ana"]);
+        });
+
+        it("should iterate the other iterable only once", () => {
+            const other = Sequence.of(2, 3).constrainOnce();
+            expect(Sequence.of(1, 2).symmetricDifference(other).toArray()).toEqual([1, 3]);
+        });
+    });
+
     describe("take", () => {
         it("should remove all elements after the first n", () => {
             expect(Sequence.of(1, 2, 3, 4, 5).take(2).join()).toBe("1, 2");
@@ -483,6 +1338,15 @@ describe("Sequence", () => {
             expect(Sequence.generate(0, x => x + 1).take(5).join()).toBe("0, 1, 2, 3, 4");
         });
 
+        it("should not pull any element after the first n", () => {
+            const pulled = [];
+            const seq = Sequence.generate(0, x => x + 1).map(x => { pulled.push(x); return x; });
+            expect(seq.take(3).toArray()).toEqual([0, 1, 2]);
+            expect(pulled).toEqual([0, 1, 2]);
+            expect(seq.take(0).toArray()).toEqual([]);
+            expect(pulled).toEqual([0, 1, 2]);
+        });
+
         it("should retain size information", () => {
             expect(Sequence.of(1, 2, 3, 4, 5).take(2).size()).toBe(2);
             expect(Sequence.empty().take(2).size()).toBe(0);
@@ -511,6 +1375,36 @@ describe("Sequence", () => {
             expect(Sequence.of("foo", "bar", "baz").toArray())
                 .toEqual(expect.arrayContaining(["foo", "bar", "baz"]));
         });
+
+        it("should collect sized and unsized sequences alike", () => {
+            expect(Sequence.of(1, 2, 3).toArray()).toEqual([1, 2, 3]);
+            expect(Sequence.of(1, 2, 3).filter(x => x > 1).toArray()).toEqual([2, 3]);
+        });
+
+        it("should not leave holes if the source shrinks after the size was taken", () => {
+            const set = new Set([1, 2, 3]);
+            const seq = Sequence.from(set);
+            set.delete(3);
+            expect(seq.toArray()).toEqual([1, 2]);
+        });
+    });
+
+    describe("toMap", () => {
+        it("should map the entries generated by the selectors", () => {
+            expect(Sequence.of("a", "bb").toMap(x => x, x => x.length)).toEqual(new Map([["a", 1], ["bb", 2]]));
+        });
+
+        it("should merge conflicts with onConflict, or throw without it", () => {
+            const seq = Sequence.of(1, 2, 3);
+            expect(seq.toMap(x => x % 2, x => x, (a, b) => a + b)).toEqual(new Map([[1, 4], [0, 2]]));
+            expect(() => seq.toMap(x => x % 2, x => x)).toThrow(Utils.IllegalStateError);
+        });
+    });
+
+    describe("toSet", () => {
+        it("should collect the distinct elements into a set", () => {
+            expect(Sequence.of(1, 2, 2, 3).toSet()).toEqual(new Set([1, 2, 3]));
+        });
     });
 
     describe("toString", () => {
@@ -525,6 +1419,240 @@ describe("Sequence", () => {
         it("should note the size is unknown for unsized sequences", () => {
             expect(Sequence.generate(0, x => x + 1).toString()).toBe("Sequence (unknown)");
         });
+
+        it("should specify the bounds for partially sized sequences", () => {
+            const seq = Sequence.range(0, 10);
+            expect(seq.filter(x => x > 3).toString()).toBe("Sequence (≤10)");
+            expect(seq.concat(Sequence.generate(0, x => x + 1)).toString()).toBe("Sequence (≥10)");
+            expect(seq.distinct().toString()).toBe("Sequence (1..10)");
+            expect(Sequence.range(0, Infinity).toString()).toBe("Sequence (infinite)");
+        });
+    });
+
+    describe("union", () => {
+        it("should keep the distinct elements of both, in order of appearance", () => {
+            expect(Sequence.of(1, 2, 2, 3).union([3, 4, 4, 1, 5]).toArray()).toEqual([1, 2, 3, 4, 5]);
+            expect(Sequence.empty().union([1, 1]).toArray()).toEqual([1]);
+            expect(Sequence.of(1, 2).union([3]).sizeHint().toString()).toBe("1..3");
+        });
+
+        it("should compare elements by key if a selector is provided", () => {
+            const words = Sequence.of("Foo", "bar").union(["FOO", "Baz"], w => w.toLowerCase());
+            expect(words.toArray()).toEqual(["Foo", "bar", "Baz"]);
+        });
+
+        it("should not hang for infinite sequences", () => {
+            expect(Sequence.generate(1, x => x + 1).union([1]).take(3).toArray()).toEqual([1, 2, 3]);
+        });
+    });
+
+    describe("unzip", () => {
+        it("should split a sequence of pairs into two arrays", () => {
+            expect(Sequence.of([1, "a"], [2, "b"]).unzip()).toEqual([[1, 2], ["a", "b"]]);
+            expect(Sequence.empty().unzip()).toEqual([[], []]);
+        });
+    });
+
+    describe("windowed", () => {
+        it("should return sliding windows of the given size", () => {
+            expect(Sequence.range(0, 5).windowed(3).toArray()).toEqual([[0, 1, 2], [1, 2, 3], [2, 3, 4]]);
+            expect(Sequence.range(0, 2).windowed(3).toArray()).toEqual([]);
+        });
+
+        it("should start a new window every step elements", () => {
+            expect(Sequence.range(0, 7).windowed(3, 2).toArray()).toEqual([[0, 1, 2], [2, 3, 4], [4, 5, 6]]);
+            expect(Sequence.range(0, 8).windowed(2, 3).toArray()).toEqual([[0, 1], [3, 4], [6, 7]]);
+        });
+
+        it("should keep partial windows if requested", () => {
+            expect(Sequence.range(0, 5).windowed(3, 1, { partial: true }).toArray())
+                .toEqual([[0, 1, 2], [1, 2, 3], [2, 3, 4], [3, 4], [4]]);
+            expect(Sequence.range(0, 7).windowed(2, 3, { partial: true }).toArray())
+                .toEqual([[0, 1], [3, 4], [6]]);
+        });
+
+        it("should retain size information", () => {
+            const sizes = (size, step, partial) => {
+                const seq = Sequence.range(0, 10).windowed(size, step, { partial });
+                return [seq.size(), seq.count()];
+            };
+            for (const [size, step] of [[3, 1], [3, 2], [2, 3], [4, 4], [11, 1], [1, 1]]) {
+                const [withoutPartial, countWithoutPartial] = sizes(size, step, false);
+                const [withPartial, countWithPartial] = sizes(size, step, true);
+                expect(withoutPartial).toBe(countWithoutPartial);
+                expect(withPartial).toBe(countWithPartial);
+            }
+        });
+
+        it("should throw an illegalargumenterror for sizes or steps smaller than 1", () => {
+            expect(() => Sequence.of(1).windowed(0)).toThrow(Utils.IllegalArgumentError);
+            expect(() => Sequence.of(1).windowed(1, 0)).toThrow(Utils.IllegalArgumentError);
+        });
+    });
+
+    describe("withIndex", () => {
+        it("should pair every element with its index", () => {
+            const seq = Sequence.of("a", "b", "c").withIndex();
+            expect(seq.toArray()).toEqual([{ index: 0, value: "a" }, { index: 1, value: "b" }, { index: 2, value: "c" }]);
+            expect(seq.filter(({ index }) => index > 0).first()).toEqual({ index: 1, value: "b" });
+            expect(seq.size()).toBe(3);
+        });
+    });
+
+    describe("zip", () => {
+        it("should pair elements at the same index until either sequence ends", () => {
+            expect(Sequence.of(1, 2, 3).zip(Sequence.of("a", "b")).toArray())
+                .toEqual([[1, "a"], [2, "b"]]);
+            expect(Sequence.generate(0, x => x + 1).zip(Sequence.of("a", "b")).toArray())
+                .toEqual([[0, "a"], [1, "b"]]);
+        });
+
+        it("should return the size of the shortest sequence", () => {
+            expect(Sequence.of(1, 2, 3).zip(Sequence.of("a", "b")).size()).toBe(2);
+            expect(Sequence.generate(0, x => x + 1).zip(Sequence.of("a", "b")).size()).toBeLessThan(0);
+        });
+
+        it("should close the other iterator when one sequence ends", () => {
+            const fn = jest.fn();
+            const gen = Sequence.from({ *[Symbol.iterator]() { try { yield 1; yield 2; } finally { fn(); } } });
+            Sequence.of("a").zip(gen).toArray();
+            expect(fn).toBeCalledTimes(1);
+        });
+    });
+
+    describe("zipLongest", () => {
+        it("should pair elements until both sequences end, filling missing elements", () => {
+            expect(Sequence.of(1, 2, 3).zipLongest(Sequence.of("a")).toArray())
+                .toEqual([[1, "a"], [2, undefined], [3, undefined]]);
+            expect(Sequence.of(1).zipLongest(Sequence.of("a", "b"), 0, "").toArray())
+                .toEqual([[1, "a"], [0, "b"]]);
+        });
+
+        it("should only fill the side a fill is provided for", () => {
+            expect(Sequence.of(1, 2).zipLongest(Sequence.of("a", "b", "c"), 0).toArray())
+                .toEqual([[1, "a"], [2, "b"], [0, "c"]]);
+            expect(Sequence.of(1, 2, 3).zipLongest(Sequence.of("a"), 0).toArray())
+                .toEqual([[1, "a"], [2, undefined], [3, undefined]]);
+            expect(Sequence.of(1, 2, 3).zipLongest(Sequence.of("a"), undefined, "").toArray())
+                .toEqual([[1, "a"], [2, ""], [3, ""]]);
+        });
+
+        it("should return the size of the longest sequence", () => {
+            expect(Sequence.of(1, 2, 3).zipLongest(Sequence.of("a")).size()).toBe(3);
+        });
+    });
+
+    describe("zipWith", () => {
+        it("should combine elements at the same index", () => {
+            expect(Sequence.of(1, 2, 3).zipWith(Sequence.of(10, 20, 30, 40), (a, b) => a + b).toArray())
+                .toEqual([11, 22, 33]);
+            expect(Sequence.of(1, 2, 3).zipWith(Sequence.of(10, 20, 30, 40), (a, b) => a + b).size())
+                .toBe(3);
+        });
+    });
+
+    describe("dispose", () => {
+        it("should be the Symbol.dispose well-known symbol where available", () => {
+            if (Symbol.dispose) expect(Utils.dispose).toBe(Symbol.dispose);
+        });
+
+        it("should be forwarded through every stage to a disposable source", () => {
+            const dispose = jest.fn();
+            const source = { [Symbol.iterator]: () => [1, 2, 3][Symbol.iterator](), [Utils.dispose]: dispose };
+            Sequence.from(source).map(x => x * 2).filter(x => x > 2)[Utils.dispose]();
+            expect(dispose).toHaveBeenCalledTimes(1);
+            Sequence.of(1).concat(Sequence.from(source)).zip(Sequence.from(source))[Utils.dispose]();
+            expect(dispose).toHaveBeenCalledTimes(3);
+        });
+
+        it("should close the iterator behind a constrained sequence, which cannot be iterated afterwards", () => {
+            let closed = 0;
+            const iterator = { next: () => ({ value: 1, done: false }), return: () => { closed++; return { done: true }; } };
+            const seq = Sequence.from(iterator);
+            seq[Utils.dispose]();
+            expect(closed).toBe(1);
+            expect(() => seq.toArray()).toThrow(Utils.IllegalStateError);
+        });
+    });
+
+    describe("fusion", () => {
+        it("should keep the per-element order of consecutive stages", () => {
+            const log = [];
+            const seq = Sequence.of(1, 2, 3, 4)
+                .map(x => { log.push(`map ${x}`); return x * 10; })
+                .filter(x => { log.push(`filter ${x}`); return x !== 20; })
+                .drop(1)
+                .take(2);
+            expect(log).toEqual([]);
+            expect(seq.toArray()).toEqual([30, 40]);
+            expect(log).toEqual(["map 1", "filter 10", "map 2", "filter 20", "map 3", "filter 30", "map 4", "filter 40"]);
+        });
+
+        it("should leave the sequences it extends unchanged", () => {
+            const base = Sequence.of(1, 2, 3).map(x => x * 2);
+            const filtered = base.filter(x => x > 2);
+            const taken = base.takeWhile(x => x < 6);
+            expect(base.toArray()).toEqual([2, 4, 6]);
+            expect(filtered.toArray()).toEqual([4, 6]);
+            expect(taken.toArray()).toEqual([2, 4]);
+            expect(base.dropWhile(x => x < 4).toArray()).toEqual([4, 6]);
+        });
+
+        it("should pass per-stage indices to every callback", () => {
+            const seq = Sequence.of("a", "b", "c", "d")
+                .filter((_, index) => index % 2 === 0)
+                .map((item, index) => `${item}${index}`);
+            expect(seq.toArray()).toEqual(["a0", "c1"]);
+        });
+    });
+
+    describe("random access", () => {
+        const unindexed = array => Sequence.from({ [Symbol.iterator]: () => array[Symbol.iterator]() });
+
+        it("should give the same results as iterating", () => {
+            const array = [5, 3, 8, 3, 1, 9, 2];
+            const derive = seq => seq.map((x, i) => x * 10 + i).drop(1).reversed().take(4);
+            const indexed = derive(Sequence.from(array)), iterated = derive(unindexed(array));
+            expect(indexed.toArray()).toEqual(iterated.toArray());
+            expect(indexed.last()).toBe(iterated.last());
+            expect(indexed.lastIndexOf(32)).toBe(iterated.lastIndexOf(32));
+            for (const index of [-1, 0, 2, 3, 4, 1.5]) {
+                expect(indexed.elementAt(index)).toBe(iterated.elementAt(index));
+            }
+        });
+
+        it("should only compute the elements it reaches", () => {
+            const fn = jest.fn(x => x * 2);
+            const seq = Sequence.from(new Int32Array(1000)).map(fn);
+            expect(seq.drop(500).first()).toBe(0);
+            expect(seq.elementAt(999)).toBe(0);
+            expect(seq.last()).toBe(0);
+            expect(fn).toHaveBeenCalledTimes(3);
+        });
+
+        it("should see changes to the source array", () => {
+            const array = [1, 2, 3];
+            const seq = Sequence.from(array).map(x => x * 2);
+            array.push(4);
+            expect(seq.last()).toBe(8);
+            expect(seq.toArray()).toEqual([2, 4, 6, 8]);
+        });
+
+        it("should treat fractional and negative counts as the iterating path does", () => {
+            for (const n of [1.5, -1, 0, 5, Infinity]) {
+                const indexed = Sequence.of(1, 2, 3), iterated = unindexed([1, 2, 3]);
+                expect(indexed.drop(n).toArray()).toEqual(iterated.drop(n).toArray());
+                expect(indexed.take(n).toArray()).toEqual(iterated.take(n).toArray());
+                expect(indexed.drop(n).size()).toBe(iterated.drop(n).toArray().length);
+            }
+        });
+
+        it("should throw an illegalargumenterror for NaN counts on both paths", () => {
+            for (const seq of [Sequence.of(1, 2, 3), unindexed([1, 2, 3])]) {
+                expect(() => seq.take(NaN)).toThrow(Utils.IllegalArgumentError);
+                expect(() => seq.drop(NaN)).toThrow(Utils.IllegalArgumentError);
+            }
+        });
     });
 
     describe("toStringTag", () => {
@@ -0,0 +1,45 @@
+import { SizeHint } from "./dist/src/SizeHint.js";
+
+describe("SizeHint", () => {
+    const bounds = hint => [hint.lower, hint.upper];
+
+    describe("of", () => {
+        it("should create exact hints from sizes, and unknown ones from negative numbers", () => {
+            expect(bounds(SizeHint.of(3))).toEqual([3, 3]);
+            expect(SizeHint.of(-1)).toBe(SizeHint.unknown);
+        });
+    });
+
+    describe("toSize", () => {
+        it("should return the size of exact and finite hints, or less than 0 otherwise", () => {
+            expect(SizeHint.exact(0).toSize()).toBe(0);
+            expect(SizeHint.exact(4).toSize()).toBe(4);
+            expect(SizeHint.between(1, 4).toSize()).toBeLessThan(0);
+            expect(SizeHint.infinite.toSize()).toBeLessThan(0);
+        });
+    });
+
+    describe("combinators", () => {
+        it("should compute the bounds of every operation", () => {
+            const hint = SizeHint.between(2, 6);
+            expect(bounds(hint.plus(SizeHint.unknown))).toEqual([2, Infinity]);
+            expect(bounds(hint.minus(3))).toEqual([0, 3]);
+            expect(bounds(hint.atMost(4))).toEqual([2, 4]);
+            expect(bounds(hint.orFewer())).toEqual([0, 6]);
+            expect(bounds(hint.min(SizeHint.exact(4)))).toEqual([2, 4]);
+            expect(bounds(hint.max(SizeHint.exact(4)))).toEqual([4, 6]);
+            expect(bounds(hint.map(size => size * 2))).toEqual([4, 12]);
+        });
+    });
+
+    describe("toString", () => {
+        it("should describe the bounds", () => {
+            expect(SizeHint.exact(5).toString()).toBe("5");
+            expect(SizeHint.between(3, 10).toString()).toBe("3..10");
+            expect(SizeHint.between(0, 10).toString()).toBe("≤10");
+            expect(SizeHint.between(3, Infinity).toString()).toBe("≥3");
+            expect(SizeHint.unknown.toString()).toBe("unknown");
+            expect(SizeHint.infinite.toString()).toBe("infinite");
+        });
+    });
+});
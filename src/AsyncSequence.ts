@@ -1,24 +1,93 @@
-import { Utils } from "./Utils.js";
+import { Collector, Collectors, SummaryStatistics } from "./Collector.js";
+import { Comparable, Comparator, CompareFunction } from "./Comparator.js";
+import { KeyEquality, KeySet } from "./KeySet.js";
+import { Scheduler, SystemScheduler, sleep } from "./Scheduler.js";
+import { Sequence, TraversalOptions, firstVisits, traversalHint } from "./Sequence.js";
+import { SizeHint } from "./SizeHint.js";
+import { AsyncDisposable, Disposable, Utils } from "./Utils.js";
 
 // todo?: replace [a-z]*\s\|\sPromise<[a-z]*> with MaybePromise<[a-z]*>
 //     ^ 2023/12/22 edit: i've long forgotten what the hell this todo meant
 
 /**
- * An awaitable iterable. Either an `Iterable<Promise<T>>`, or an `AsyncIterable<T>`.
+ * An awaitable iterable. Either an `Iterable` of values and/or promises, or an `AsyncIterable<T>`.
  */
-export type AwaitableIterable<T> = Iterable<Promise<T>> | AsyncIterable<T>;
+export type AwaitableIterable<T> = Iterable<T | Promise<T>> | AsyncIterable<T>;
 
 /**
- * An awaitable iterator. Either an `Iterator<Promise<T>>`, or an `AsyncIterator<T>`.
+ * An awaitable iterator. Either an `Iterator` of values and/or promises, or an `AsyncIterator<T>`.
  */
-export type AwaitableIterator<T> = Iterator<Promise<T>> | AsyncIterator<T>;
+export type AwaitableIterator<T> = Iterator<T | Promise<T>> | AsyncIterator<T>;
+
+/**
+ * The subset of the `AbortSignal` interface used by {@link AsyncSequence} to cancel pipelines. Any
+ * standard `AbortSignal` fulfills it.
+ */
+export interface AbortSignalLike {
+    readonly aborted: boolean;
+    readonly reason?: unknown;
+    addEventListener(type: "abort", listener: () => void, options?: { once?: boolean }): void;
+    removeEventListener(type: "abort", listener: () => void): void;
+}
+
+/**
+ * Options for operations running several asynchronous callbacks at the same time.
+ */
+export interface ConcurrencyOptions {
+    /**
+     * The maximum amount of callbacks running at the same time. Must be at least 1.
+     */
+    concurrency: number;
+    /**
+     * Whether results are emitted in the order of the source elements (the default), or as soon
+     * as their callbacks settle.
+     */
+    ordered?: boolean;
+}
+
+/**
+ * Options for operations letting several consumers iterate the same elements.
+ */
+export interface SharingOptions {
+    /**
+     * The maximum amount of elements buffered for a consumer that has not read them yet. Once a 
+     * consumer falls that far behind, the rest wait for it before pulling new elements. Defaults
+     * to no limit.
+     */
+    maxBuffered?: number;
+}
+
+/**
+ * Options for {@link AsyncSequence.retry}.
+ */
+export interface RetryOptions {
+    /**
+     * The maximum amount of times the sequence is iterated, including the first one. Must be at
+     * least 1. Defaults to 3.
+     */
+    attempts?: number;
+    /**
+     * The milliseconds to wait before every new attempt, either fixed or computed from the amount 
+     * of attempts failed so far. Defaults to 0.
+     */
+    backoff?: number | ((attempt: number) => number);
+    /**
+     * Decides whether an error is worth a new attempt, given the amount of attempts failed so
+     * far. Every error is retried by default.
+     */
+    shouldRetry?: (error: unknown, attempt: number) => boolean | Promise<boolean>;
+    /**
+     * The scheduler measuring the backoff. Defaults to the system clock.
+     */
+    scheduler?: Scheduler;
+}
 
 /**
  * Describes a lazily computed sequence of elements that can be asynchronously iterated over,
  * allowing for composition of intermediate operations in an efficient, on-demand execution order.
  * @typeParam T The type of the values contained by this sequence.
  */
-export class AsyncSequence<T> implements AsyncIterable<T> {
+export class AsyncSequence<T> implements AsyncIterable<T>, AsyncDisposable {
     /**
      * The underlying asynchronous iterable contained by this sequence. The values are dispatched
      * through its iterator, so any type implementing the asynciterator symbol or having Promises as
@@ -26,26 +95,27 @@ export class AsyncSequence<T> implements AsyncIterable<T> {
      */
      protected readonly _values: AwaitableIterable<T>;
     /**
-     * A cached size for sequences with available size information (eg. sequences made from a
-     * sized iterable, or sequences mapped from an already sized sequence).\
+     * The size bounds of this sequence (see {@link SizeHint}). Exact for sequences made from a
+     * sized iterable, or sequences mapped from an already sized sequence.\
      * \
      * Not of much use for AsyncSequences, since most sized iterables are collections, which don't 
-     * tend to be asynchronous. Still, a couple cases like `Promise<T>[]` are sized.\
-     * Remains here mostly for API consistency. Less than 0 for non-deterministically sized 
-     * sequences, like FilteringSequences.
+     * tend to be asynchronous. Still, a couple cases like `Promise<T>[]` are sized, and operations
+     * like filtering keep an upper bound.
      */
-    protected readonly _size: number;
-    protected constructor(iterable: AwaitableIterable<T>, size?: number) {
+    protected readonly _sizeHint: SizeHint;
+    protected constructor(iterable: AwaitableIterable<T>, size?: number | SizeHint) {
         this._values = iterable;
-        if (size !== undefined) {
-            this._size = size;
+        if (size instanceof SizeHint) {
+            this._sizeHint = size;
+        } else if (size !== undefined) {
+            this._sizeHint = SizeHint.of(size);
         } else {
             if (Utils.isLenghted(iterable)) {
-                this._size = iterable.length;
+                this._sizeHint = SizeHint.exact(iterable.length);
             } else if (Utils.isSized(iterable)) {
-                this._size = iterable.size;
+                this._sizeHint = SizeHint.exact(iterable.size);
             } 
-            else this._size = -1;
+            else this._sizeHint = SizeHint.unknown;
         }
     }
 
@@ -58,15 +128,19 @@ export class AsyncSequence<T> implements AsyncIterable<T> {
     }
 
     /**
-     * Creates an asynchronous lazy sequence wrapping the provided iterable.
-     * The sequence created is sized if the provided iterable has a `length` or `size` property.\
+     * Creates an asynchronous lazy sequence wrapping the provided iterable, which may be an 
+     * asynchronous iterable, or a synchronous one containing promises and/or plain values.
+     * The sequence created is sized if the provided iterable has a `length` or `size` property, or
+     * if it is a sized {@link Sequence}.\
      * Otherwise, size is less than 0 (unknown).
      */
     public static from<T>(source: AwaitableIterable<T> | AwaitableIterator<T>): AsyncSequence<T> {
-        if (Utils.isIterator<Promise<T>>(source)) {
-            return new AsyncConstrainedSequence(source, -1);
+        if (source instanceof Sequence) {
+            return new AsyncSequence(source, source.sizeHint());
+        } else if (Utils.isIterator<Promise<T>>(source)) {
+            return new AsyncConstrainedSequence(source, SizeHint.unknown);
         } else {
-            return new AsyncSequence(source as Iterable<Promise<T>> | AsyncIterable<T>);
+            return new AsyncSequence(source as AwaitableIterable<T>);
         }
     }
 
@@ -75,7 +149,7 @@ export class AsyncSequence<T> implements AsyncIterable<T> {
      * The sequence created is sized (0).
      */
     public static empty<T>(): AsyncSequence<T> {
-        return new AsyncSequence([], 0);
+        return new AsyncSequence<T>([], 0);
     }
 
     /**
@@ -87,6 +161,278 @@ export class AsyncSequence<T> implements AsyncIterable<T> {
         return new AsyncGeneratorSequence(initial, nextValue);
     }
 
+    /**
+     * Creates an asynchronous lazy sequence whose elements are generated from a state, starting
+     * from `seed`. Follows the same rules as {@link Sequence.unfold}, but `next` may return a
+     * promise.\
+     * The sequence created is non-sized (unknown).
+     */
+    public static unfold<T, S>(seed: S, next: (state: S) => [T, S] | undefined | Promise<[T, S] | undefined>): AsyncSequence<T> {
+        return new AsyncUnfoldingSequence(seed, next);
+    }
+
+    /**
+     * Creates an asynchronous lazy sequence walking the tree rooted at `root` depth-first. Follows
+     * the same rules as {@link Sequence.depthFirst}, but `children` may return an asynchronous
+     * iterable, or a promise, which makes it suitable for crawling remote hierarchies.\
+     * The sequence created is non-sized (unknown).
+     */
+    public static depthFirst<T>(
+        root: T, 
+        children: (node: T) => AwaitableIterable<T> | Promise<AwaitableIterable<T>>, 
+        options: TraversalOptions<T> = {}
+    ): AsyncSequence<T> {
+        return new AsyncDepthFirstSequence(root, children, options);
+    }
+
+    /**
+     * Creates an asynchronous lazy sequence walking the tree rooted at `root` breadth-first. 
+     * Follows the same rules as {@link Sequence.breadthFirst}, but `children` may return an 
+     * asynchronous iterable, or a promise, which makes it suitable for crawling remote 
+     * hierarchies.\
+     * The sequence created is non-sized (unknown).
+     */
+    public static breadthFirst<T>(
+        root: T, 
+        children: (node: T) => AwaitableIterable<T> | Promise<AwaitableIterable<T>>, 
+        options: Omit<TraversalOptions<T>, "order"> = {}
+    ): AsyncSequence<T> {
+        return new AsyncBreadthFirstSequence(root, children, options);
+    }
+
+    /**
+     * Creates an asynchronous lazy sequence of numbers going from `start` (inclusive) to `end` 
+     * (exclusive), advancing by `step` on every element. Follows the same rules as 
+     * {@link Sequence.range}.\
+     * The sequence created is sized (known) for finite bounds, and its elements can be accessed by
+     * index in constant time.
+     */
+    public static range(start: number, end: number, step?: number): AsyncSequence<number>;
+    public static range(start: bigint, end: bigint, step?: bigint): AsyncSequence<bigint>;
+    public static range(start: number | bigint, end: number | bigint, step?: number | bigint): AsyncSequence<number> | AsyncSequence<bigint> {
+        return new AsyncRangeSequence(Sequence.range(start as any, end as any, step as any));
+    }
+
+    /**
+     * Creates an asynchronous lazy sequence of numbers going from `start` to `end`, both inclusive,
+     * advancing by `step` on every element. Follows the same rules as {@link Sequence.rangeClosed}.\
+     * The sequence created is sized (known) for finite bounds, and its elements can be accessed by
+     * index in constant time.
+     */
+    public static rangeClosed(start: number, end: number, step?: number): AsyncSequence<number>;
+    public static rangeClosed(start: bigint, end: bigint, step?: bigint): AsyncSequence<bigint>;
+    public static rangeClosed(start: number | bigint, end: number | bigint, step?: number | bigint): AsyncSequence<number> | AsyncSequence<bigint> {
+        return new AsyncRangeSequence(Sequence.rangeClosed(start as any, end as any, step as any));
+    }
+
+    /**
+     * Creates an asynchronous lazy sequence of tuples, where the tuple at index `i` contains the
+     * elements at index `i` of every provided sequence. All sequences are awaited concurrently,
+     * and the sequence created ends as soon as any of the provided sequences does.\
+     * The sequence created is sized if and only if all the provided sequences are, in which case
+     * its size is the one of the shortest sequence.
+     */
+    public static zip<S extends unknown[]>(...sequences: { [K in keyof S]: AsyncSequence<S[K]> }): AsyncSequence<S> {
+        return new AsyncZipSequence(sequences as AsyncSequence<any>[], values => values as S);
+    }
+
+    /**
+     * Calls the asynchronous `body` with the resource created by `resource`, and disposes of that
+     * resource once `body` settles, just like an `await using` declaration would. Resources are
+     * disposed of asynchronously if they support it, or synchronously otherwise. Meant for
+     * runtimes that do not support the syntax yet. Any sequence returned by `body` should be 
+     * consumed within it, as its resources are released as soon as it settles.
+     */
+    public static async using<R extends Disposable | AsyncDisposable, U>(
+        resource: () => R | Promise<R>, 
+        body: (resource: R) => U | Promise<U>
+    ): Promise<U> {
+        const value = await resource();
+        try {
+            return await body(value);
+        } finally {
+            if (Utils.isAsyncDisposable(value)) await value[Utils.asyncDispose]();
+            else (value as Disposable)[Utils.dispose]();
+        }
+    }
+
+    /**
+     * Creates an asynchronous lazy sequence of tuples containing the latest element of every
+     * provided sequence. All sequences are awaited concurrently, and a new tuple is emitted every 
+     * time any of them produces an element, once all of them have produced at least one. The 
+     * sequence created ends when all the provided sequences do, or as soon as one of them ends
+     * without producing any element. If any of the sequences throws, or the consumer stops early,
+     * every sequence is closed.\
+     * The sequence created is non-sized.
+     */
+    public static combineLatest<S extends unknown[]>(...sequences: { [K in keyof S]: AsyncSequence<S[K]> }): AsyncSequence<S> {
+        return new AsyncCombineLatestSequence(sequences as AsyncSequence<any>[]);
+    }
+
+    /**
+     * Creates an asynchronous lazy sequence containing the elements of every provided sequence, in
+     * the order they arrive. All sequences are awaited concurrently, and the sequence created ends
+     * when all of them do. If any of the sequences throws, or the consumer stops early, every
+     * sequence is closed.\
+     * The sequence created is sized if and only if all the provided sequences are, in which case
+     * its size is the sum of their sizes.
+     */
+    public static merge<T>(...sequences: AsyncSequence<T>[]): AsyncSequence<T> {
+        return new AsyncMergeSequence(sequences, false);
+    }
+
+    /**
+     * Creates an asynchronous lazy sequence following whichever of the provided sequences produces
+     * an element first. All sequences are awaited concurrently until then, at which point the rest
+     * of them are closed. Sequences ending before producing any element are left out of the race.
+     * If any of the sequences throws, or the consumer stops early, every sequence is closed.\
+     * The sequence created is non-sized.
+     */
+    public static race<T>(...sequences: AsyncSequence<T>[]): AsyncSequence<T> {
+        return new AsyncMergeSequence(sequences, true);
+    }
+
+    /**
+     * Returns a new {@link AsyncSequence} splitting this sequence into arrays of `size` elements. 
+     * The last chunk may be smaller than `size` if there are not enough elements left. If an
+     * asynchronous transform is provided, every chunk is mapped through it. A size smaller than 1
+     * throws an {@link Utils.IllegalArgumentError}. This operation is intermediate and stateful.\
+     * \
+     * The sequence created retains size information.
+     */
+    public chunked(size: number): AsyncSequence<T[]>;
+    public chunked<R>(size: number, transform: (chunk: T[]) => R | Promise<R>): AsyncSequence<R>;
+    public chunked<R>(size: number, transform?: (chunk: T[]) => R | Promise<R>): AsyncSequence<T[]> | AsyncSequence<R> {
+        return new AsyncWindowingSequence<T, T[] | R>(this, size, size, true, transform ?? (chunk => chunk)) as AsyncSequence<R>;
+    }
+
+    /**
+     * Returns a new {@link AsyncSequence} splitting this sequence into arrays of at most `size`
+     * elements. A chunk is emitted as soon as it is full, or once `ms` milliseconds have passed 
+     * since its first element arrived, whichever comes first, so slow sources never hold a batch
+     * back indefinitely. If an asynchronous transform is provided, every chunk is mapped through 
+     * it. Time is measured by the provided {@link Scheduler}, or the system clock by default. A 
+     * size smaller than 1 throws an {@link Utils.IllegalArgumentError}.
+     * This operation is intermediate and stateful.\
+     * \
+     * The sequence created is non-sized.
+     */
+    public chunkedWithin(size: number, ms: number, scheduler?: Scheduler): AsyncSequence<T[]>;
+    public chunkedWithin<R>(size: number, ms: number, transform: (chunk: T[]) => R | Promise<R>, scheduler?: Scheduler): AsyncSequence<R>;
+    public chunkedWithin<R>(
+        size: number, 
+        ms: number, 
+        transformOrScheduler?: ((chunk: T[]) => R | Promise<R>) | Scheduler, 
+        scheduler?: Scheduler
+    ): AsyncSequence<T[]> | AsyncSequence<R> {
+        if (typeof transformOrScheduler === "function") {
+            return new AsyncTimedChunkingSequence(this, size, ms, transformOrScheduler, scheduler ?? SystemScheduler.instance);
+        }
+        return new AsyncTimedChunkingSequence(this, size, ms, chunk => chunk, transformOrScheduler ?? SystemScheduler.instance);
+    }
+
+    /**
+     * Returns a new {@link AsyncSequence} that stops as soon as `signal` is aborted. Once aborted,
+     * pending and future pulls reject with the signal's reason (or an {@link Utils.AbortError} if
+     * it has none), and the upstream iterator is closed without waiting for any pending element.
+     * This operation is intermediate and stateless.\
+     * \
+     * The sequence created retains size information.
+     */
+    public abortable(signal: AbortSignalLike): AsyncSequence<T> {
+        return new AsyncAbortableSequence(this, signal);
+    }
+
+    /**
+     * Returns a promise resolving to a map containing the key-value pairs generated by `transform`
+     * for every element of this sequence. If two elements generate the same key, the last one is 
+     * kept. This is a terminal operation.
+     */
+    public async associate<K, V>(transform: (item: T) => [K, V], signal?: AbortSignalLike): Promise<Map<K, V>> {
+        return this.collect(Collectors.associate(transform), signal);
+    }
+
+    /**
+     * Returns a promise resolving to a map containing the elements of this sequence, keyed by the
+     * key generated by `selector`. If a `transform` is provided, the values are mapped through it.
+     * If two elements generate the same key, the last one is kept. This is a terminal operation.
+     */
+    public async associateBy<K>(selector: (item: T) => K, signal?: AbortSignalLike): Promise<Map<K, T>>;
+    public async associateBy<K, V>(selector: (item: T) => K, transform: (item: T) => V, signal?: AbortSignalLike): Promise<Map<K, V>>;
+    public async associateBy<K, V>(
+        selector: (item: T) => K, 
+        transformOrSignal?: ((item: T) => V) | AbortSignalLike, 
+        signal?: AbortSignalLike
+    ): Promise<Map<K, V>> {
+        if (typeof transformOrSignal === "function") {
+            return this.collect(Collectors.associateBy(selector, transformOrSignal), signal);
+        }
+        return this.collect(Collectors.associateBy(selector, item => item as any), transformOrSignal);
+    }
+
+    /**
+     * Returns a promise resolving to a map where every element of this sequence is the key to the
+     * value generated by `selector`. If an element is repeated, the last value is kept. 
+     * This is a terminal operation.
+     */
+    public async associateWith<V>(selector: (item: T) => V, signal?: AbortSignalLike): Promise<Map<T, V>> {
+        return this.collect(Collectors.associateWith(selector), signal);
+    }
+
+    /**
+     * Returns a promise resolving to the arithmetic mean of the numbers in this sequence, or NaN if
+     * it's empty. Bigints are added up exactly, and only the result is converted to a number. 
+     * This is a terminal operation.
+     */
+    public async average(this: AsyncSequence<number> | AsyncSequence<bigint>, signal?: AbortSignalLike): Promise<number> {
+        return (this as AsyncSequence<any>).collect(Collectors.averaging(), signal);
+    }
+
+    /**
+     * Returns a new {@link AsyncSequence} storing the elements of this sequence as they are 
+     * produced for the first time, so that later and simultaneous iterations replay them instead
+     * of computing them again, pulling from this sequence only past the stored ones. Simultaneous
+     * iterations share every pull. This makes sequences made from iterators iterable more than
+     * once, and if this sequence throws, the error is thrown again by every iteration reaching
+     * that point. Once disposed of, this sequence is not pulled from anymore, and iterations end
+     * after replaying the stored elements. This operation is intermediate and stateful.\
+     * \
+     * The sequence created retains size information, and reports its exact size once this 
+     * sequence is exhausted or the sequence created is disposed of.
+     */
+    public cached(): AsyncSequence<T> {
+        return new AsyncCachingSequence(this);
+    }
+
+    /**
+     * Returns a new {@link AsyncSequence} that, if this sequence throws, continues with the 
+     * fallback sequence returned by `handler` for the error thrown instead. Elements emitted before
+     * the error are kept. This operation is intermediate and stateless.\
+     * \
+     * The sequence created is non-sized.
+     */
+    public catchError(handler: (error: unknown) => AwaitableIterable<T> | Promise<AwaitableIterable<T>>): AsyncSequence<T> {
+        return new AsyncCatchingSequence(this, handler);
+    }
+
+    /**
+     * Returns a promise resolving to a {@link Sequence} containing the elements of this sequence,
+     * gathered eagerly. The sequence created is sized. If a collector is provided, the promise 
+     * resolves to the result of gathering the elements through it instead (see 
+     * {@link Collectors} for the available ones). This is a terminal operation.
+     */
+    public async collect(signal?: AbortSignalLike): Promise<Sequence<T>>;
+    public async collect<A, R>(collector: Collector<T, A, R>, signal?: AbortSignalLike): Promise<R>;
+    public async collect<A, R>(collectorOrSignal?: Collector<T, A, R> | AbortSignalLike, signal?: AbortSignalLike): Promise<Sequence<T> | R> {
+        if (!Collectors.isCollector(collectorOrSignal)) {
+            return Sequence.from(await this.toArray(collectorOrSignal as AbortSignalLike | undefined));
+        }
+        const collector = collectorOrSignal as Collector<T, A, R>;
+        const container = await this.fold(collector.supply(), 
+            (container, item) => collector.accumulate(container, item), signal);
+        return collector.finish(container);
+    }
+
     /**
      * Returns a new {@link AsyncSequence} containing the values of this sequence and the one
      * provided as an argument. This operation is intermediate and stateless.\
@@ -102,8 +448,8 @@ export class AsyncSequence<T> implements AsyncIterable<T> {
      * Returns a promise resolving to true if `value` is identical to one contained by this sequence.
      * This is a short-circuiting terminal operation.
      */
-    public async contains(value: T): Promise<boolean> {
-        for await (const item of this) {
+    public async contains(value: T, signal?: AbortSignalLike): Promise<boolean> {
+        for await (const item of this.orAbortable(signal)) {
             if (item === value) {
                 return true;
             }
@@ -113,15 +459,23 @@ export class AsyncSequence<T> implements AsyncIterable<T> {
 
     /**
      * Returns a promise resolving to true if all the values in `values` are contained by this 
-     * sequence. This is a short-circuiting terminal operation.
+     * sequence. Values are compared with `===`, as {@link contains} does, and this sequence is 
+     * iterated at most once. This is a short-circuiting terminal operation.
      */
-    public async containsAll(values: Iterable<T>): Promise<boolean> {
-        for await (const value of values) {
-            if (!this.contains(value)) {
-                return false;
+    public async containsAll(values: Iterable<T>, signal?: AbortSignalLike): Promise<boolean> {
+        const missing = new Set<T>();
+        for (const value of values) {
+            // NaN is never contained according to ===, though a Set would find it.
+            if (value !== value) return false;
+            missing.add(value);
+        }
+        if (missing.size === 0) return true;
+        for await (const item of this.orAbortable(signal)) {
+            if (missing.delete(item) && missing.size === 0) {
+                return true;
             }
         }
-        return true;
+        return false;
     }
 
     /**
@@ -130,12 +484,12 @@ export class AsyncSequence<T> implements AsyncIterable<T> {
      * sequence. This is a terminal operation.
      */
     public async count(): Promise<number>;
-    public async count(predicate: (item: T) => boolean | Promise<boolean>): Promise<number>;
-    public async count(predicate: (item: T, index?: number) => boolean | Promise<boolean>): Promise<number>;
-    public async count(predicate: (item: T, index: number) => boolean | Promise<boolean> = _ => Promise.resolve(true)): Promise<number> {
+    public async count(predicate?: (item: T) => boolean | Promise<boolean>, signal?: AbortSignalLike): Promise<number>;
+    public async count(predicate?: (item: T, index?: number) => boolean | Promise<boolean>, signal?: AbortSignalLike): Promise<number>;
+    public async count(predicate: (item: T, index: number) => boolean | Promise<boolean> = _ => Promise.resolve(true), signal?: AbortSignalLike): Promise<number> {
         let index = 0;
         let count = 0;
-        for await (const item of this) {
+        for await (const item of this.orAbortable(signal)) {
             if (await predicate(item, index++)) {
                 count++;
             }
@@ -144,13 +498,76 @@ export class AsyncSequence<T> implements AsyncIterable<T> {
     }
 
     /**
-     * Returns a new {@link AsyncSequence} skipping the first `n` elements.
+     * Returns a new {@link AsyncSequence} that must be fully consumed within `ms` milliseconds of
+     * its first pull. Once that time has passed, the pending pull rejects with a
+     * {@link Utils.TimeoutError} and the upstream iterator is closed without waiting for it. Time is
+     * measured by the provided {@link Scheduler}, or the system clock by default.
+     * This operation is intermediate and stateless.\
+     * \
+     * The sequence created retains size information.
+     */
+    public deadline(ms: number, scheduler: Scheduler = SystemScheduler.instance): AsyncSequence<T> {
+        return new AsyncTimeoutSequence(this, ms, true, scheduler);
+    }
+
+    /**
+     * Returns a new {@link AsyncSequence} that only emits an element once `ms` milliseconds have
+     * passed without this sequence producing another one, so bursts of elements collapse into
+     * their last one. The pending element is emitted right away when this sequence ends. Time is
+     * measured by the provided {@link Scheduler}, or the system clock by default.
      * This operation is intermediate and stateful.\
      * \
+     * The sequence created is non-sized.
+     */
+    public debounce(ms: number, scheduler: Scheduler = SystemScheduler.instance): AsyncSequence<T> {
+        return new AsyncDebounceSequence(this, ms, scheduler);
+    }
+
+    /**
+     * Returns a new {@link AsyncSequence} that holds every element for `ms` milliseconds after it
+     * is produced by this sequence before emitting it. Time is measured by the provided 
+     * {@link Scheduler}, or the system clock by default. This operation is intermediate and
+     * stateless.\
+     * \
+     * The sequence created retains size information.
+     */
+    public delay(ms: number, scheduler: Scheduler = SystemScheduler.instance): AsyncSequence<T> {
+        return new AsyncDelaySequence(this, ms, scheduler);
+    }
+
+    /**
+     * Returns a new {@link AsyncSequence} containing only the first occurrence of every element in
+     * this sequence. Elements are compared as a {@link Set} would, unless a custom `equals` and/or
+     * `hash` function is provided. This operation is intermediate and stateful, but it yields 
+     * elements as soon as they are found, so it does not hang for infinite sequences.\
+     * \
+     * The sequence created is non-sized.
+     */
+    public distinct(equality?: KeyEquality<T>): AsyncSequence<T> {
+        return new AsyncDistinctSequence(this, item => item, equality);
+    }
+
+    /**
+     * Returns a new {@link AsyncSequence} containing only the first element of this sequence for 
+     * every distinct key generated by the asynchronous `selector`. Keys are compared as a 
+     * {@link Set} would, unless a custom `equals` and/or `hash` function is provided. This 
+     * operation is intermediate and stateful, but it yields elements as soon as they are found, so
+     * it does not hang for infinite sequences.\
+     * \
+     * The sequence created is non-sized.
+     */
+    public distinctBy<K>(selector: (item: T) => K | Promise<K>, equality?: KeyEquality<K>): AsyncSequence<T> {
+        return new AsyncDistinctSequence(this, selector, equality);
+    }
+
+    /**
+     * Returns a new {@link AsyncSequence} skipping the first `n` elements. A NaN count throws an
+     * {@link Utils.IllegalArgumentError}. This operation is intermediate and stateful.\
+     * \
      * The sequence created retains size information.
      */
     public drop(n: number): AsyncSequence<T> {
-        return new AsyncDropSequence(this, n);
+        return new AsyncFusedSequence(this, dropStage(n));
     }
 
     /**
@@ -163,7 +580,7 @@ export class AsyncSequence<T> implements AsyncIterable<T> {
     public dropWhile(predicate: (item: T) => boolean | Promise<boolean>): AsyncSequence<T>;
     public dropWhile(predicate: (item: T, index?: number) => boolean | Promise<boolean>): AsyncSequence<T>;
     public dropWhile(predicate: (item: T, index?: number) => boolean | Promise<boolean>): AsyncSequence<T> {
-        return new AsyncDropWhileSequence(this, predicate);
+        return new AsyncFusedSequence(this, dropWhileStage(predicate));
     }
 
     /**
@@ -171,10 +588,10 @@ export class AsyncSequence<T> implements AsyncIterable<T> {
      * bounds. Since {@link AsyncSequence}s are not a Random Access collection, this operation is 
      * O(n). This is a short-circuiting terminal operation.
      */
-    public async elementAt(index: number): Promise<T | undefined> {
+    public async elementAt(index: number, signal?: AbortSignalLike): Promise<T | undefined> {
         if (index < 0) return undefined;
         let count = 0;
-        for await (const item of this) {
+        for await (const item of this.orAbortable(signal)) {
             if (index === count++) return item;
         }
         return undefined;
@@ -184,11 +601,11 @@ export class AsyncSequence<T> implements AsyncIterable<T> {
      * Returns a promise resolving to true if all elements in this sequence fulfill the given 
      * asynchronous predicate. This is a short-circuiting terminal operation.
      */
-    public async every(predicate: (item: T) => boolean | Promise<boolean>): Promise<boolean>;
-    public async every(predicate: (item: T, index?: number) => boolean | Promise<boolean>): Promise<boolean>;
-    public async every(predicate: (item: T, index?: number) => boolean | Promise<boolean>): Promise<boolean> {
+    public async every(predicate: (item: T) => boolean | Promise<boolean>, signal?: AbortSignalLike): Promise<boolean>;
+    public async every(predicate: (item: T, index?: number) => boolean | Promise<boolean>, signal?: AbortSignalLike): Promise<boolean>;
+    public async every(predicate: (item: T, index?: number) => boolean | Promise<boolean>, signal?: AbortSignalLike): Promise<boolean> {
         let index = 0;
-        for await (const item of this) {
+        for await (const item of this.orAbortable(signal)) {
             if (!(await predicate(item, index++))) return false;
         }
         return true;
@@ -206,18 +623,56 @@ export class AsyncSequence<T> implements AsyncIterable<T> {
     public filter<S extends T>(predicate: (item: T) => boolean | Promise<boolean>): AsyncSequence<S>;
     public filter<S extends T>(predicate: (item: T, index?: number) => boolean | Promise<boolean>): AsyncSequence<S>;
     public filter<S extends T>(predicate: (item: T, index?: number) => boolean | Promise<boolean>): AsyncSequence<T> | AsyncSequence<S> {
-        return new AsyncFilteringSequence(this, predicate);
+        return new AsyncFusedSequence(this, filterStage(predicate));
+    }
+
+    /**
+     * Returns a new {@link AsyncSequence} keeping the elements in this sequence that fulfill the
+     * given asynchronous predicate, evaluating up to `concurrency` predicates at the same time. 
+     * Elements are emitted in source order, unless `ordered` is false, in which case they are
+     * emitted as soon as their predicate settles. Upstream is not pulled while `concurrency`
+     * elements are pending. This operation is intermediate and stateless.\
+     * \
+     * The sequence created is non-sized.
+     */
+    public filterConcurrent(predicate: (item: T) => boolean | Promise<boolean>, options: ConcurrencyOptions): AsyncSequence<T>;
+    public filterConcurrent(predicate: (item: T, index?: number) => boolean | Promise<boolean>, options: ConcurrencyOptions): AsyncSequence<T>;
+    public filterConcurrent(predicate: (item: T, index?: number) => boolean | Promise<boolean>, options: ConcurrencyOptions): AsyncSequence<T> {
+        return new AsyncConcurrentMapSequence<T, T>(this, 
+            async (item, index) => await predicate(item, index) ? item : skipped, options, this.sizeHint().orFewer());
+    }
+
+    /**
+     * Returns a new {@link AsyncSequence} keeping the elements in this sequence that are instances
+     * of `type`, according to `instanceof`.
+     * This operation is intermediate and stateless.\
+     * \
+     * The sequence created is non-sized.
+     */
+    public filterIsInstance<R>(type: abstract new (...args: any[]) => R): AsyncSequence<R> {
+        return new AsyncFusedSequence(this, filterStage(item => item instanceof type));
+    }
+
+    /**
+     * Returns a new {@link AsyncSequence} keeping the elements in this sequence that are neither 
+     * `null` nor `undefined`.
+     * This operation is intermediate and stateless.\
+     * \
+     * The sequence created is non-sized.
+     */
+    public filterNotNull(): AsyncSequence<NonNullable<T>> {
+        return new AsyncFusedSequence(this, filterStage(item => item != null));
     }
 
     /**
      * Returns a promise resolving to the first item fulfilling an asynchronous predicate, or to 
      * undefined if none does. This is a short-circuiting terminal operation.
      */
-    public async find(predicate: (item: T) => boolean | Promise<boolean>): Promise<T | undefined>;
-    public async find(predicate: (item: T, index?: number) => boolean | Promise<boolean>): Promise<T | undefined>;
-    public async find(predicate: (item: T, index?: number) => boolean | Promise<boolean>): Promise<T | undefined> {
+    public async find(predicate: (item: T) => boolean | Promise<boolean>, signal?: AbortSignalLike): Promise<T | undefined>;
+    public async find(predicate: (item: T, index?: number) => boolean | Promise<boolean>, signal?: AbortSignalLike): Promise<T | undefined>;
+    public async find(predicate: (item: T, index?: number) => boolean | Promise<boolean>, signal?: AbortSignalLike): Promise<T | undefined> {
         let index = 0;
-        for await (const item of this) {
+        for await (const item of this.orAbortable(signal)) {
             if (await predicate(item, index++)) return item;
         }
         return undefined;
@@ -227,9 +682,9 @@ export class AsyncSequence<T> implements AsyncIterable<T> {
      * Returns a promise resolving to the index of the first item fulfilling an asynchronous 
      * predicate, or to -1 if none does. This is a short-circuiting terminal operation.
      */
-    public async findIndex(predicate: (item: T) => boolean | Promise<boolean>): Promise<number> {
+    public async findIndex(predicate: (item: T) => boolean | Promise<boolean>, signal?: AbortSignalLike): Promise<number> {
         let index = 0;
-        for await (const item of this) {
+        for await (const item of this.orAbortable(signal)) {
             if (predicate(item)) return index;
             index++;
         }
@@ -240,12 +695,12 @@ export class AsyncSequence<T> implements AsyncIterable<T> {
      * Returns a promise resolving to the last item fulfilling an asynchronous predicate, or to
      * undefined if none does. This is a terminal operation.
      */
-    public async findLast(predicate: (item: T) => boolean | Promise<boolean>): Promise<T | undefined>;
-    public async findLast(predicate: (item: T, index?: number) => boolean | Promise<boolean>): Promise<T | undefined>;
-    public async findLast(predicate: (item: T, index?: number) => boolean | Promise<boolean>): Promise<T | undefined> {
+    public async findLast(predicate: (item: T) => boolean | Promise<boolean>, signal?: AbortSignalLike): Promise<T | undefined>;
+    public async findLast(predicate: (item: T, index?: number) => boolean | Promise<boolean>, signal?: AbortSignalLike): Promise<T | undefined>;
+    public async findLast(predicate: (item: T, index?: number) => boolean | Promise<boolean>, signal?: AbortSignalLike): Promise<T | undefined> {
         let index = 0;
         let result: T | undefined;
-        for await (const item of this) {
+        for await (const item of this.orAbortable(signal)) {
             if (await predicate(item, index++)) result = item;
         }
         return result;
@@ -255,10 +710,10 @@ export class AsyncSequence<T> implements AsyncIterable<T> {
      * Returns a promise resolving to the index of the last item fulfilling an asynchronous 
      * predicate, or to -1 if none does. This is a terminal operation.
      */
-    public async findLastIndex(predicate: (item: T) => boolean | Promise<boolean>): Promise<number> {
+    public async findLastIndex(predicate: (item: T) => boolean | Promise<boolean>, signal?: AbortSignalLike): Promise<number> {
         let result = -1;
         let current = 0;
-        for await (const item of this) {
+        for await (const item of this.orAbortable(signal)) {
             if (await predicate(item)) result = current;
             current++;
         }
@@ -270,30 +725,32 @@ export class AsyncSequence<T> implements AsyncIterable<T> {
      * empty. This is a short-circuiting terminal operation and it does not hang for infinite 
      * sequences.
      */
-    public async first(): Promise<T | undefined> {
-        for await (const item of this) return item;
+    public async first(signal?: AbortSignalLike): Promise<T | undefined> {
+        for await (const item of this.orAbortable(signal)) return item;
         return undefined;
     }
 
     /**
      * Returns a new {@link AsyncSequence} flattening every inner sequence of this collection by one
-     * level. This operation is intermediate and stateless.\
+     * level. Inner sequences may be either {@link AsyncSequence}s or {@link Sequence}s.
+     * This operation is intermediate and stateless.\
      * \
      * The sequence created is non-sized.
      */
-    public flatten<T>(this: AsyncSequence<AsyncSequence<T>>): AsyncSequence<T> {
+    public flatten<T>(this: AsyncSequence<AsyncSequence<T> | Sequence<T>>): AsyncSequence<T> {
         return new AsyncFlatteningSequence(this);
     }
 
     /**
      * Returns a new {@link AsyncSequence} flattening every sequence generated by the asynchronous
-     * transformator function by one level. This operation is intermediate and stateless.\
+     * transformator function by one level. The transformator may return either 
+     * {@link AsyncSequence}s or {@link Sequence}s. This operation is intermediate and stateless.\
      * \
      * The sequence created is non-sized.
      */
-    public flatMap<U>(transform: (item: T) => AsyncSequence<U> | Promise<AsyncSequence<U>>): AsyncSequence<U>;
-    public flatMap<U>(transform: (item: T, index?: number) => AsyncSequence<U> | Promise<AsyncSequence<U>>): AsyncSequence<U>;
-    public flatMap<U>(transform: (item: T, index?: number) => AsyncSequence<U> | Promise<AsyncSequence<U>>): AsyncSequence<U> {
+    public flatMap<U>(transform: (item: T) => AsyncSequence<U> | Sequence<U> | Promise<AsyncSequence<U> | Sequence<U>>): AsyncSequence<U>;
+    public flatMap<U>(transform: (item: T, index?: number) => AsyncSequence<U> | Sequence<U> | Promise<AsyncSequence<U> | Sequence<U>>): AsyncSequence<U>;
+    public flatMap<U>(transform: (item: T, index?: number) => AsyncSequence<U> | Sequence<U> | Promise<AsyncSequence<U> | Sequence<U>>): AsyncSequence<U> {
         return new AsyncFlatmappingSequence(this, transform);
     }
 
@@ -302,12 +759,12 @@ export class AsyncSequence<T> implements AsyncIterable<T> {
      * operation on an initial value and the current value for every item of this sequence. 
      * This is a terminal operation. 
      */
-    public async fold<R>(initial: R, operation: (accumulator: R, current: T) => R | Promise<R>): Promise<R>;
-    public async fold<R>(initial: R, operation: (accumulator: R, current: T, index?: number) => R | Promise<R>): Promise<R>;
-    public async fold<R>(initial: R, operation: (accumulator: R, current: T, index?: number) => R | Promise<R>): Promise<R> {
+    public async fold<R>(initial: R, operation: (accumulator: R, current: T) => R | Promise<R>, signal?: AbortSignalLike): Promise<R>;
+    public async fold<R>(initial: R, operation: (accumulator: R, current: T, index?: number) => R | Promise<R>, signal?: AbortSignalLike): Promise<R>;
+    public async fold<R>(initial: R, operation: (accumulator: R, current: T, index?: number) => R | Promise<R>, signal?: AbortSignalLike): Promise<R> {
         let index = 0;
         let result = initial;
-        for await (const item of this) {
+        for await (const item of this.orAbortable(signal)) {
             result = await operation(result, item, index++);
         }
         return result;
@@ -317,19 +774,52 @@ export class AsyncSequence<T> implements AsyncIterable<T> {
      * Returns an empty promise performing an asynchronous operation on every item of this sequence.
      * This is a terminal operation.
      */
-    public async forEach(action: (item: T) => void | Promise<void>): Promise<void>;
-    public async forEach(action: (item: T, index?: number) => void | Promise<void>): Promise<void>;
-    public async forEach(action: (item: T, index?: number) => void | Promise<void>): Promise<void> {
+    public async forEach(action: (item: T) => void | Promise<void>, signal?: AbortSignalLike): Promise<void>;
+    public async forEach(action: (item: T, index?: number) => void | Promise<void>, signal?: AbortSignalLike): Promise<void>;
+    public async forEach(action: (item: T, index?: number) => void | Promise<void>, signal?: AbortSignalLike): Promise<void> {
         let index = 0;
-        for await (const item of this) {
+        for await (const item of this.orAbortable(signal)) {
             await action(item, index++);
         }
     }
 
+    /**
+     * Returns an empty promise performing an asynchronous operation on every item of this sequence,
+     * running up to `concurrency` operations at the same time. The promise rejects as soon as one
+     * of the operations does. This is a terminal operation.
+     */
+    public async forEachConcurrent(action: (item: T) => void | Promise<void>, options: ConcurrencyOptions, signal?: AbortSignalLike): Promise<void>;
+    public async forEachConcurrent(action: (item: T, index?: number) => void | Promise<void>, options: ConcurrencyOptions, signal?: AbortSignalLike): Promise<void>;
+    public async forEachConcurrent(action: (item: T, index?: number) => void | Promise<void>, options: ConcurrencyOptions, signal?: AbortSignalLike): Promise<void> {
+        const running = new AsyncConcurrentMapSequence<T, void>(this, action, { ...options, ordered: false }, SizeHint.unknown);
+        for await (const _ of running.orAbortable(signal));
+    }
+
+    /**
+     * Returns a new {@link AsyncSequence} combining every element of this sequence with every
+     * element of `inner` sharing its key, as {@link innerJoin} does. Elements of this sequence
+     * without matches are combined with `undefined`, and so are the elements of `inner` without
+     * matches, which follow the rest grouped by key. Keys are compared as a {@link Map} would.
+     * `inner` is indexed as soon as the first element is requested, so it must be finite.
+     * This operation is intermediate and stateful.\
+     * \
+     * The sequence created is non-sized.
+     */
+    public fullOuterJoin<I, K, R>(
+        inner: AwaitableIterable<I>,
+        outerKey: (item: T) => K | Promise<K>,
+        innerKey: (item: I) => K | Promise<K>,
+        combine: (outer: T | undefined, inner: I | undefined) => R | Promise<R>
+    ): AsyncSequence<R> {
+        return new AsyncJoiningSequence(this, AsyncSequence.from(inner), outerKey, innerKey, combine, true, true);
+    }
+
     /**
      * Groups items in this sequence into a map promise by a key generated by the selector provided.
      * All items that generate the same key (according to {@link Map.has()} equality) will end up
-     * in the same bucket. This is a terminal operation.\
+     * in the same bucket. If a downstream collector is provided, every bucket is gathered through
+     * it instead of into an array (eg. `groupBy(selector, Collectors.counting())`).
+     * This is a terminal operation.\
      * \
      * Note: TinyLazySeq is opinionated about grouping algorithms and does not provide a "group to
      * object" equivalent (this method is equivalent to {@link Map.groupBy()}, and AsyncSequence 
@@ -337,37 +827,100 @@ export class AsyncSequence<T> implements AsyncIterable<T> {
      * usage of objects as maps, as frequent dynamic addition of keys degrades property access 
      * performance.
      */
-    public async groupBy<K>(selector: (item: T) => K): Promise<Map<K, T[]>> {
-        return await this.fold(new Map<K, T[]>(), (map, item) => {
-            const key = selector(item);
-            if (map.has(key)) {
-                map.get(key)!.push(item);
-            } else {
-                map.set(key, [])
-            }
-            return map;
-        })
+    public async groupBy<K>(selector: (item: T) => K, signal?: AbortSignalLike): Promise<Map<K, T[]>>;
+    public async groupBy<K, R>(selector: (item: T) => K, downstream: Collector<T, any, R>, signal?: AbortSignalLike): Promise<Map<K, R>>;
+    public async groupBy<K, R>(
+        selector: (item: T) => K, 
+        downstreamOrSignal?: Collector<T, any, R> | AbortSignalLike, 
+        signal?: AbortSignalLike
+    ): Promise<Map<K, T[] | R>> {
+        if (Collectors.isCollector(downstreamOrSignal)) {
+            return this.collect(Collectors.groupingBy(selector, downstreamOrSignal as Collector<T, any, R>), signal);
+        }
+        return this.collect(Collectors.groupingBy(selector), downstreamOrSignal as AbortSignalLike | undefined);
+    }
+
+    /**
+     * Returns a new {@link AsyncSequence} combining every element of this sequence with the array
+     * of elements of `inner` sharing its key, which is empty if there are none. Keys are compared
+     * as a {@link Map} would. `inner` is indexed as soon as the first element is requested, so it
+     * must be finite. This operation is intermediate and stateful.\
+     * \
+     * The sequence created retains size information.
+     */
+    public groupJoin<I, K, R>(
+        inner: AwaitableIterable<I>,
+        outerKey: (item: T) => K | Promise<K>,
+        innerKey: (item: I) => K | Promise<K>,
+        combine: (outer: T, inners: I[]) => R | Promise<R>
+    ): AsyncSequence<R> {
+        return new AsyncGroupJoiningSequence(this, AsyncSequence.from(inner), outerKey, innerKey, combine);
+    }
+
+    /**
+     * Returns a new {@link AsyncSequence} containing the elements of this sequence, or the ones of
+     * the iterable returned by `fallback` if this sequence turns out to be empty. `fallback` is 
+     * only called in that case. This operation is intermediate and stateless.\
+     * \
+     * The sequence created retains size information if this sequence is known to be non-empty.
+     */
+    public ifEmpty(fallback: () => AwaitableIterable<T> | Promise<AwaitableIterable<T>>): AsyncSequence<T> {
+        return new AsyncIfEmptySequence(this, fallback);
     }
 
     /**
      * Returns a promise resolving to the the index of the first item of this sequence `value` is 
      * identical to. If there is none, resolves to -1. This is a short-circuiting terminal operation.
      */
-    public async indexOf(value: T): Promise<number> {
+    public async indexOf(value: T, signal?: AbortSignalLike): Promise<number> {
         let index = 0;
-        for await (const item of this) {
+        for await (const item of this.orAbortable(signal)) {
             if (item === value) return index;
             index++;
         }
         return -1;
     }
 
+    /**
+     * Returns a new {@link AsyncSequence} combining every element of this sequence with every
+     * element of `inner` sharing its key, in order. Elements without matches are left out. Keys
+     * are compared as a {@link Map} would. `inner` is indexed as soon as the first element is
+     * requested, so it must be finite, while this sequence is streamed.
+     * This operation is intermediate and stateful.\
+     * \
+     * The sequence created is non-sized.
+     */
+    public innerJoin<I, K, R>(
+        inner: AwaitableIterable<I>,
+        outerKey: (item: T) => K | Promise<K>,
+        innerKey: (item: I) => K | Promise<K>,
+        combine: (outer: T, inner: I) => R | Promise<R>
+    ): AsyncSequence<R> {
+        return new AsyncJoiningSequence(this, AsyncSequence.from(inner), outerKey, innerKey, 
+            combine as (outer: T | undefined, inner: I | undefined) => R | Promise<R>, false, false);
+    }
+
+    /**
+     * Returns a new {@link AsyncSequence} containing the distinct elements of this sequence that
+     * are also contained by `other`, compared as {@link union} does. `other` is indexed as soon as
+     * the first element is requested, so it must be finite. This operation is intermediate and
+     * stateful.\
+     * \
+     * The sequence created retains size information: it has at most as many elements as the smaller
+     * of both sequences.
+     */
+    public intersect(other: AwaitableIterable<T>): AsyncSequence<T>;
+    public intersect<K>(other: AwaitableIterable<T>, selector: (item: T) => K | Promise<K>, equality?: KeyEquality<K>): AsyncSequence<T>;
+    public intersect<K>(other: AwaitableIterable<T>, selector: (item: T) => K | Promise<K> = item => item as unknown as K, equality?: KeyEquality<K>): AsyncSequence<T> {
+        return new AsyncKeyFilteringSequence(this, AsyncSequence.from(other), selector, equality, true);
+    }
+
     /**
      * Returns a promise resolving to true if this collection contains no elements. This is a 
      * short-circuiting terminal operation and it does not hang for infinite sequences.
      */
-    public async isEmpty(): Promise<boolean> {
-        for await (const _ of this) return false;
+    public async isEmpty(signal?: AbortSignalLike): Promise<boolean> {
+        for await (const _ of this.orAbortable(signal)) return false;
         return true;
     }
 
@@ -383,7 +936,7 @@ export class AsyncSequence<T> implements AsyncIterable<T> {
         limit?: number; 
         truncated?: string; 
         transform?: (item: T) => string | Promise<string>; 
-    }): Promise<string>;
+    }, signal?: AbortSignalLike): Promise<string>;
     public async join(options?: { 
         separator?: string; 
         prefix?: string; 
@@ -391,7 +944,7 @@ export class AsyncSequence<T> implements AsyncIterable<T> {
         limit?: number; 
         truncated?: string; 
         transform?: (item: T) => string | Promise<string>; 
-    }): Promise<string> {
+    }, signal?: AbortSignalLike): Promise<string> {
         const separator = options?.separator ?? ", ",
               prefix    = options?.prefix    ?? "",
               postfix   = options?.postfix   ?? "",
@@ -400,7 +953,7 @@ export class AsyncSequence<T> implements AsyncIterable<T> {
               transform = options?.transform;
         let base: string = prefix;
         let count = 0;
-        for await (const item of this) {
+        for await (const item of this.orAbortable(signal)) {
             if (++count > 1) base += separator;
             if (limit < 0 || count <= limit) {
                 if (transform) {
@@ -421,9 +974,9 @@ export class AsyncSequence<T> implements AsyncIterable<T> {
      * Returns a promise resolving to the last element contained by this sequence. 
      * This is a terminal operation.
      */
-    public async last(): Promise<T | undefined> {
+    public async last(signal?: AbortSignalLike): Promise<T | undefined> {
         let result: T | undefined;
-        for await (const item of this) {
+        for await (const item of this.orAbortable(signal)) {
             result = item;
         }
         return result;
@@ -433,16 +986,35 @@ export class AsyncSequence<T> implements AsyncIterable<T> {
      * Returns a promise resolving to the index of the last element of this sequence `value` is 
      * identical to, or to -1 if none is. This is a terminal operation.
      */
-    public async lastIndexOf(value: T): Promise<number> {
+    public async lastIndexOf(value: T, signal?: AbortSignalLike): Promise<number> {
         let result = -1;
         let index = 0;
-        for await (const item of this) {
+        for await (const item of this.orAbortable(signal)) {
             if (item === value) result = index;
             index++;
         }
         return result;
     }
 
+    /**
+     * Returns a new {@link AsyncSequence} combining every element of this sequence with every
+     * element of `inner` sharing its key, as {@link innerJoin} does. Elements of this sequence
+     * without matches are combined with `undefined`. Keys are compared as a {@link Map} would.
+     * `inner` is indexed as soon as the first element is requested, so it must be finite.
+     * This operation is intermediate and stateful.\
+     * \
+     * The sequence created is non-sized.
+     */
+    public leftJoin<I, K, R>(
+        inner: AwaitableIterable<I>,
+        outerKey: (item: T) => K | Promise<K>,
+        innerKey: (item: I) => K | Promise<K>,
+        combine: (outer: T, inner: I | undefined) => R | Promise<R>
+    ): AsyncSequence<R> {
+        return new AsyncJoiningSequence(this, AsyncSequence.from(inner), outerKey, innerKey, 
+            combine as (outer: T | undefined, inner: I | undefined) => R | Promise<R>, true, false);
+    }
+
     /**
      * Returns a new {@link AsyncSequence} asynchronously transforming each value of this sequence.
      * This operation is intermediate and stateless.\
@@ -452,319 +1024,2437 @@ export class AsyncSequence<T> implements AsyncIterable<T> {
     public map<U>(transform: (item: T) => U | Promise<U>): AsyncSequence<U>;
     public map<U>(transform: (item: T, index?: number) => U | Promise<U>): AsyncSequence<U>;
     public map<U>(transform: (item: T, index?: number) => U | Promise<U>): AsyncSequence<U> {
-        return new AsyncMapSequence(this, transform);
+        return new AsyncFusedSequence(this, mapStage(transform));
     }
 
     /**
-     * Returns a promise resolving to a value resulting from recursively applying an asynchronous
-     * operation on the first element of this sequence and the current value for every item of this 
-     * sequence after the first. This is a terminal operation. 
+     * Returns a new {@link AsyncSequence} asynchronously transforming each value of this sequence,
+     * running up to `concurrency` transforms at the same time. Results are emitted in source order,
+     * unless `ordered` is false, in which case they are emitted as soon as their transform 
+     * settles. Upstream is not pulled while `concurrency` results are pending. 
+     * This operation is intermediate and stateless.\
+     * \
+     * The sequence created retains size information.
      */
-    public async reduce<R extends T>(operation: (accumulator: R, current: T) => R | Promise<R>): Promise<R | null>;
-    public async reduce<R extends T>(operation: (accumulator: R, current: T, index?: number) => R | Promise<R>): Promise<R | null>;
-    public async reduce<R extends T>(operation: (accumulator: R, current: T, index?: number) => R | Promise<R>): Promise<R | null> {
-        if (await this.isEmpty()) return null;
-        let index = 0;
-        let result = await this.first() as R;
-        for await (const item of this.drop(1)) {
-            result = await operation(result, item, index++);
-        }
-        return result;
+    public mapConcurrent<U>(transform: (item: T) => U | Promise<U>, options: ConcurrencyOptions): AsyncSequence<U>;
+    public mapConcurrent<U>(transform: (item: T, index?: number) => U | Promise<U>, options: ConcurrencyOptions): AsyncSequence<U>;
+    public mapConcurrent<U>(transform: (item: T, index?: number) => U | Promise<U>, options: ConcurrencyOptions): AsyncSequence<U> {
+        return new AsyncConcurrentMapSequence(this, transform, options, this.sizeHint());
     }
 
     /**
-     * Returns the size of the iterable wrapped by this sequence if said iterable is a sized 
-     * collection (by implementing a length or size property). Otherwise, returns a negative number.
+     * Returns a new {@link AsyncSequence} asynchronously transforming each value of this sequence.
+     * If the transform throws for an element, `recover` is called with the error, the element and
+     * its index, and the value it returns is emitted instead. Without `recover`, elements whose
+     * transform throws are left out. This operation is intermediate and stateless.\
+     * \
+     * The sequence created retains size information if `recover` is provided. Otherwise, it is
+     * non-sized.
      */
-    public size(): number {
-        return this._size;
+    public mapCatching<U>(
+        transform: (item: T, index?: number) => U | Promise<U>, 
+        recover?: (error: unknown, item: T, index: number) => U | Promise<U>
+    ): AsyncSequence<U> {
+        return new AsyncMapCatchingSequence(this, transform, recover);
     }
 
     /**
-     * If a predicate is provided, returns a promise resolving to `true` if at least one element of 
-     * this sequence fulfills it. Otherwise, returns a promise resolving to `true` if there is at 
-     * least one element in this sequence. This is short-circuiting terminal operation.
+     * Returns a new {@link AsyncSequence} transforming each value of this sequence, and keeping 
+     * only the results that are neither `null` nor `undefined`.
+     * This operation is intermediate and stateless.\
+     * \
+     * The sequence created is non-sized.
      */
-    public async some(): Promise<boolean>;
-    public async some(predicate?: (item: T) => boolean | Promise<boolean>): Promise<boolean>;
-    public async some(predicate?: (item: T, index?: number) => boolean | Promise<boolean>): Promise<boolean>;
-    public async some(predicate: (item: T, index?: number) => boolean | Promise<boolean> = _ => true): Promise<boolean> {
-        let index = 0;
-        for await (const item of this) {
+    public mapNotNull<U>(transform: (item: T) => U | null | undefined | Promise<U | null | undefined>): AsyncSequence<U>;
+    public mapNotNull<U>(transform: (item: T, index?: number) => U | null | undefined | Promise<U | null | undefined>): AsyncSequence<U>;
+    public mapNotNull<U>(transform: (item: T, index?: number) => U | null | undefined | Promise<U | null | undefined>): AsyncSequence<U> {
+        return new AsyncFusedSequence(this, mapNotNullStage(transform));
+    }
+
+    /**
+     * Returns a promise resolving to the greatest number in this sequence, or undefined if it's 
+     * empty. NaN is greater than any number, as with {@link Math.max()}. 
+     * This is a terminal operation.
+     */
+    public async max(this: AsyncSequence<number>, signal?: AbortSignalLike): Promise<number | undefined>;
+    public async max(this: AsyncSequence<bigint>, signal?: AbortSignalLike): Promise<bigint | undefined>;
+    public async max(this: AsyncSequence<number> | AsyncSequence<bigint>, signal?: AbortSignalLike): Promise<number | bigint | undefined> {
+        return (this as AsyncSequence<any>).collect(Collectors.max(), signal);
+    }
+
+    /**
+     * Returns a promise resolving to the first element of this sequence generating the greatest 
+     * key through `selector`, by the natural order of the keys, or undefined if it's empty. 
+     * This is a terminal operation.
+     */
+    public async maxBy(selector: (item: T) => Comparable | null | undefined, signal?: AbortSignalLike): Promise<T | undefined> {
+        return this.collect(Collectors.maxBy(selector), signal);
+    }
+
+    /**
+     * Returns a promise resolving to the first of the greatest elements of this sequence according
+     * to `comparator`, or undefined if it's empty. This is a terminal operation.
+     */
+    public async maxWith(comparator: CompareFunction<T> | Comparator<T>, signal?: AbortSignalLike): Promise<T | undefined> {
+        return this.collect(Collectors.maxWith(comparator), signal);
+    }
+
+    /**
+     * Returns a promise resolving to the smallest number in this sequence, or undefined if it's 
+     * empty. NaN is smaller than any number, as with {@link Math.min()}. 
+     * This is a terminal operation.
+     */
+    public async min(this: AsyncSequence<number>, signal?: AbortSignalLike): Promise<number | undefined>;
+    public async min(this: AsyncSequence<bigint>, signal?: AbortSignalLike): Promise<bigint | undefined>;
+    public async min(this: AsyncSequence<number> | AsyncSequence<bigint>, signal?: AbortSignalLike): Promise<number | bigint | undefined> {
+        return (this as AsyncSequence<any>).collect(Collectors.min(), signal);
+    }
+
+    /**
+     * Returns a promise resolving to the first element of this sequence generating the smallest 
+     * key through `selector`, by the natural order of the keys, or undefined if it's empty. 
+     * This is a terminal operation.
+     */
+    public async minBy(selector: (item: T) => Comparable | null | undefined, signal?: AbortSignalLike): Promise<T | undefined> {
+        return this.collect(Collectors.minBy(selector), signal);
+    }
+
+    /**
+     * Returns a promise resolving to the first of the smallest elements of this sequence according
+     * to `comparator`, or undefined if it's empty. This is a terminal operation.
+     */
+    public async minWith(comparator: CompareFunction<T> | Comparator<T>, signal?: AbortSignalLike): Promise<T | undefined> {
+        return this.collect(Collectors.minWith(comparator), signal);
+    }
+
+    /**
+     * Returns a new {@link AsyncSequence} calling the asynchronous `callback` once every iteration
+     * over it ends, be it because the sequence was exhausted, an error was thrown, or the consumer
+     * stopped early (eg. through `break`, `take` or `find`). Useful to release the resources 
+     * behind a sequence. This operation is intermediate and stateless.\
+     * \
+     * The sequence created retains size information.
+     */
+    public onClose(callback: () => void | Promise<void>): AsyncSequence<T> {
+        return new AsyncClosingSequence(this, callback);
+    }
+
+    /**
+     * Returns a new {@link AsyncSequence} calling `action` on every element of this sequence as it
+     * passes through, and then passing it on unchanged, once `action` settles. Unlike 
+     * {@link forEach}, nothing happens until the sequence created is iterated. 
+     * This operation is intermediate and stateless.\
+     * \
+     * The sequence created retains size information.
+     */
+    public onEach(action: (item: T) => void | Promise<void>): AsyncSequence<T>;
+    public onEach(action: (item: T, index?: number) => void | Promise<void>): AsyncSequence<T>;
+    public onEach(action: (item: T, index?: number) => void | Promise<void>): AsyncSequence<T> {
+        return new AsyncFusedSequence(this, onEachStage(action));
+    }
+
+    /**
+     * Returns a new {@link AsyncSequence} that, if this sequence throws, continues with the 
+     * elements of `fallback` instead. Equivalent to `catchError(() => fallback)`.
+     * This operation is intermediate and stateless.\
+     * \
+     * The sequence created is non-sized.
+     */
+    public onErrorResume(fallback: AwaitableIterable<T>): AsyncSequence<T> {
+        return new AsyncCatchingSequence(this, () => fallback);
+    }
+
+    /**
+     * Returns a promise resolving to a pair of arrays, the first containing the elements of this 
+     * sequence fulfilling `predicate`, and the second containing the ones that don't. 
+     * This is a terminal operation.
+     */
+    public async partition(predicate: (item: T) => boolean, signal?: AbortSignalLike): Promise<[T[], T[]]> {
+        return this.collect(Collectors.partitioningBy(predicate), signal);
+    }
+
+    /**
+     * Returns a promise resolving to a value resulting from recursively applying an asynchronous
+     * operation on the first element of this sequence and the current value for every item of this 
+     * sequence after the first. This is a terminal operation. 
+     */
+    public async reduce<R extends T>(operation: (accumulator: R, current: T) => R | Promise<R>, signal?: AbortSignalLike): Promise<R | null>;
+    public async reduce<R extends T>(operation: (accumulator: R, current: T, index?: number) => R | Promise<R>, signal?: AbortSignalLike): Promise<R | null>;
+    public async reduce<R extends T>(operation: (accumulator: R, current: T, index?: number) => R | Promise<R>, signal?: AbortSignalLike): Promise<R | null> {
+        let index = 0;
+        let empty = true;
+        let result = null as R | null;
+        for await (const item of this.orAbortable(signal)) {
+            if (empty) {
+                empty = false;
+                result = item as R;
+            } else {
+                result = await operation(result as R, item, index++);
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Returns a new {@link AsyncSequence} whose iterations share a single iteration over this 
+     * sequence, started by the first of them. Consumers starting late receive the last 
+     * `bufferSize` elements produced before they started, followed by every new one. The shared 
+     * iteration stays open even when no consumer is left, so later consumers keep receiving the
+     * elements already produced, and can be released by disposing of the sequence created.
+     * This operation is intermediate and stateful.\
+     * \
+     * The sequence created is non-sized.
+     */
+    public replay(bufferSize: number, options?: SharingOptions): AsyncSequence<T> {
+        return new AsyncSharingSequence(this, bufferSize, true, options);
+    }
+
+    /**
+     * Returns a new {@link AsyncSequence} containing the elements of this sequence, throwing an 
+     * {@link Utils.IllegalArgumentError} upon reaching a `null` or `undefined` element.
+     * This operation is intermediate and stateless.\
+     * \
+     * The sequence created retains size information.
+     */
+    public requireNoNulls(): AsyncSequence<NonNullable<T>> {
+        return new AsyncFusedSequence(this, onEachStage((item, index) => {
+            if (item == null) {
+                throw new Utils.IllegalArgumentError(`null element found at index ${index}`);
+            }
+        }));
+    }
+
+    /**
+     * Returns a new {@link AsyncSequence} that, if this sequence throws, iterates it again from
+     * the start, up to `attempts` times in total, waiting `backoff` milliseconds before every new
+     * attempt. Elements emitted by failed attempts are not taken back, so they are emitted again by
+     * the following ones. Once out of attempts, or if `shouldRetry` rejects an error, that error is
+     * thrown. Sequences that can only be iterated once cannot be retried, so the error of their
+     * first attempt is thrown instead.
+     * This operation is intermediate and stateless.\
+     * \
+     * The sequence created is non-sized.
+     */
+    public retry(options: RetryOptions = {}): AsyncSequence<T> {
+        return new AsyncRetrySequence(this, options);
+    }
+
+    /**
+     * Returns a new {@link AsyncSequence} containing `initial`, followed by every intermediate 
+     * result of recursively applying an asynchronous operation on it and the current value for 
+     * every item of this sequence, in the same way {@link fold} does. Its last element is the 
+     * result of `fold`. This operation is intermediate and stateful.\
+     * \
+     * The sequence created retains size information, and has one more element than this sequence.
+     */
+    public runningFold<R>(initial: R, operation: (accumulator: R, current: T) => R | Promise<R>): AsyncSequence<R>;
+    public runningFold<R>(initial: R, operation: (accumulator: R, current: T, index?: number) => R | Promise<R>): AsyncSequence<R>;
+    public runningFold<R>(initial: R, operation: (accumulator: R, current: T, index?: number) => R | Promise<R>): AsyncSequence<R> {
+        return new AsyncRunningFoldSequence(this, initial, operation);
+    }
+
+    /**
+     * Returns a new {@link AsyncSequence} containing the first element of this sequence, followed
+     * by every intermediate result of recursively applying an asynchronous operation on it and the
+     * current value for every item after the first, in the same way {@link reduce} does. Its last
+     * element is the result of `reduce`. This operation is intermediate and stateful.\
+     * \
+     * The sequence created retains size information.
+     */
+    public runningReduce<R extends T>(operation: (accumulator: R, current: T) => R | Promise<R>): AsyncSequence<R>;
+    public runningReduce<R extends T>(operation: (accumulator: R, current: T, index?: number) => R | Promise<R>): AsyncSequence<R>;
+    public runningReduce<R extends T>(operation: (accumulator: R, current: T, index?: number) => R | Promise<R>): AsyncSequence<R> {
+        return new AsyncRunningReduceSequence(this, operation);
+    }
+
+    /**
+     * Returns a new {@link AsyncSequence} emitting, every `ms` milliseconds, the latest element
+     * produced by this sequence during that period, if any. An element produced after the last
+     * period ended is not emitted. Time is measured by the provided {@link Scheduler}, or the
+     * system clock by default. This operation is intermediate and stateful.\
+     * \
+     * The sequence created is non-sized.
+     */
+    public sample(ms: number, scheduler: Scheduler = SystemScheduler.instance): AsyncSequence<T> {
+        return new AsyncSampleSequence(this, ms, scheduler);
+    }
+
+    /**
+     * Equivalent to {@link runningFold}. This operation is intermediate and stateful.\
+     * \
+     * The sequence created retains size information, and has one more element than this sequence.
+     */
+    public scan<R>(initial: R, operation: (accumulator: R, current: T) => R | Promise<R>): AsyncSequence<R>;
+    public scan<R>(initial: R, operation: (accumulator: R, current: T, index?: number) => R | Promise<R>): AsyncSequence<R>;
+    public scan<R>(initial: R, operation: (accumulator: R, current: T, index?: number) => R | Promise<R>): AsyncSequence<R> {
+        return new AsyncRunningFoldSequence(this, initial, operation);
+    }
+
+    /**
+     * Returns a new {@link AsyncSequence} whose simultaneous iterations share a single iteration
+     * over this sequence, so its elements are only produced once. Consumers starting late only 
+     * receive the elements produced after they started. Once every consumer has finished, or the 
+     * shared iteration has ended, the next consumer starts a new one.
+     * This operation is intermediate and stateful.\
+     * \
+     * The sequence created is non-sized.
+     */
+    public share(options?: SharingOptions): AsyncSequence<T> {
+        return new AsyncSharingSequence(this, 0, false, options);
+    }
+
+    /**
+     * Returns the size of the iterable wrapped by this sequence if said iterable is a sized 
+     * collection (by implementing a length or size property). Otherwise, returns a negative number.
+     */
+    public size(): number {
+        return this.sizeHint().toSize();
+    }
+
+    /**
+     * Returns the lower and upper bounds on the amount of elements in this sequence, as inferred
+     * from its source and the operations applied to it. The bounds are exact for sized sequences,
+     * and never require iterating the sequence.
+     */
+    public sizeHint(): SizeHint {
+        return this._sizeHint;
+    }
+
+    /**
+     * If a predicate is provided, returns a promise resolving to `true` if at least one element of 
+     * this sequence fulfills it. Otherwise, returns a promise resolving to `true` if there is at 
+     * least one element in this sequence. This is short-circuiting terminal operation.
+     */
+    public async some(): Promise<boolean>;
+    public async some(predicate?: (item: T) => boolean | Promise<boolean>, signal?: AbortSignalLike): Promise<boolean>;
+    public async some(predicate?: (item: T, index?: number) => boolean | Promise<boolean>, signal?: AbortSignalLike): Promise<boolean>;
+    public async some(predicate: (item: T, index?: number) => boolean | Promise<boolean> = _ => true, signal?: AbortSignalLike): Promise<boolean> {
+        let index = 0;
+        for await (const item of this.orAbortable(signal)) {
             if (await predicate(item, index++)) return true;
         }
-        return false;
+        return false;
+    }
+
+    /**
+     * Returns a new {@link AsyncSequence} containing the elements of this sequence sorted by their
+     * natural order. The sort is stable. This operation is intermediate and stateful.\
+     * \
+     * The sequence created retains size information.
+     */
+    public sorted<T extends Comparable | null | undefined>(this: AsyncSequence<T>): AsyncSequence<T> {
+        return new AsyncSortingSequence(this, item => item, Comparator.naturalOrder<T>().compare);
+    }
+
+    /**
+     * Returns a new {@link AsyncSequence} containing the elements of this sequence sorted by the 
+     * natural order of the key generated by the asynchronous `selector`. The selector is called 
+     * once per element, and the sort is stable. This operation is intermediate and stateful.\
+     * \
+     * The sequence created retains size information.
+     */
+    public sortedBy(selector: (item: T) => Comparable | null | undefined | Promise<Comparable | null | undefined>): AsyncSequence<T> {
+        return new AsyncSortingSequence(this, selector, Comparator.naturalOrder<any>().compare);
+    }
+
+    /**
+     * Returns a new {@link AsyncSequence} containing the elements of this sequence sorted 
+     * descending by the natural order of the key generated by the asynchronous `selector`. The 
+     * selector is called once per element, and the sort is stable. This operation is intermediate
+     * and stateful.\
+     * \
+     * The sequence created retains size information.
+     */
+    public sortedByDescending(selector: (item: T) => Comparable | null | undefined | Promise<Comparable | null | undefined>): AsyncSequence<T> {
+        return new AsyncSortingSequence(this, selector, Comparator.reverseOrder<any>().compare);
+    }
+
+    /**
+     * Returns a new {@link AsyncSequence} containing the elements of this sequence sorted 
+     * descending by their natural order. The sort is stable. This operation is intermediate and
+     * stateful.\
+     * \
+     * The sequence created retains size information.
+     */
+    public sortedDescending<T extends Comparable | null | undefined>(this: AsyncSequence<T>): AsyncSequence<T> {
+        return new AsyncSortingSequence(this, item => item, Comparator.reverseOrder<T>().compare);
+    }
+
+    /**
+     * Returns a new {@link AsyncSequence} containing the elements of this sequence sorted according
+     * to the provided comparator, which can be either a {@link Comparator} or a comparison 
+     * function. The sort is stable. This operation is intermediate and stateful.\
+     * \
+     * The sequence created retains size information.
+     */
+    public sortedWith(comparator: CompareFunction<T> | Comparator<T>): AsyncSequence<T> {
+        return new AsyncSortingSequence(this, item => item, Comparator.of(comparator).compare);
+    }
+
+    /**
+     * Returns a new {@link AsyncSequence} containing the distinct elements of this sequence that
+     * are not contained by `other`, compared as {@link union} does. `other` is indexed as soon as
+     * the first element is requested, so it must be finite. This operation is intermediate and
+     * stateful.\
+     * \
+     * The sequence created retains size information: it has at most as many elements as this
+     * sequence.
+     */
+    public subtract(other: AwaitableIterable<T>): AsyncSequence<T>;
+    public subtract<K>(other: AwaitableIterable<T>, selector: (item: T) => K | Promise<K>, equality?: KeyEquality<K>): AsyncSequence<T>;
+    public subtract<K>(other: AwaitableIterable<T>, selector: (item: T) => K | Promise<K> = item => item as unknown as K, equality?: KeyEquality<K>): AsyncSequence<T> {
+        return new AsyncKeyFilteringSequence(this, AsyncSequence.from(other), selector, equality, false);
+    }
+
+    /**
+     * Returns a promise resolving to the sum of the numbers in this sequence, or 0 if it's empty.
+     * An empty sequence cannot tell numbers from bigints, so bigint sums resolve to the provided
+     * `zero` (usually `0n`) instead. This is a terminal operation.
+     */
+    public async sum(this: AsyncSequence<number>, signal?: AbortSignalLike): Promise<number>;
+    public async sum(this: AsyncSequence<bigint>, zero: bigint, signal?: AbortSignalLike): Promise<bigint>;
+    public async sum(
+        this: AsyncSequence<number> | AsyncSequence<bigint>, 
+        zeroOrSignal?: bigint | AbortSignalLike, 
+        signal?: AbortSignalLike
+    ): Promise<number | bigint> {
+        return typeof zeroOrSignal === "bigint"
+            ? (this as AsyncSequence<bigint>).collect(Collectors.summing(zeroOrSignal), signal)
+            : (this as AsyncSequence<number>).collect(Collectors.summing(), zeroOrSignal);
+    }
+
+    /**
+     * Returns a promise resolving to the sum of the numbers generated by `selector` for every 
+     * element of this sequence, or 0 if it's empty (`zero` for bigints, as in {@link sum}).
+     * This is a terminal operation.
+     */
+    public async sumBy(selector: (item: T) => number, signal?: AbortSignalLike): Promise<number>;
+    public async sumBy(selector: (item: T) => bigint, zero: bigint, signal?: AbortSignalLike): Promise<bigint>;
+    public async sumBy(
+        selector: (item: T) => number | bigint, 
+        zeroOrSignal?: bigint | AbortSignalLike, 
+        signal?: AbortSignalLike
+    ): Promise<number | bigint> {
+        return typeof zeroOrSignal === "bigint"
+            ? this.collect(Collectors.summing(selector as (item: T) => bigint, zeroOrSignal), signal)
+            : this.collect(Collectors.summing(selector as (item: T) => number), zeroOrSignal);
+    }
+
+    /**
+     * Returns a promise resolving to the count, sum, minimum, maximum, mean and population 
+     * variance of the numbers in this sequence, gathered in a single pass (see 
+     * {@link SummaryStatistics}). The sum of an empty sequence is 0, or `zero` for bigints, as in
+     * {@link sum}. This is a terminal operation.
+     */
+    public async summaryStatistics(this: AsyncSequence<number>, signal?: AbortSignalLike): Promise<SummaryStatistics<number>>;
+    public async summaryStatistics(this: AsyncSequence<bigint>, zero: bigint, signal?: AbortSignalLike): Promise<SummaryStatistics<bigint>>;
+    public async summaryStatistics(
+        this: AsyncSequence<number> | AsyncSequence<bigint>, 
+        zeroOrSignal?: bigint | AbortSignalLike, 
+        signal?: AbortSignalLike
+    ): Promise<SummaryStatistics<number> | SummaryStatistics<bigint>> {
+        return typeof zeroOrSignal === "bigint"
+            ? (this as AsyncSequence<bigint>).collect(Collectors.summarizing(zeroOrSignal), signal)
+            : (this as AsyncSequence<number>).collect(Collectors.summarizing(), zeroOrSignal);
+    }
+
+    /**
+     * Returns a new {@link AsyncSequence} containing the distinct elements of this sequence that
+     * are not contained by `other`, followed by the distinct elements of `other` that are not
+     * contained by this sequence, compared as {@link union} does. `other` is indexed as soon as
+     * the first element is requested, so it must be finite. This operation is intermediate and
+     * stateful.\
+     * \
+     * The sequence created retains size information: it has at most as many elements as both
+     * sequences together.
+     */
+    public symmetricDifference(other: AwaitableIterable<T>): AsyncSequence<T>;
+    public symmetricDifference<K>(other: AwaitableIterable<T>, selector: (item: T) => K | Promise<K>, equality?: KeyEquality<K>): AsyncSequence<T>;
+    public symmetricDifference<K>(other: AwaitableIterable<T>, selector: (item: T) => K | Promise<K> = item => item as unknown as K, equality?: KeyEquality<K>): AsyncSequence<T> {
+        return new AsyncSymmetricDifferenceSequence(this, AsyncSequence.from(other), selector, equality);
+    }
+
+    /**
+     * Returns a new {@link AsyncSequence} dropping all elements after the first `n`. A NaN 
+     * count throws an {@link Utils.IllegalArgumentError}.
+     * This operation is intermediate and stateful.\
+     * \
+     * The sequence created retains size information.
+     */
+    public take(n: number): AsyncSequence<T> {
+        return new AsyncFusedSequence(this, takeStage(n));
+    }
+
+    /**
+     * Returns a new {@link AsyncSequence} dropping all elements after an asynchronous predicate 
+     * stops fulfilling for the first time. This operation is intermediate and stateful.\
+     * \
+     * The sequence created is non-sized.
+     */
+    public takeWhile(predicate: (item: T) => boolean | Promise<boolean>): AsyncSequence<T>;
+    public takeWhile(predicate: (item: T, index?: number) => boolean | Promise<boolean>): AsyncSequence<T>;
+    public takeWhile(predicate: (item: T, index?: number) => boolean | Promise<boolean>): AsyncSequence<T> {
+        return new AsyncFusedSequence(this, takeWhileStage(predicate));
+    }
+
+    /**
+     * Returns an array of `n` independent {@link AsyncSequence}s, each containing every element of
+     * this sequence, backed by a single iteration over it. Every element is only produced once and
+     * buffered until all sequences have read it, so every sequence should be either consumed or
+     * disposed of. Each of them can only be iterated once, throwing a {@link Utils.ConsumedError}
+     * when iterated again. A count smaller than 1 throws an {@link Utils.IllegalArgumentError}.
+     * This operation is intermediate and stateful.\
+     * \
+     * The sequences created retain size information.
+     */
+    public tee(n: number, options?: SharingOptions): AsyncSequence<T>[] {
+        if (n < 1) {
+            throw new Utils.IllegalArgumentError("tee count must be greater than 0");
+        }
+        const multicast = new Multicast(this, 0, false, Multicast.maxBuffered(options));
+        return Array.from({ length: n }, () => new AsyncTeeSequence(this, multicast));
+    }
+
+    /**
+     * Returns a new {@link AsyncSequence} emitting at most one element every `ms` milliseconds.
+     * With `leading` (true by default), the element opening a period is emitted right away. With
+     * `trailing` (false by default), the last element produced during a period is emitted when it
+     * ends, opening a new one. Any other element is discarded. Time is measured by the provided
+     * {@link Scheduler}, or the system clock by default. This operation is intermediate and
+     * stateful.\
+     * \
+     * The sequence created is non-sized.
+     */
+    public throttle(
+        ms: number, 
+        options?: { leading?: boolean, trailing?: boolean }, 
+        scheduler: Scheduler = SystemScheduler.instance
+    ): AsyncSequence<T> {
+        return new AsyncThrottleSequence(this, ms, options?.leading ?? true, options?.trailing ?? false, scheduler);
+    }
+
+    /**
+     * Returns a new {@link AsyncSequence} in which every element must be produced within `ms`
+     * milliseconds of being pulled. Otherwise, the pull rejects with a {@link Utils.TimeoutError}
+     * and the upstream iterator is closed without waiting for it. Time is measured by the provided
+     * {@link Scheduler}, or the system clock by default. This operation is intermediate and
+     * stateless.\
+     * \
+     * The sequence created retains size information.
+     */
+    public timeout(ms: number, scheduler: Scheduler = SystemScheduler.instance): AsyncSequence<T> {
+        return new AsyncTimeoutSequence(this, ms, false, scheduler);
+    }
+
+    /**
+     * Returns a promise resolving to an array containing the elements of this sequence. 
+     * This is a terminal operation.
+     */
+    public async toArray(signal?: AbortSignalLike): Promise<T[]> {
+        const size = this.size();
+        if (size < 0) return this.fold<T[]>([], (acc, curr) => { acc.push(curr); return acc; }, signal);
+        // exactly sized sequences are copied into a pre-allocated array instead.
+        let index = 0;
+        const result = await this.fold(new Array<T>(size), (acc, curr) => { acc[index++] = curr; return acc; }, signal);
+        result.length = index;
+        return result;
+    }
+
+    /**
+     * Returns a promise resolving to a map containing the entries generated by the provided 
+     * selectors for every element of this sequence. Elements generating a key already in the map
+     * are merged into it by `onConflict`, which receives the value in the map first. If no 
+     * `onConflict` function is provided, duplicate keys reject with an 
+     * {@link Utils.IllegalStateError}. This is a terminal operation.
+     */
+    public async toMap<K, V>(keySelector: (item: T) => K, valueSelector: (item: T) => V, signal?: AbortSignalLike): Promise<Map<K, V>>;
+    public async toMap<K, V>(
+        keySelector: (item: T) => K, 
+        valueSelector: (item: T) => V, 
+        onConflict: (existing: V, incoming: V, key: K) => V, 
+        signal?: AbortSignalLike
+    ): Promise<Map<K, V>>;
+    public async toMap<K, V>(
+        keySelector: (item: T) => K, 
+        valueSelector: (item: T) => V, 
+        onConflictOrSignal?: ((existing: V, incoming: V, key: K) => V) | AbortSignalLike, 
+        signal?: AbortSignalLike
+    ): Promise<Map<K, V>> {
+        if (typeof onConflictOrSignal === "function") {
+            return this.collect(Collectors.toMap(keySelector, valueSelector, onConflictOrSignal), signal);
+        }
+        return this.collect(Collectors.toMap(keySelector, valueSelector), onConflictOrSignal);
+    }
+
+    /**
+     * Returns a promise resolving to a set containing the elements of this sequence. 
+     * This is a terminal operation.
+     */
+    public async toSet(signal?: AbortSignalLike): Promise<Set<T>> {
+        return this.collect(Collectors.toSet(), signal);
+    }
+
+    /**
+     * Returns a string representation of this sequence and its estimated size, which could be one
+     * of the following:
+     * - 0: AsyncSequence (empty)
+     * - an integer: AsyncSequence (5)
+     * - a range: AsyncSequence (≤10), AsyncSequence (≥3), AsyncSequence (3..10)
+     * - unknown size: AsyncSequence (unknown)
+     * - infinite: AsyncSequence (infinite)
+     */
+    public toString(): string {
+        if (this.size() === 0) return "AsyncSequence (empty)";
+        return `AsyncSequence (${this.sizeHint()})`;
+    }
+
+    /**
+     * Returns a new {@link AsyncSequence} containing the distinct elements of this sequence,
+     * followed by the distinct elements of `other` that are not contained by this sequence.
+     * Elements are compared by the keys generated by `selector`, or by themselves if none is
+     * provided, according to the custom {@link KeyEquality} if one is given, or as a {@link Set}
+     * would otherwise. {@link intersect}, {@link subtract} and {@link symmetricDifference} compare
+     * elements the same way. This operation is intermediate and stateful, but it yields elements
+     * as soon as they are found, so it does not hang for infinite sequences.\
+     * \
+     * The sequence created retains size information: it has at most as many elements as both
+     * sequences together, and at least one if either of them is non-empty.
+     */
+    public union(other: AwaitableIterable<T>): AsyncSequence<T>;
+    public union<K>(other: AwaitableIterable<T>, selector: (item: T) => K | Promise<K>, equality?: KeyEquality<K>): AsyncSequence<T>;
+    public union<K>(other: AwaitableIterable<T>, selector: (item: T) => K | Promise<K> = item => item as unknown as K, equality?: KeyEquality<K>): AsyncSequence<T> {
+        return new AsyncUnionSequence(this, AsyncSequence.from(other), selector, equality);
+    }
+
+    /**
+     * Returns a promise resolving to a pair of arrays, the first containing the first element of 
+     * every pair in this sequence, and the second containing the second ones. 
+     * This is a terminal operation.
+     */
+    public async unzip<A, B>(this: AsyncSequence<[A, B]>, signal?: AbortSignalLike): Promise<[A[], B[]]> {
+        return this.fold<[A[], B[]]>([[], []], (acc, [a, b]) => {
+            acc[0].push(a);
+            acc[1].push(b);
+            return acc;
+        }, signal);
+    }
+
+    /**
+     * Returns a new {@link AsyncSequence} of sliding windows of `size` elements over this sequence,
+     * starting a new window every `step` elements (1 by default). Windows smaller than `size` at
+     * the end of the sequence are only kept if `partial` is true. A size or step smaller than 1
+     * throws an {@link Utils.IllegalArgumentError}. This operation is intermediate and stateful.\
+     * \
+     * The sequence created retains size information.
+     */
+    public windowed(size: number, step: number = 1, options?: { partial?: boolean }): AsyncSequence<T[]> {
+        return new AsyncWindowingSequence(this, size, step, options?.partial ?? false, window => window);
+    }
+
+    /**
+     * Returns a new {@link AsyncSequence} pairing every element of this sequence with its index, 
+     * as `{ index, value }` objects. This operation is intermediate and stateless.\
+     * \
+     * The sequence created retains size information.
+     */
+    public withIndex(): AsyncSequence<{ index: number, value: T }> {
+        return new AsyncFusedSequence(this, mapStage((value, index) => ({ index: index!, value })));
+    }
+
+    /**
+     * Returns a new {@link AsyncSequence} of pairs built from the elements of this sequence and 
+     * `other` at the same index. Both sequences are awaited concurrently, and the sequence created
+     * ends as soon as either of them does. This operation is intermediate and stateless.\
+     * \
+     * The sequence created is sized if and only if both sequences are, in which case its size is
+     * the one of the shortest sequence.
+     */
+    public zip<U>(other: AsyncSequence<U>): AsyncSequence<[T, U]> {
+        return new AsyncZipSequence<[T, U]>([this, other], values => values as [T, U]);
+    }
+
+    /**
+     * Returns a new {@link AsyncSequence} of pairs built from the elements of this sequence and 
+     * `other` at the same index. Both sequences are awaited concurrently. Unlike {@link zip}, the
+     * sequence created ends when both of them do, and the missing elements of this sequence are 
+     * replaced by `fill`, and the ones of `other` by `otherFill`, or by `undefined` where no fill
+     * is provided. To only fill the elements of `other`, pass `undefined` as `fill`. This 
+     * operation is intermediate and stateless.\
+     * \
+     * The sequence created is sized if and only if both sequences are, in which case its size is
+     * the one of the longest sequence.
+     */
+    public zipLongest<U>(other: AsyncSequence<U>): AsyncSequence<[T | undefined, U | undefined]>;
+    public zipLongest<U>(other: AsyncSequence<U>, fill: T): AsyncSequence<[T, U | undefined]>;
+    public zipLongest<U>(other: AsyncSequence<U>, fill: T, otherFill: U): AsyncSequence<[T, U]>;
+    public zipLongest<U>(other: AsyncSequence<U>, fill: undefined, otherFill: U): AsyncSequence<[T | undefined, U]>;
+    public zipLongest<U>(other: AsyncSequence<U>, fill?: T, otherFill?: U): AsyncSequence<[T | undefined, U | undefined]> | AsyncSequence<[T, U | undefined]> | AsyncSequence<[T | undefined, U]> {
+        return new AsyncZipLongestSequence<[T | undefined, U | undefined]>([this, other], [fill, otherFill]);
+    }
+
+    /**
+     * Returns a new {@link AsyncSequence} combining the elements of this sequence and `other` at
+     * the same index through the asynchronous `combine` function. Both sequences are awaited
+     * concurrently, and the sequence created ends as soon as either of them does. This operation
+     * is intermediate and stateless.\
+     * \
+     * The sequence created is sized if and only if both sequences are, in which case its size is
+     * the one of the shortest sequence.
+     */
+    public zipWith<U, R>(other: AsyncSequence<U>, combine: (item: T, otherItem: U) => R | Promise<R>): AsyncSequence<R> {
+        return new AsyncZipSequence<R>([this, other], values => combine(values[0] as T, values[1] as U));
+    }
+
+    /**
+     * Returns this sequence made abortable by `signal`, or this sequence as is if there is none.
+     * Used by terminal operations to honor their optional signal.
+     */
+    private orAbortable(signal: AbortSignalLike | undefined): AsyncSequence<T> {
+        return signal ? this.abortable(signal) : this;
+    }
+
+    /**
+     * Returns an asynchronous generator yielding all values contained by this sequence.
+     */
+    async *[Symbol.asyncIterator](): AsyncGenerator<T> {
+        for await (const value of this._values) yield value;
+    }
+
+    /**
+     * Releases the resources behind this sequence, forwarding the disposal to the iterable it 
+     * wraps, if disposable (asynchronously or not). Intermediate sequences forward it to the 
+     * sequences they were created from, so disposing of any stage releases its source.
+     */
+    async [Utils.asyncDispose](): Promise<void> {
+        if (Utils.isAsyncDisposable(this._values)) await this._values[Utils.asyncDispose]();
+        else if (Utils.isDisposable(this._values)) this._values[Utils.dispose]();
+    }
+
+    /**
+     * ToString tag.
+     */
+    [Symbol.toStringTag](): string { return "AsyncSequence"; }
+}
+
+class AsyncFusedSequence<T> extends AsyncSequence<T> {
+    private readonly stages: AsyncStage[];
+    constructor(sequence: AsyncSequence<any>, stage: AsyncStage) {
+        // consecutive fusable stages share a single loop over the first non-fused upstream
+        // sequence, instead of nesting one generator per stage.
+        const fused = sequence instanceof AsyncFusedSequence;
+        super(fused ? sequence._values : sequence, stage.size(sequence.sizeHint()));
+        this.stages = fused ? [...sequence.stages, stage] : [stage];
+    }
+
+    override async *[Symbol.asyncIterator]() {
+        const state: FusionState = { last: false };
+        const steps = this.stages.map(stage => stage.create(state));
+        if (state.last) return;
+        for await (const item of this._values) {
+            let value: unknown = item;
+            for (let index = 0; index < steps.length; index++) {
+                value = await steps[index]!(value);
+                if (value === skipped || value === stopped) break;
+            }
+            if (value === stopped) return;
+            if (value !== skipped) yield value as T;
+            if (state.last) return;
+        }
+    }
+}
+
+class AsyncGeneratorSequence<T> extends AsyncSequence<T> {
+    private readonly initial: Promise<T>;
+    private readonly nextValue: (current: T) => T | Promise<T> | null
+    constructor(
+        initial: Promise<T>,
+        nextValue: (current: T) => T | Promise<T> | null 
+    ) {
+        super([], SizeHint.unknown);
+        this.initial = initial;
+        this.nextValue = nextValue;
+    }
+
+    override async *[Symbol.asyncIterator]() {
+        let current: T | null = await this.initial;
+        yield current;
+        while (current !== null) {
+            if ((current = await this.nextValue(current)) != null) {
+                yield current;
+            }
+        }
+    }
+}
+
+class AsyncUnfoldingSequence<T, S> extends AsyncSequence<T> {
+    private readonly seed: S;
+    private readonly next: (state: S) => [T, S] | undefined | Promise<[T, S] | undefined>;
+    constructor(
+        seed: S,
+        next: (state: S) => [T, S] | undefined | Promise<[T, S] | undefined>
+    ) {
+        super([], SizeHint.unknown);
+        this.seed = seed;
+        this.next = next;
+    }
+
+    override async *[Symbol.asyncIterator]() {
+        let state = this.seed;
+        let step: [T, S] | undefined;
+        while ((step = await this.next(state)) !== undefined) {
+            yield step[0];
+            state = step[1];
+        }
+    }
+}
+
+class AsyncDepthFirstSequence<T> extends AsyncSequence<T> {
+    private readonly root: T;
+    private readonly children: (node: T) => AwaitableIterable<T> | Promise<AwaitableIterable<T>>;
+    private readonly maxDepth: number;
+    private readonly detectCycles: boolean | ((node: T) => unknown) | undefined;
+    private readonly postOrder: boolean;
+    constructor(
+        root: T,
+        children: (node: T) => AwaitableIterable<T> | Promise<AwaitableIterable<T>>,
+        options: TraversalOptions<T>
+    ) {
+        const maxDepth = options.maxDepth ?? Infinity;
+        if (!(Number.isInteger(maxDepth) || maxDepth === Infinity) || maxDepth < 0) {
+            throw new Utils.IllegalArgumentError("maxDepth must be a non-negative integer or Infinity");
+        }
+        super([], traversalHint(maxDepth));
+        this.root = root;
+        this.children = children;
+        this.maxDepth = maxDepth;
+        this.detectCycles = options.detectCycles;
+        this.postOrder = options.order === "post";
+    }
+
+    override async *[Symbol.asyncIterator]() {
+        const firstVisit = firstVisits(this.detectCycles);
+        firstVisit(this.root);
+        if (!this.postOrder) yield this.root;
+        // every node from the root to the current one, along with its children left to visit.
+        const path: [T, AsyncIterator<T> | undefined][] = [[this.root, await this.childrenOf(this.root, 0)]];
+        try {
+            while (path.length > 0) {
+                const [node, children] = path[path.length - 1]!;
+                const result = await children?.next();
+                if (!result || result.done) {
+                    path.pop();
+                    if (this.postOrder) yield node;
+                } else if (firstVisit(result.value)) {
+                    if (!this.postOrder) yield result.value;
+                    path.push([result.value, await this.childrenOf(result.value, path.length)]);
+                }
+            }
+        } finally {
+            for (const [, children] of path) await children?.return?.();
+        }
+    }
+
+    private async childrenOf(node: T, depth: number): Promise<AsyncIterator<T> | undefined> {
+        if (depth >= this.maxDepth) return undefined;
+        return AsyncSequence.from(await this.children(node))[Symbol.asyncIterator]();
+    }
+}
+
+class AsyncBreadthFirstSequence<T> extends AsyncSequence<T> {
+    private readonly root: T;
+    private readonly children: (node: T) => AwaitableIterable<T> | Promise<AwaitableIterable<T>>;
+    private readonly maxDepth: number;
+    private readonly detectCycles: boolean | ((node: T) => unknown) | undefined;
+    constructor(
+        root: T,
+        children: (node: T) => AwaitableIterable<T> | Promise<AwaitableIterable<T>>,
+        options: Omit<TraversalOptions<T>, "order">
+    ) {
+        const maxDepth = options.maxDepth ?? Infinity;
+        if (!(Number.isInteger(maxDepth) || maxDepth === Infinity) || maxDepth < 0) {
+            throw new Utils.IllegalArgumentError("maxDepth must be a non-negative integer or Infinity");
+        }
+        super([], traversalHint(maxDepth));
+        this.root = root;
+        this.children = children;
+        this.maxDepth = maxDepth;
+        this.detectCycles = options.detectCycles;
+    }
+
+    override async *[Symbol.asyncIterator]() {
+        const firstVisit = firstVisits(this.detectCycles);
+        firstVisit(this.root);
+        // nodes are marked as visited once queued, so that no node is queued twice.
+        let level = [this.root];
+        for (let depth = 0; level.length > 0; depth++) {
+            const next: T[] = [];
+            for (const node of level) {
+                yield node;
+                if (depth >= this.maxDepth) continue;
+                for await (const child of AsyncSequence.from(await this.children(node))) {
+                    if (firstVisit(child)) next.push(child);
+                }
+            }
+            level = next;
+        }
+    }
+}
+
+class AsyncRangeSequence<T extends number | bigint> extends AsyncSequence<T> {
+    private readonly range: Sequence<T>;
+    constructor(range: Sequence<T>) {
+        super([], range.sizeHint());
+        this.range = range;
+    }
+
+    override async elementAt(index: number): Promise<T | undefined> {
+        return this.range.elementAt(index);
+    }
+
+    override async *[Symbol.asyncIterator]() {
+        yield* this.range;
+    }
+}
+
+class AsyncAbortableSequence<T> extends AsyncSequence<T> {
+    private readonly signal: AbortSignalLike;
+    constructor(
+        sequence: AsyncSequence<T>,
+        signal: AbortSignalLike
+    ) {
+        super(sequence, sequence.sizeHint());
+        this.signal = signal;
+    }
+
+    override async *[Symbol.asyncIterator]() {
+        const iterator: AsyncIterator<T> = (this._values as AsyncSequence<T>)[Symbol.asyncIterator]();
+        let onAbort!: () => void;
+        const aborted = new Promise<never>((_, reject) => {
+            onAbort = () => reject(this.signal.reason ?? new Utils.AbortError("the sequence was aborted"));
+        });
+        aborted.catch(() => {});
+        if (this.signal.aborted) onAbort();
+        else this.signal.addEventListener("abort", onAbort, { once: true });
+        let exhausted = false;
+        try {
+            while (true) {
+                // nothing more is pulled once aborted, not even while the rejection is pending.
+                if (this.signal.aborted) await aborted;
+                const pull = iterator.next();
+                pull.catch(() => {});
+                const next = await Promise.race([pull, aborted]);
+                if (next.done) {
+                    exhausted = true;
+                    return;
+                }
+                yield next.value;
+            }
+        } finally {
+            this.signal.removeEventListener("abort", onAbort);
+            if (!exhausted) {
+                // an aborted upstream may be stuck on a pull that never settles, so its cleanup
+                // is started but not awaited.
+                const closing = iterator.return?.();
+                if (this.signal.aborted) closing?.catch(() => {});
+                else await closing;
+            }
+        }
+    }
+}
+
+class AsyncCachingSequence<T> extends AsyncSequence<T> {
+    private readonly cache: T[] = [];
+    private iterator: AsyncIterator<T> | undefined;
+    private pending: Promise<void> | undefined;
+    private exhausted = false;
+    private disposed = false;
+    private failure: { error: unknown } | undefined;
+    constructor(sequence: AsyncSequence<T>) {
+        super(sequence, sequence.sizeHint());
+    }
+
+    override sizeHint(): SizeHint {
+        return this.exhausted || this.disposed ? SizeHint.exact(this.cache.length) : this._sizeHint;
+    }
+
+    override async [Utils.asyncDispose](): Promise<void> {
+        this.disposed = true;
+        // the shared iterator outlives the iterations abandoning it, so it is only closed here.
+        const iterator = this.iterator;
+        this.iterator = undefined;
+        if (iterator) await close(iterator, this.pending);
+        await super[Utils.asyncDispose]();
+    }
+
+    override async *[Symbol.asyncIterator]() {
+        for (let index = 0; ; index++) {
+            while (index >= this.cache.length) {
+                if (this.failure) throw this.failure.error;
+                // a disposed source is never reopened, only its stored elements are replayed.
+                if (this.exhausted || this.disposed) return;
+                await (this.pending ??= this.pull());
+            }
+            yield this.cache[index]!;
+        }
+    }
+
+    /**
+     * Pulls the next element into the cache. Only one pull runs at a time, shared by every
+     * iteration waiting for it.
+     */
+    private async pull(): Promise<void> {
+        try {
+            this.iterator ??= (this._values as AsyncSequence<T>)[Symbol.asyncIterator]();
+            const next = await this.iterator.next();
+            // a pull still pending when disposed of is discarded.
+            if (this.disposed) return;
+            if (next.done) {
+                this.exhausted = true;
+                this.iterator = undefined;
+            } else {
+                this.cache.push(next.value);
+            }
+        } catch (error) {
+            this.failure = { error };
+        } finally {
+            this.pending = undefined;
+        }
+    }
+}
+
+class AsyncCatchingSequence<T> extends AsyncSequence<T> {
+    private readonly handler: (error: unknown) => AwaitableIterable<T> | Promise<AwaitableIterable<T>>;
+    constructor(
+        sequence: AsyncSequence<T>,
+        handler: (error: unknown) => AwaitableIterable<T> | Promise<AwaitableIterable<T>>
+    ) {
+        super(sequence, SizeHint.unknown);
+        this.handler = handler;
+    }
+
+    override async *[Symbol.asyncIterator]() {
+        let fallback: AwaitableIterable<T>;
+        // errors thrown into this sequence by its consumer are not this sequence's to handle.
+        let yielding = false;
+        try {
+            for await (const item of this._values as AsyncSequence<T>) {
+                yielding = true;
+                yield item;
+                yielding = false;
+            }
+            return;
+        } catch (error) {
+            if (yielding) throw error;
+            fallback = await this.handler(error);
+        }
+        yield* AsyncSequence.from(fallback);
+    }
+}
+
+class AsyncClosingSequence<T> extends AsyncSequence<T> {
+    private readonly callback: () => void | Promise<void>;
+    constructor(
+        sequence: AsyncSequence<T>,
+        callback: () => void | Promise<void>
+    ) {
+        super(sequence, sequence.sizeHint());
+        this.callback = callback;
+    }
+
+    override async *[Symbol.asyncIterator]() {
+        try {
+            yield* this._values as AsyncSequence<T>;
+        } finally {
+            await this.callback();
+        }
+    }
+}
+
+class AsyncCombineLatestSequence<R extends unknown[]> extends AsyncSequence<R> {
+    private readonly sequences: AsyncSequence<any>[];
+    constructor(sequences: AsyncSequence<any>[]) {
+        // every element emitted by a source emits a combination, once all of them have emitted.
+        super([], SizeHint.between(0, sequences.reduce((sum, sequence) => sum + sequence.sizeHint().upper, 0)));
+        this.sequences = sequences;
+    }
+
+    override async *[Symbol.asyncIterator]() {
+        const iterators: AsyncIterator<unknown>[] = this.sequences.map(sequence => sequence[Symbol.asyncIterator]());
+        const pending = new Map<number, Promise<[number, IteratorResult<unknown>]>>();
+        const latest = new Array<unknown>(iterators.length);
+        const seen = new Array<boolean>(iterators.length).fill(false);
+        // sources that have not ended yet.
+        const open = new Set(iterators.keys());
+        let missing = iterators.length;
+        try {
+            iterators.forEach((_, index) => pullTagged(iterators, pending, index));
+            while (pending.size > 0) {
+                const [index, result] = await Promise.race(pending.values());
+                pending.delete(index);
+                if (result.done) {
+                    open.delete(index);
+                    if (!seen[index]) return;
+                    continue;
+                }
+                latest[index] = result.value;
+                if (!seen[index]) {
+                    seen[index] = true;
+                    missing--;
+                }
+                if (missing === 0) yield [...latest] as R;
+                pullTagged(iterators, pending, index);
+            }
+        } finally {
+            await Promise.all([...open].map(index => close(iterators[index]!, pending.get(index))));
+        }
+    }
+
+    override async [Utils.asyncDispose](): Promise<void> {
+        await Promise.all(this.sequences.map(sequence => sequence[Utils.asyncDispose]()));
+    }
+}
+
+class AsyncConcatSequence<T> extends AsyncSequence<T> {
+    private readonly other: AsyncSequence<T>;
+    constructor(
+        sequence: AsyncSequence<T>,
+        other: AsyncSequence<T>
+    ) {
+        super(sequence, sequence.sizeHint().plus(other.sizeHint()));
+        this.other = other;
+    }
+
+    override async *[Symbol.asyncIterator]() {
+        yield* this._values;
+        yield* this.other["_values"];
+    }
+
+    override async [Utils.asyncDispose](): Promise<void> {
+        await super[Utils.asyncDispose]();
+        await this.other[Utils.asyncDispose]();
+    }
+}
+
+/**
+ * Marks results dropped by an AsyncConcurrentMapSequence or a fused stage, such as the ones 
+ * failing a predicate.
+ */
+const skipped: unique symbol = Symbol("skipped");
+
+/**
+ * Marks the end of a fused iteration, once a stage cannot let any more elements through.
+ */
+const stopped: unique symbol = Symbol("stopped");
+
+/**
+ * State shared by the stages of a single fused iteration. Stages set `last` to end the iteration
+ * right after the current element, so that no extra element is pulled.
+ */
+interface FusionState {
+    last: boolean;
+}
+
+/**
+ * An intermediate operation that can be fused with its neighbours into a single loop. `create`
+ * is called once per iteration, returning the step that processes every element: it returns (or
+ * resolves to) the element to pass downstream, `skipped` to drop it, or `stopped` to end the
+ * iteration.
+ */
+interface AsyncStage {
+    size(upstream: SizeHint): SizeHint;
+    create(state: FusionState): (value: any) => unknown;
+}
+
+function dropStage(n: number): AsyncStage {
+    if (Number.isNaN(n)) {
+        throw new Utils.IllegalArgumentError("drop count must be a number");
+    }
+    // fractional counts behave as the next integer, as the counting in create() does.
+    const count = Math.max(0, Math.ceil(n));
+    return {
+        size: upstream => upstream.minus(count),
+        create: () => {
+            let dropped = 0;
+            return value => dropped++ >= n ? value : skipped;
+        }
+    };
+}
+
+function dropWhileStage(predicate: (item: any, index?: number) => boolean | Promise<boolean>): AsyncStage {
+    return {
+        size: upstream => upstream.orFewer(),
+        create: () => {
+            let yielding = false;
+            let index = 0;
+            return async value => {
+                if (!(await predicate(value, index++))) yielding = true;
+                return yielding ? value : skipped;
+            };
+        }
+    };
+}
+
+function filterStage(predicate: (item: any, index?: number) => boolean | Promise<boolean>): AsyncStage {
+    return {
+        size: upstream => upstream.orFewer(),
+        create: () => {
+            let index = 0;
+            return async value => (await predicate(value, index++)) ? value : skipped;
+        }
+    };
+}
+
+function mapStage(transform: (item: any, index?: number) => unknown): AsyncStage {
+    return {
+        size: upstream => upstream,
+        create: () => {
+            let index = 0;
+            return value => transform(value, index++);
+        }
+    };
+}
+
+function mapNotNullStage(transform: (item: any, index?: number) => unknown): AsyncStage {
+    return {
+        size: upstream => upstream.orFewer(),
+        create: () => {
+            let index = 0;
+            return async value => (await transform(value, index++)) ?? skipped;
+        }
+    };
+}
+
+function onEachStage(action: (item: any, index?: number) => void | Promise<void>): AsyncStage {
+    return {
+        size: upstream => upstream,
+        create: () => {
+            let index = 0;
+            return async value => {
+                await action(value, index++);
+                return value;
+            };
+        }
+    };
+}
+
+function takeStage(n: number): AsyncStage {
+    if (Number.isNaN(n)) {
+        throw new Utils.IllegalArgumentError("take count must be a number");
+    }
+    const count = Math.max(0, Math.ceil(n));
+    return {
+        size: upstream => upstream.atMost(count),
+        create: state => {
+            if (n <= 0) state.last = true;
+            let taken = 0;
+            return value => {
+                // stopping right after the last element, instead of on the next one, keeps an
+                // extra element from being pulled from upstream.
+                if (++taken >= n) state.last = true;
+                return value;
+            };
+        }
+    };
+}
+
+function takeWhileStage(predicate: (item: any, index?: number) => boolean | Promise<boolean>): AsyncStage {
+    return {
+        size: upstream => upstream.orFewer(),
+        create: () => {
+            let index = 0;
+            return async value => (await predicate(value, index++)) ? value : stopped;
+        }
+    };
+}
+
+const timedOut: unique symbol = Symbol("timedOut");
+
+/**
+ * Resolves to whichever settles first: `pull`, or a timer of `ms` milliseconds on `scheduler`.
+ */
+async function raceTimer<T>(pull: Promise<T>, ms: number, scheduler: Scheduler): Promise<T | typeof timedOut> {
+    const [timer, cancel] = sleep(scheduler, ms);
+    try {
+        return await Promise.race([pull, timer.then((): typeof timedOut => timedOut)]);
+    } finally {
+        cancel();
+    }
+}
+
+/**
+ * Pulls the next element of the iterator at `index`, tracking the pull in `pending`. Results are
+ * tagged with the index they came from, so pulls from several iterators can be raced.
+ */
+function pullTagged<T>(
+    iterators: AsyncIterator<T>[], 
+    pending: Map<number, Promise<[number, IteratorResult<T>]>>, 
+    index: number
+): void {
+    pending.set(index, iterators[index]!.next().then(result => [index, result]));
+}
+
+/**
+ * A single iteration over a sequence, whose elements are delivered to every subscribed consumer.
+ * Each consumer reads from its own queue, and elements are only pulled when a consumer runs out 
+ * of them, one pull at a time.
+ */
+class Multicast<T> {
+    private readonly source: AsyncSequence<T>;
+    private readonly replay: number;
+    private readonly persistent: boolean;
+    private readonly maxBuffered: number;
+    private readonly queues = new Set<T[]>();
+    private readonly history: T[] = [];
+    private iterator: AsyncIterator<T> | undefined;
+    private pending: Promise<void> | undefined;
+    private ended: { failure?: { error: unknown } } | undefined;
+    private waiting: (() => void)[] = [];
+    constructor(
+        source: AsyncSequence<T>,
+        replay: number,
+        persistent: boolean,
+        maxBuffered: number
+    ) {
+        this.source = source;
+        this.replay = replay;
+        this.persistent = persistent;
+        this.maxBuffered = maxBuffered;
+    }
+
+    /**
+     * Returns the buffer limit set by `options`, throwing an {@link Utils.IllegalArgumentError} if
+     * it is invalid.
+     */
+    public static maxBuffered(options: SharingOptions | undefined): number {
+        const maxBuffered = options?.maxBuffered ?? Infinity;
+        if (maxBuffered < 1) {
+            throw new Utils.IllegalArgumentError("maxBuffered must be greater than 0");
+        }
+        return maxBuffered;
+    }
+
+    /**
+     * Whether this iteration is over and cannot deliver new elements anymore.
+     */
+    public get closed(): boolean {
+        return this.ended !== undefined;
+    }
+
+    /**
+     * Subscribes a new consumer, returning its queue.
+     */
+    public subscribe(): T[] {
+        const queue = this.history.slice();
+        this.queues.add(queue);
+        return queue;
+    }
+
+    /**
+     * Unsubscribes the consumer reading from `queue`. Unless this iteration is persistent, it is 
+     * closed as soon as no consumer is left.
+     */
+    public async unsubscribe(queue: T[]): Promise<void> {
+        if (!this.queues.delete(queue)) return;
+        this.wake();
+        if (this.queues.size === 0 && !this.persistent) await this.close();
+    }
+
+    /**
+     * Closes this iteration, closing the iterator behind it.
+     */
+    public async close(): Promise<void> {
+        this.ended ??= {};
+        const iterator = this.iterator;
+        this.iterator = undefined;
+        if (iterator) await close(iterator, this.pending);
+    }
+
+    public async next(queue: T[]): Promise<IteratorResult<T>> {
+        while (true) {
+            if (queue.length > 0) {
+                const value = queue.shift()!;
+                this.wake();
+                return { value, done: false };
+            }
+            if (this.ended) {
+                if (this.ended.failure) throw this.ended.failure.error;
+                return { value: undefined, done: true };
+            }
+            if (this.pending) {
+                await this.pending;
+            } else if ([...this.queues].some(other => other.length >= this.maxBuffered)) {
+                await new Promise<void>(resolve => this.waiting.push(resolve));
+            } else {
+                await (this.pending = this.pull());
+            }
+        }
+    }
+
+    private async pull(): Promise<void> {
+        try {
+            this.iterator ??= this.source[Symbol.asyncIterator]();
+            const next = await this.iterator.next();
+            if (this.ended) return;
+            if (next.done) {
+                this.ended = {};
+                this.iterator = undefined;
+                return;
+            }
+            for (const queue of this.queues) queue.push(next.value);
+            if (this.replay > 0) {
+                this.history.push(next.value);
+                if (this.history.length > this.replay) this.history.shift();
+            }
+        } catch (error) {
+            this.ended ??= { failure: { error } };
+        } finally {
+            this.pending = undefined;
+        }
+    }
+
+    private wake(): void {
+        const waiting = this.waiting;
+        this.waiting = [];
+        for (const resolve of waiting) resolve();
+    }
+}
+
+/**
+ * Closes `iterator`. If a pull is still pending, the upstream may be stuck on it indefinitely, so
+ * its cleanup is started but not awaited.
+ */
+async function close<T>(iterator: AsyncIterator<T>, pending: Promise<unknown> | undefined): Promise<void> {
+    if (!pending) {
+        await iterator.return?.();
+        return;
+    }
+    pending.catch(() => {});
+    iterator.return?.()?.catch(() => {});
+}
+
+class AsyncConcurrentMapSequence<T, U> extends AsyncSequence<U> {
+    private readonly transform: (item: T, index?: number) => U | typeof skipped | Promise<U | typeof skipped>;
+    private readonly concurrency: number;
+    private readonly ordered: boolean;
+    constructor(
+        sequence: AsyncSequence<T>,
+        transform: (item: T, index?: number) => U | typeof skipped | Promise<U | typeof skipped>,
+        options: ConcurrencyOptions,
+        size: SizeHint
+    ) {
+        if (!(options.concurrency >= 1)) {
+            throw new Utils.IllegalArgumentError("concurrency must be at least 1");
+        }
+        super(sequence as any, size);
+        this.transform = transform;
+        this.concurrency = options.concurrency;
+        this.ordered = options.ordered ?? true;
+    }
+
+    override async *[Symbol.asyncIterator]() {
+        const iterator: AsyncIterator<T> = (this._values as any as AsyncSequence<T>)[Symbol.asyncIterator]();
+        // every pending result is tagged with an id, so the unordered mode can tell which one won
+        // the race. In ordered mode, the map's insertion order is the source order.
+        const pending = new Map<number, Promise<[number, U | typeof skipped]>>();
+        let index = 0;
+        let exhausted = false;
+        try {
+            while (true) {
+                while (!exhausted && pending.size < this.concurrency) {
+                    const next = await iterator.next();
+                    if (next.done) {
+                        exhausted = true;
+                        break;
+                    }
+                    const id = index++;
+                    const result = Promise.resolve()
+                        .then(() => this.transform(next.value, id))
+                        .then(value => [id, value] as [number, U | typeof skipped]);
+                    // rejections are observed once the result is awaited; this only keeps them
+                    // from being reported as unhandled while they wait in the buffer.
+                    result.catch(() => {});
+                    pending.set(id, result);
+                }
+                if (pending.size === 0) return;
+                const [id, value] = this.ordered 
+                    ? await pending.values().next().value as [number, U | typeof skipped]
+                    : await Promise.race(pending.values());
+                pending.delete(id);
+                if (value !== skipped) yield value;
+            }
+        } finally {
+            await iterator.return?.();
+        }
+    }
+}
+
+class AsyncConstrainedSequence<T> extends AsyncSequence<T> {
+    private readonly iterator: AwaitableIterator<T>;
+    private iterated: boolean = false;
+    constructor(iterator: AwaitableIterator<T>, size: SizeHint) {
+        super([], size);
+        this.iterator = iterator;
+    }
+
+    /**
+     * Releases the iterator behind this sequence, through its own disposal if it has one (be it 
+     * asynchronous or not), or by closing it otherwise. The sequence cannot be iterated afterwards.
+     */
+    override async [Utils.asyncDispose](): Promise<void> {
+        this.iterated = true;
+        if (Utils.isAsyncDisposable(this.iterator)) await this.iterator[Utils.asyncDispose]();
+        else if (Utils.isDisposable(this.iterator)) this.iterator[Utils.dispose]();
+        else await this.iterator.return?.();
+    }
+
+    override async *[Symbol.asyncIterator]() {
+        if (this.iterated) {
+            throw new Utils.ConsumedError("attempted to iterate a constrained sequence more than once");
+        }
+        this.iterated = true;
+        // whether the iterator has to be closed if this generator is abandoned. Iterators whose
+        // next() or throw() threw, or that are done, are already closed by protocol.
+        let active = false;
+        try {
+            let next = await this.iterator.next();
+            while (!next.done) {
+                active = true;
+                let thrown: { error: unknown } | undefined;
+                try {
+                    yield next.value;
+                } catch (error) {
+                    thrown = { error };
+                }
+                if (thrown && !this.iterator.throw) throw thrown.error;
+                active = false;
+                next = await (thrown ? this.iterator.throw!(thrown.error) : this.iterator.next());
+            }
+        } finally {
+            if (active) await this.iterator.return?.();
+        }
+    }
+}
+
+class AsyncDistinctSequence<T, K> extends AsyncSequence<T> {
+    private readonly selector: (item: T) => K | Promise<K>;
+    private readonly equality: KeyEquality<K> | undefined;
+    constructor(
+        sequence: AsyncSequence<T>,
+        selector: (item: T) => K | Promise<K>,
+        equality: KeyEquality<K> | undefined
+    ) {
+        // at least one element is kept out of a non-empty sequence.
+        const hint = sequence.sizeHint();
+        super(sequence, SizeHint.between(Math.min(1, hint.lower), hint.upper));
+        this.selector = selector;
+        this.equality = equality;
+    }
+
+    override async *[Symbol.asyncIterator]() {
+        const seen = new KeySet(this.equality);
+        for await (const value of this._values) {
+            if (seen.add(await this.selector(value))) yield value;
+        }
+    }
+}
+
+/**
+ * Groups the elements of `sequence` by the keys generated by `selector`, which unlike the ones
+ * {@link AsyncSequence.groupBy} takes may be asynchronous.
+ */
+async function lookupOf<I, K>(sequence: AsyncSequence<I>, selector: (item: I) => K | Promise<K>): Promise<Map<K, I[]>> {
+    const lookup = new Map<K, I[]>();
+    for await (const item of sequence) {
+        const key = await selector(item);
+        const group = lookup.get(key);
+        if (group) group.push(item);
+        else lookup.set(key, [item]);
+    }
+    return lookup;
+}
+
+class AsyncJoiningSequence<T, I, K, R> extends AsyncSequence<R> {
+    private readonly inner: AsyncSequence<I>;
+    private readonly outerKey: (item: T) => K | Promise<K>;
+    private readonly innerKey: (item: I) => K | Promise<K>;
+    private readonly combine: (outer: T | undefined, inner: I | undefined) => R | Promise<R>;
+    private readonly keepOuter: boolean;
+    private readonly keepInner: boolean;
+    constructor(
+        sequence: AsyncSequence<T>,
+        inner: AsyncSequence<I>,
+        outerKey: (item: T) => K | Promise<K>,
+        innerKey: (item: I) => K | Promise<K>,
+        combine: (outer: T | undefined, inner: I | undefined) => R | Promise<R>,
+        keepOuter: boolean,
+        keepInner: boolean
+    ) {
+        // every element of this sequence is kept at least once by outer joins.
+        super(sequence as any, keepOuter ? SizeHint.between(sequence.sizeHint().lower, Infinity) : SizeHint.unknown);
+        this.inner = inner;
+        this.outerKey = outerKey;
+        this.innerKey = innerKey;
+        this.combine = combine;
+        this.keepOuter = keepOuter;
+        this.keepInner = keepInner;
+    }
+
+    override async *[Symbol.asyncIterator]() {
+        const lookup = await lookupOf(this.inner, this.innerKey);
+        const matched = new Set<K>();
+        for await (const item of this._values as any as AsyncIterable<T>) {
+            const key = await this.outerKey(item);
+            const group = lookup.get(key);
+            if (group) {
+                if (this.keepInner) matched.add(key);
+                for (const other of group) yield await this.combine(item, other);
+            } else if (this.keepOuter) {
+                yield await this.combine(item, undefined);
+            }
+        }
+        if (!this.keepInner) return;
+        for (const [key, group] of lookup) {
+            if (matched.has(key)) continue;
+            for (const other of group) yield await this.combine(undefined, other);
+        }
+    }
+}
+
+class AsyncGroupJoiningSequence<T, I, K, R> extends AsyncSequence<R> {
+    private readonly inner: AsyncSequence<I>;
+    private readonly outerKey: (item: T) => K | Promise<K>;
+    private readonly innerKey: (item: I) => K | Promise<K>;
+    private readonly combine: (outer: T, inners: I[]) => R | Promise<R>;
+    constructor(
+        sequence: AsyncSequence<T>,
+        inner: AsyncSequence<I>,
+        outerKey: (item: T) => K | Promise<K>,
+        innerKey: (item: I) => K | Promise<K>,
+        combine: (outer: T, inners: I[]) => R | Promise<R>
+    ) {
+        super(sequence as any, sequence.sizeHint());
+        this.inner = inner;
+        this.outerKey = outerKey;
+        this.innerKey = innerKey;
+        this.combine = combine;
+    }
+
+    override async *[Symbol.asyncIterator]() {
+        const lookup = await lookupOf(this.inner, this.innerKey);
+        for await (const item of this._values as any as AsyncIterable<T>) {
+            yield await this.combine(item, lookup.get(await this.outerKey(item)) ?? []);
+        }
+    }
+}
+
+class AsyncKeyFilteringSequence<T, K> extends AsyncSequence<T> {
+    private readonly other: AsyncSequence<T>;
+    private readonly selector: (item: T) => K | Promise<K>;
+    private readonly equality: KeyEquality<K> | undefined;
+    private readonly retain: boolean;
+    constructor(
+        sequence: AsyncSequence<T>,
+        other: AsyncSequence<T>,
+        selector: (item: T) => K | Promise<K>,
+        equality: KeyEquality<K> | undefined,
+        retain: boolean
+    ) {
+        // an intersection keeps at most one element per element of the other sequence.
+        const hint = sequence.sizeHint().orFewer();
+        super(sequence, retain ? hint.min(other.sizeHint()) : hint);
+        this.other = other;
+        this.selector = selector;
+        this.equality = equality;
+        this.retain = retain;
+    }
+
+    override async *[Symbol.asyncIterator]() {
+        const index = new KeySet(this.equality);
+        for await (const value of this.other) {
+            index.add(await this.selector(value));
+        }
+        const seen = new KeySet(this.equality);
+        for await (const value of this._values as AsyncSequence<T>) {
+            const key = await this.selector(value);
+            if (index.has(key) === this.retain && seen.add(key)) yield value;
+        }
     }
+}
 
-    /**
-     * Returns a new {@link AsyncSequence} dropping all elements after the first `n`.
-     * This operation is intermediate and stateful.\
-     * \
-     * The sequence created retains size information.
-     */
-    public take(n: number): AsyncSequence<T> {
-        return new AsyncTakeSequence(this, n);
+class AsyncSymmetricDifferenceSequence<T, K> extends AsyncSequence<T> {
+    private readonly other: AsyncSequence<T>;
+    private readonly selector: (item: T) => K | Promise<K>;
+    private readonly equality: KeyEquality<K> | undefined;
+    constructor(
+        sequence: AsyncSequence<T>,
+        other: AsyncSequence<T>,
+        selector: (item: T) => K | Promise<K>,
+        equality: KeyEquality<K> | undefined
+    ) {
+        super(sequence, sequence.sizeHint().plus(other.sizeHint()).orFewer());
+        this.other = other;
+        this.selector = selector;
+        this.equality = equality;
     }
 
-    /**
-     * Returns a new {@link AsyncSequence} dropping all elements after an asynchronous predicate 
-     * stops fulfilling for the first time. This operation is intermediate and stateful.\
-     * \
-     * The sequence created is non-sized.
-     */
-    public takeWhile(predicate: (item: T) => boolean | Promise<boolean>): AsyncSequence<T>;
-    public takeWhile(predicate: (item: T, index?: number) => boolean | Promise<boolean>): AsyncSequence<T>;
-    public takeWhile(predicate: (item: T, index?: number) => boolean | Promise<boolean>): AsyncSequence<T> {
-        return new AsyncTakeWhileSequence(this, predicate);
+    override async *[Symbol.asyncIterator]() {
+        // the other sequence is buffered while indexed, so that it is only iterated once.
+        const others: [T, K][] = [];
+        const index = new KeySet(this.equality);
+        for await (const value of this.other) {
+            const key = await this.selector(value);
+            others.push([value, key]);
+            index.add(key);
+        }
+        const seen = new KeySet(this.equality);
+        for await (const value of this._values as AsyncSequence<T>) {
+            const key = await this.selector(value);
+            if (seen.add(key) && !index.has(key)) yield value;
+        }
+        for (const [value, key] of others) {
+            if (seen.add(key)) yield value;
+        }
     }
+}
 
-    /**
-     * Returns a promise resolving to an array containing the elements of this sequence. 
-     * This is a terminal operation.
-     */
-    public async toArray(): Promise<T[]> {
-        return this.fold<T[]>([], (acc, curr) => { acc.push(curr); return acc; });
+class AsyncUnionSequence<T, K> extends AsyncSequence<T> {
+    private readonly other: AsyncSequence<T>;
+    private readonly selector: (item: T) => K | Promise<K>;
+    private readonly equality: KeyEquality<K> | undefined;
+    constructor(
+        sequence: AsyncSequence<T>,
+        other: AsyncSequence<T>,
+        selector: (item: T) => K | Promise<K>,
+        equality: KeyEquality<K> | undefined
+    ) {
+        // at least one element is kept out of a non-empty union.
+        const hint = sequence.sizeHint().plus(other.sizeHint());
+        super(sequence, SizeHint.between(Math.min(1, hint.lower), hint.upper));
+        this.other = other;
+        this.selector = selector;
+        this.equality = equality;
     }
 
-    /**
-     * Returns a string representation of this sequence and its estimated size, which could be one
-     * of the following:
-     * - 0: Sequence (empty)
-     * - an integer: Sequence (5)
-     * - unknown size: Sequence (unknown)
-     */
-    public toString(): string {
-        if (this._size === 0) return "AsyncSequence (empty)";
-        let sizeString = this.size() < 0
-            ? "unknown" : this.size().toString();
-        return `AsyncSquence (${sizeString})`;
+    override async *[Symbol.asyncIterator]() {
+        const seen = new KeySet(this.equality);
+        for await (const value of this._values as AsyncSequence<T>) {
+            if (seen.add(await this.selector(value))) yield value;
+        }
+        for await (const value of this.other) {
+            if (seen.add(await this.selector(value))) yield value;
+        }
     }
+}
 
-    /**
-     * Returns an asynchronous generator yielding all values contained by this sequence.
-     */
-    async *[Symbol.asyncIterator](): AsyncGenerator<T> {
-        for await (const value of this._values) yield value;
+/**
+ * Flattened sequences can only be known to be empty if their upstream sequence is.
+ */
+function flattenedHint(sequence: AsyncSequence<any>): SizeHint {
+    return sequence.sizeHint().upper === 0 ? SizeHint.exact(0) : SizeHint.unknown;
+}
+
+class AsyncFlatteningSequence<T> extends AsyncSequence<T> {
+    constructor(sequence: AsyncSequence<AsyncSequence<T> | Sequence<T>>) {
+        super(sequence as any, flattenedHint(sequence));
     }
 
-    /**
-     * ToString tag.
-     */
-    [Symbol.toStringTag](): string { return "AsyncSequence"; }
+    override async *[Symbol.asyncIterator]() {
+        for await (const value of this._values) {
+            yield* value as any;
+        }
+    }
 }
 
-class AsyncGeneratorSequence<T> extends AsyncSequence<T> {
-    private readonly initial: Promise<T>;
-    private readonly nextValue: (current: T) => T | Promise<T> | null
+class AsyncFlatmappingSequence<T, U> extends AsyncSequence<U> {
+    private readonly transform: (item: T, index?: number) => AsyncSequence<U> | Sequence<U> | Promise<AsyncSequence<U> | Sequence<U>>;
     constructor(
-        initial: Promise<T>,
-        nextValue: (current: T) => T | Promise<T> | null 
+        sequence: AsyncSequence<T>,
+        transform: (item: T, index?: number) => AsyncSequence<U> | Sequence<U> | Promise<AsyncSequence<U> | Sequence<U>>
     ) {
-        super([], -1);
-        this.initial = initial;
-        this.nextValue = nextValue;
+        super(sequence as any, flattenedHint(sequence));
+        this.transform = transform;
     }
 
     override async *[Symbol.asyncIterator]() {
-        let current: T | null = await this.initial;
-        yield current;
-        while (current !== null) {
-            if ((current = await this.nextValue(current)) != null) {
-                yield current;
+        let index = 0;
+        for await (const value of this._values) {
+            yield* await this.transform(value as any, index++);
+        }
+    }
+}
+
+class AsyncDebounceSequence<T> extends AsyncSequence<T> {
+    private readonly ms: number;
+    private readonly scheduler: Scheduler;
+    constructor(
+        sequence: AsyncSequence<T>,
+        ms: number,
+        scheduler: Scheduler
+    ) {
+        const hint = sequence.sizeHint();
+        super(sequence, SizeHint.between(Math.min(1, hint.lower), hint.upper));
+        this.ms = ms;
+        this.scheduler = scheduler;
+    }
+
+    override async *[Symbol.asyncIterator]() {
+        const iterator: AsyncIterator<T> = (this._values as AsyncSequence<T>)[Symbol.asyncIterator]();
+        let latest: { value: T } | undefined;
+        let dueAt = 0;
+        let pending: Promise<IteratorResult<T>> | undefined;
+        try {
+            while (true) {
+                pending ??= iterator.next();
+                const result = latest
+                    ? await raceTimer(pending, dueAt - this.scheduler.now(), this.scheduler)
+                    : await pending;
+                if (result === timedOut) {
+                    const { value } = latest!;
+                    latest = undefined;
+                    yield value;
+                    continue;
+                }
+                pending = undefined;
+                if (result.done) break;
+                latest = { value: result.value };
+                dueAt = this.scheduler.now() + this.ms;
             }
+            if (latest) yield latest.value;
+        } finally {
+            await close(iterator, pending);
         }
     }
 }
 
-class AsyncConcatSequence<T> extends AsyncSequence<T> {
-    private readonly other: AsyncSequence<T>;
+class AsyncDelaySequence<T> extends AsyncSequence<T> {
+    private readonly ms: number;
+    private readonly scheduler: Scheduler;
     constructor(
         sequence: AsyncSequence<T>,
-        other: AsyncSequence<T>
+        ms: number,
+        scheduler: Scheduler
     ) {
-        if (sequence.size() < 0 || other.size() < 0) { super(sequence, -1); }
-        else { super(sequence, sequence.size() + other.size()); }
-        this.other = other;
+        super(sequence, sequence.sizeHint());
+        this.ms = ms;
+        this.scheduler = scheduler;
     }
 
     override async *[Symbol.asyncIterator]() {
-        yield* this._values;
-        yield* this.other["_values"];
+        for await (const item of this._values as AsyncSequence<T>) {
+            await sleep(this.scheduler, this.ms)[0];
+            yield item;
+        }
     }
 }
 
-class AsyncConstrainedSequence<T> extends AsyncSequence<T> {
-    private readonly iterator: AwaitableIterator<T>;
-    private iterated: boolean = false;
-    constructor(iterator: AwaitableIterator<T>, size: number) {
-        super([], size);
-        this.iterator = iterator;
+class AsyncIfEmptySequence<T> extends AsyncSequence<T> {
+    private readonly fallback: () => AwaitableIterable<T> | Promise<AwaitableIterable<T>>;
+    constructor(
+        sequence: AsyncSequence<T>,
+        fallback: () => AwaitableIterable<T> | Promise<AwaitableIterable<T>>
+    ) {
+        super(sequence, sequence.sizeHint().lower > 0 ? sequence.sizeHint() : SizeHint.unknown);
+        this.fallback = fallback;
     }
 
     override async *[Symbol.asyncIterator]() {
-        if (this.iterated) {
-            throw new Utils.IllegalStateError("attempted to iterate a constrained sequence more than once");
+        let empty = true;
+        for await (const item of this._values as AsyncSequence<T>) {
+            empty = false;
+            yield item;
         }
-        this.iterated = true;
-        let next = await this.iterator.next();
-        while (!next.done) {
+        if (empty) yield* AsyncSequence.from(await this.fallback());
+    }
+}
+
+class AsyncMapCatchingSequence<T, U> extends AsyncSequence<U> {
+    private readonly transform: (item: T, index?: number) => U | Promise<U>;
+    private readonly recover: ((error: unknown, item: T, index: number) => U | Promise<U>) | undefined;
+    constructor(
+        sequence: AsyncSequence<T>,
+        transform: (item: T, index?: number) => U | Promise<U>,
+        recover: ((error: unknown, item: T, index: number) => U | Promise<U>) | undefined
+    ) {
+        super(sequence as any, recover ? sequence.sizeHint() : sequence.sizeHint().orFewer());
+        this.transform = transform;
+        this.recover = recover;
+    }
+
+    override async *[Symbol.asyncIterator]() {
+        let index = 0;
+        for await (const item of this._values as AsyncSequence<T>) {
+            const current = index++;
+            let result: U;
             try {
-                yield next.value;
-            } finally {
-                next = await this.iterator.next();
+                result = await this.transform(item, current);
+            } catch (error) {
+                if (!this.recover) continue;
+                result = await this.recover(error, item, current);
             }
+            yield result;
         }
     }
 }
 
-class AsyncDropSequence<T> extends AsyncSequence<T> {
-    private readonly n: number;
+class AsyncMergeSequence<T> extends AsyncSequence<T> {
+    private readonly sequences: AsyncSequence<T>[];
+    private readonly race: boolean;
     constructor(
-        sequence: AsyncSequence<T>,
-        n: number
+        sequences: AsyncSequence<T>[],
+        race: boolean
     ) {
-        if (sequence.size() < 0) { super(sequence, -1); }
-        else { super(sequence, sequence.size() - n < 0 ? 0 : sequence.size() - n); }
-        this.n = n;
+        const hints = sequences.map(sequence => sequence.sizeHint());
+        super([], race
+            // the race is won by the first sequence to emit, which could be any of them.
+            ? SizeHint.between(0, hints.reduce((max, hint) => Math.max(max, hint.upper), 0))
+            : hints.reduce((sum, hint) => sum.plus(hint), SizeHint.exact(0)));
+        this.sequences = sequences;
+        this.race = race;
     }
 
     override async *[Symbol.asyncIterator]() {
-        let dropped = 0;
-        for await (const value of this._values) {
-            if (dropped++ >= this.n) {
-                yield value;
+        const iterators: AsyncIterator<T>[] = this.sequences.map(sequence => sequence[Symbol.asyncIterator]());
+        const pending = new Map<number, Promise<[number, IteratorResult<T>]>>();
+        // sources that have neither ended nor been closed yet.
+        const open = new Set(iterators.keys());
+        let decided = !this.race;
+        try {
+            iterators.forEach((_, index) => pullTagged(iterators, pending, index));
+            while (pending.size > 0) {
+                const [index, result] = await Promise.race(pending.values());
+                pending.delete(index);
+                if (result.done) {
+                    open.delete(index);
+                    continue;
+                }
+                if (!decided) {
+                    decided = true;
+                    const losers = [...open].filter(loser => loser !== index);
+                    await Promise.all(losers.map(loser => {
+                        const pull = pending.get(loser);
+                        pending.delete(loser);
+                        open.delete(loser);
+                        return close(iterators[loser]!, pull);
+                    }));
+                }
+                yield result.value;
+                pullTagged(iterators, pending, index);
             }
+        } finally {
+            await Promise.all([...open].map(index => close(iterators[index]!, pending.get(index))));
         }
     }
+
+    override async [Utils.asyncDispose](): Promise<void> {
+        await Promise.all(this.sequences.map(sequence => sequence[Utils.asyncDispose]()));
+    }
 }
 
-class AsyncDropWhileSequence<T> extends AsyncSequence<T> {
-    private readonly predicate: (item: T, index?: number) => boolean | Promise<boolean>;
+class AsyncRetrySequence<T> extends AsyncSequence<T> {
+    private readonly attempts: number;
+    private readonly backoff: (attempt: number) => number;
+    private readonly shouldRetry: (error: unknown, attempt: number) => boolean | Promise<boolean>;
+    private readonly scheduler: Scheduler;
     constructor(
         sequence: AsyncSequence<T>,
-        predicate: (item: T, index?: number) => boolean | Promise<boolean>
+        options: RetryOptions
     ) {
-        super(sequence, -1);
-        this.predicate = predicate;
+        const { attempts = 3, backoff = 0, shouldRetry = () => true, scheduler = SystemScheduler.instance } = options;
+        if (attempts < 1) {
+            throw new Utils.IllegalArgumentError("attempts must be greater than 0");
+        }
+        super(sequence, SizeHint.unknown);
+        this.attempts = attempts;
+        this.backoff = typeof backoff === "number" ? () => backoff : backoff;
+        this.shouldRetry = shouldRetry;
+        this.scheduler = scheduler;
     }
 
     override async *[Symbol.asyncIterator]() {
+        let failed = 0;
         let yielding = false;
-        let index = 0;
-        for await (const value of this._values) {
-            if (!(await this.predicate(value, index++))) yielding = true;
-            if (yielding) yield value;
+        let last: unknown;
+        while (true) {
+            let started = false;
+            try {
+                for await (const item of this._values as AsyncSequence<T>) {
+                    started = yielding = true;
+                    yield item;
+                    yielding = false;
+                }
+                return;
+            } catch (error) {
+                if (yielding) throw error;
+                // sequences that can only be iterated once refuse every new attempt.
+                if (failed > 0 && !started && error instanceof Utils.ConsumedError) throw last;
+                last = error;
+                failed++;
+                if (failed >= this.attempts || !(await this.shouldRetry(error, failed))) throw error;
+            }
+            await sleep(this.scheduler, this.backoff(failed))[0];
         }
     }
 }
 
-class AsyncFilteringSequence<T> extends AsyncSequence<T> {
-    private readonly predicate: (item: T, index?: number) => boolean | Promise<boolean>;
+class AsyncRunningFoldSequence<T, R> extends AsyncSequence<R> {
+    private readonly initial: R;
+    private readonly operation: (accumulator: R, current: T, index?: number) => R | Promise<R>;
     constructor(
         sequence: AsyncSequence<T>,
-        predicate: (item: T, index?: number) => boolean | Promise<boolean>
+        initial: R,
+        operation: (accumulator: R, current: T, index?: number) => R | Promise<R>
     ) {
-        super(sequence, -1);
-        this.predicate = predicate;
+        super(sequence as any, sequence.sizeHint().plus(SizeHint.exact(1)));
+        this.initial = initial;
+        this.operation = operation;
     }
 
     override async *[Symbol.asyncIterator]() {
+        let accumulator = this.initial;
         let index = 0;
-        for await (const value of this._values) {
-            if (await this.predicate(value, index++)) yield value;
+        yield accumulator;
+        for await (const item of this._values as AsyncSequence<T>) {
+            yield accumulator = await this.operation(accumulator, item, index++);
         }
     }
 }
 
-class AsyncFlatteningSequence<T> extends AsyncSequence<T> {
-    constructor(sequence: AsyncSequence<AsyncSequence<T>>) {
-        super(sequence as any, -1);
+class AsyncRunningReduceSequence<T, R extends T> extends AsyncSequence<R> {
+    private readonly operation: (accumulator: R, current: T, index?: number) => R | Promise<R>;
+    constructor(
+        sequence: AsyncSequence<T>,
+        operation: (accumulator: R, current: T, index?: number) => R | Promise<R>
+    ) {
+        super(sequence as any, sequence.sizeHint());
+        this.operation = operation;
     }
 
     override async *[Symbol.asyncIterator]() {
-        for await (const value of this._values) {
-            yield* value as any;
+        let accumulator: R | undefined;
+        let index = -1;
+        for await (const item of this._values as AsyncSequence<T>) {
+            // the first element starts the accumulation, and the index counts from the second one,
+            // as reduce does.
+            accumulator = index < 0 ? item as R : await this.operation(accumulator!, item, index);
+            index++;
+            yield accumulator;
         }
     }
 }
 
-class AsyncFlatmappingSequence<T, U> extends AsyncSequence<U> {
-    private readonly transform: (item: T, index?: number) => AsyncSequence<U> | Promise<AsyncSequence<U>>;
+class AsyncSampleSequence<T> extends AsyncSequence<T> {
+    private readonly ms: number;
+    private readonly scheduler: Scheduler;
     constructor(
         sequence: AsyncSequence<T>,
-        transform: (item: T, index?: number) => AsyncSequence<U> | Promise<AsyncSequence<U>>
+        ms: number,
+        scheduler: Scheduler
     ) {
-        super(sequence as any, -1);
-        this.transform = transform;
+        super(sequence, sequence.sizeHint().orFewer());
+        this.ms = ms;
+        this.scheduler = scheduler;
     }
 
     override async *[Symbol.asyncIterator]() {
-        let index = 0;
-        for await (const value of this._values) {
-            yield* await this.transform(value as any, index++);
+        const iterator: AsyncIterator<T> = (this._values as AsyncSequence<T>)[Symbol.asyncIterator]();
+        let latest: { value: T } | undefined;
+        let nextTick = this.scheduler.now() + this.ms;
+        let pending: Promise<IteratorResult<T>> | undefined;
+        try {
+            while (true) {
+                pending ??= iterator.next();
+                const result = await raceTimer(pending, nextTick - this.scheduler.now(), this.scheduler);
+                if (result === timedOut) {
+                    // periods missed while the consumer was busy are skipped, not replayed.
+                    const now = this.scheduler.now();
+                    nextTick += Math.max(1, Math.ceil((now - nextTick) / this.ms)) * this.ms;
+                    if (latest) {
+                        const { value } = latest;
+                        latest = undefined;
+                        yield value;
+                    }
+                    continue;
+                }
+                pending = undefined;
+                if (result.done) break;
+                latest = { value: result.value };
+            }
+        } finally {
+            await close(iterator, pending);
         }
     }
 }
 
-class AsyncMapSequence<T, U> extends AsyncSequence<U> {
-    private readonly transform: (item: T, index?: number) => U | Promise<U>;
+class AsyncSharingSequence<T> extends AsyncSequence<T> {
+    private readonly replayed: number;
+    private readonly persistent: boolean;
+    private readonly maxBuffered: number;
+    private multicast: Multicast<T> | undefined;
     constructor(
         sequence: AsyncSequence<T>,
-        transform: (item: T, index?: number) => U | Promise<U>
+        replayed: number,
+        persistent: boolean,
+        options: SharingOptions | undefined
     ) {
-        super(sequence as any, sequence.size());
-        this.transform = transform;
+        super(sequence, SizeHint.unknown);
+        this.replayed = replayed;
+        this.persistent = persistent;
+        this.maxBuffered = Multicast.maxBuffered(options);
+    }
+
+    override async [Utils.asyncDispose](): Promise<void> {
+        await this.multicast?.close();
+        await super[Utils.asyncDispose]();
     }
 
     override async *[Symbol.asyncIterator]() {
-        let index = 0;
-        for await (const value of this._values) {
-            yield this.transform(value as any, index++);
+        if (!this.multicast || (this.multicast.closed && !this.persistent)) {
+            this.multicast = new Multicast(this._values as AsyncSequence<T>, this.replayed, this.persistent, this.maxBuffered);
+        }
+        const multicast = this.multicast;
+        const queue = multicast.subscribe();
+        try {
+            while (true) {
+                const next = await multicast.next(queue);
+                if (next.done) return;
+                yield next.value;
+            }
+        } finally {
+            await multicast.unsubscribe(queue);
         }
     }
 }
 
-class AsyncTakeSequence<T> extends AsyncSequence<T> {
-    private readonly n: number;
+class AsyncSortingSequence<T, K> extends AsyncSequence<T> {
+    private readonly selector: (item: T) => K | Promise<K>;
+    private readonly compare: CompareFunction<K>;
     constructor(
         sequence: AsyncSequence<T>,
-        n: number
+        selector: (item: T) => K | Promise<K>,
+        compare: CompareFunction<K>
     ) {
-        super(sequence,
-            sequence.size() < 0         // if the current sequence is of unknown size,
-                ? -1                    // the new sequence will also have unknown size.
-                : n > sequence.size()   // otherwise, if n is greater than the current size,
-                    ? sequence.size()   // then the size will be the current size.
-                    : n);               // else, n.
-        this.n = n;
+        super(sequence, sequence.sizeHint());
+        this.selector = selector;
+        this.compare = compare;
     }
 
     override async *[Symbol.asyncIterator]() {
-        let taken = 0;
+        const entries: [K, T][] = [];
         for await (const value of this._values) {
-            if (taken++ < this.n) yield value;
-            else break;
+            entries.push([await this.selector(value), value]);
         }
+        entries.sort((a, b) => this.compare(a[0], b[0]));
+        for (const entry of entries) yield entry[1];
     }
 }
 
-class AsyncTakeWhileSequence<T> extends AsyncSequence<T> {
-    private readonly predicate: (item: T, index?: number) => boolean | Promise<boolean>;
+class AsyncTeeSequence<T> extends AsyncSequence<T> {
+    private readonly multicast: Multicast<T>;
+    private readonly queue: T[];
+    private iterated: boolean = false;
     constructor(
         sequence: AsyncSequence<T>,
-        predicate: (item: T, index?: number) => boolean | Promise<boolean>
+        multicast: Multicast<T>
     ) {
-        super(sequence, -1);
-        this.predicate = predicate;
+        super(sequence, sequence.sizeHint());
+        this.multicast = multicast;
+        // subscribing right away keeps elements read by other branches from being missed.
+        this.queue = multicast.subscribe();
+    }
+
+    override async [Utils.asyncDispose](): Promise<void> {
+        this.iterated = true;
+        await this.multicast.unsubscribe(this.queue);
     }
 
     override async *[Symbol.asyncIterator]() {
-        let yielding = true;
-        let index = 0;
-        for await (const value of this._values) {
-            if (!(await this.predicate(value, index++))) yielding = false;
-            if (!yielding) break;
-            yield value;
+        if (this.iterated) {
+            throw new Utils.ConsumedError("attempted to iterate a tee sequence more than once");
+        }
+        this.iterated = true;
+        try {
+            while (true) {
+                const next = await this.multicast.next(this.queue);
+                if (next.done) return;
+                yield next.value;
+            }
+        } finally {
+            await this.multicast.unsubscribe(this.queue);
+        }
+    }
+}
+
+class AsyncThrottleSequence<T> extends AsyncSequence<T> {
+    private readonly ms: number;
+    private readonly leading: boolean;
+    private readonly trailing: boolean;
+    private readonly scheduler: Scheduler;
+    constructor(
+        sequence: AsyncSequence<T>,
+        ms: number,
+        leading: boolean,
+        trailing: boolean,
+        scheduler: Scheduler
+    ) {
+        const hint = sequence.sizeHint();
+        super(sequence, SizeHint.between(Math.min(1, hint.lower), hint.upper));
+        this.ms = ms;
+        this.leading = leading;
+        this.trailing = trailing;
+        this.scheduler = scheduler;
+    }
+
+    override async *[Symbol.asyncIterator]() {
+        const iterator: AsyncIterator<T> = (this._values as AsyncSequence<T>)[Symbol.asyncIterator]();
+        let latest: { value: T } | undefined;
+        let periodEnd = -Infinity;
+        let pending: Promise<IteratorResult<T>> | undefined;
+        try {
+            while (true) {
+                pending ??= iterator.next();
+                const result = latest
+                    ? await raceTimer(pending, periodEnd - this.scheduler.now(), this.scheduler)
+                    : await pending;
+                if (result === timedOut) {
+                    const { value } = latest!;
+                    latest = undefined;
+                    periodEnd = this.scheduler.now() + this.ms;
+                    yield value;
+                    continue;
+                }
+                pending = undefined;
+                if (result.done) break;
+                const now = this.scheduler.now();
+                if (now >= periodEnd) {
+                    periodEnd = now + this.ms;
+                    if (this.leading) {
+                        yield result.value;
+                        continue;
+                    }
+                }
+                if (this.trailing) latest = { value: result.value };
+            }
+            if (latest) yield latest.value;
+        } finally {
+            await close(iterator, pending);
+        }
+    }
+}
+
+class AsyncTimeoutSequence<T> extends AsyncSequence<T> {
+    private readonly ms: number;
+    private readonly overall: boolean;
+    private readonly scheduler: Scheduler;
+    constructor(
+        sequence: AsyncSequence<T>,
+        ms: number,
+        overall: boolean,
+        scheduler: Scheduler
+    ) {
+        super(sequence, sequence.sizeHint());
+        this.ms = ms;
+        this.overall = overall;
+        this.scheduler = scheduler;
+    }
+
+    override async *[Symbol.asyncIterator]() {
+        const iterator: AsyncIterator<T> = (this._values as AsyncSequence<T>)[Symbol.asyncIterator]();
+        const deadline = this.scheduler.now() + this.ms;
+        let pending: Promise<IteratorResult<T>> | undefined;
+        try {
+            while (true) {
+                pending = iterator.next();
+                const ms = this.overall ? deadline - this.scheduler.now() : this.ms;
+                const result = await raceTimer(pending, ms, this.scheduler);
+                if (result === timedOut) {
+                    throw new Utils.TimeoutError(this.overall
+                        ? `the sequence was not consumed within ${this.ms}ms`
+                        : `no element was produced within ${this.ms}ms`);
+                }
+                pending = undefined;
+                if (result.done) break;
+                yield result.value;
+            }
+        } finally {
+            await close(iterator, pending);
+        }
+    }
+}
+
+class AsyncZipSequence<R> extends AsyncSequence<R> {
+    private readonly sequences: AsyncSequence<any>[];
+    private readonly combine: (values: unknown[]) => R | Promise<R>;
+    constructor(
+        sequences: AsyncSequence<any>[],
+        combine: (values: unknown[]) => R | Promise<R>
+    ) {
+        super([], sequences.length === 0 
+            ? SizeHint.exact(0) 
+            : sequences.map(sequence => sequence.sizeHint()).reduce((acc, hint) => acc.min(hint)));
+        this.sequences = sequences;
+        this.combine = combine;
+    }
+
+    override async *[Symbol.asyncIterator]() {
+        if (this.sequences.length === 0) return;
+        const iterators: AsyncIterator<unknown>[] = this.sequences.map(sequence => sequence[Symbol.asyncIterator]());
+        try {
+            while (true) {
+                const results = await Promise.all(iterators.map(iterator => iterator.next()));
+                if (results.some(result => result.done)) return;
+                yield await this.combine(results.map(result => result.value));
+            }
+        } finally {
+            await Promise.all(iterators.map(iterator => iterator.return?.()));
+        }
+    }
+
+    override async [Utils.asyncDispose](): Promise<void> {
+        await Promise.all(this.sequences.map(sequence => sequence[Utils.asyncDispose]()));
+    }
+}
+
+class AsyncZipLongestSequence<R extends unknown[]> extends AsyncSequence<R> {
+    private readonly sequences: AsyncSequence<any>[];
+    private readonly fills: unknown[];
+    constructor(
+        sequences: AsyncSequence<any>[],
+        fills: unknown[]
+    ) {
+        super([], sequences
+            .map(sequence => sequence.sizeHint())
+            .reduce((acc, hint) => acc.max(hint), SizeHint.exact(0)));
+        this.sequences = sequences;
+        this.fills = fills;
+    }
+
+    override async *[Symbol.asyncIterator]() {
+        const iterators: AsyncIterator<unknown>[] = this.sequences.map(sequence => sequence[Symbol.asyncIterator]());
+        const finished = iterators.map(() => false);
+        try {
+            while (true) {
+                const results = await Promise.all(iterators.map((iterator, index) => 
+                    finished[index] ? undefined : iterator.next()));
+                const values = results.map((result, index) => {
+                    if (!result || result.done) {
+                        finished[index] = true;
+                        return this.fills[index];
+                    }
+                    return result.value;
+                });
+                if (finished.every(done => done)) return;
+                yield values as R;
+            }
+        } finally {
+            await Promise.all(iterators.map(iterator => iterator.return?.()));
+        }
+    }
+
+    override async [Utils.asyncDispose](): Promise<void> {
+        await Promise.all(this.sequences.map(sequence => sequence[Utils.asyncDispose]()));
+    }
+}
+
+class AsyncTimedChunkingSequence<T, R> extends AsyncSequence<R> {
+    private readonly chunkSize: number;
+    private readonly ms: number;
+    private readonly transform: (chunk: T[]) => R | Promise<R>;
+    private readonly scheduler: Scheduler;
+    constructor(
+        sequence: AsyncSequence<T>,
+        size: number,
+        ms: number,
+        transform: (chunk: T[]) => R | Promise<R>,
+        scheduler: Scheduler
+    ) {
+        if (size < 1) {
+            throw new Utils.IllegalArgumentError("chunk size must be greater than 0");
+        }
+        // chunks hold between one and `size` elements.
+        const hint = sequence.sizeHint();
+        super(sequence as any, SizeHint.between(Math.ceil(hint.lower / size), hint.upper));
+        this.chunkSize = size;
+        this.ms = ms;
+        this.transform = transform;
+        this.scheduler = scheduler;
+    }
+
+    override async *[Symbol.asyncIterator]() {
+        const iterator: AsyncIterator<T> = (this._values as any as AsyncSequence<T>)[Symbol.asyncIterator]();
+        let chunk: T[] = [];
+        let deadline = 0;
+        // a pull that loses the race against the timer is kept around for the next chunk, since
+        // the element it resolves to must not be lost.
+        let pending: Promise<IteratorResult<T>> | undefined;
+        try {
+            while (true) {
+                pending ??= iterator.next();
+                const result = chunk.length === 0
+                    ? await pending
+                    : await raceTimer(pending, deadline - this.scheduler.now(), this.scheduler);
+                if (result === timedOut) {
+                    yield await this.transform(chunk);
+                    chunk = [];
+                    continue;
+                }
+                pending = undefined;
+                if (result.done) break;
+                if (chunk.length === 0) deadline = this.scheduler.now() + this.ms;
+                chunk.push(result.value);
+                if (chunk.length === this.chunkSize) {
+                    yield await this.transform(chunk);
+                    chunk = [];
+                }
+            }
+            if (chunk.length > 0) yield await this.transform(chunk);
+        } finally {
+            await close(iterator, pending);
+        }
+    }
+}
+
+class AsyncWindowingSequence<T, R> extends AsyncSequence<R> {
+    private readonly windowSize: number;
+    private readonly step: number;
+    private readonly partial: boolean;
+    private readonly transform: (window: T[]) => R | Promise<R>;
+    constructor(
+        sequence: AsyncSequence<T>,
+        size: number,
+        step: number,
+        partial: boolean,
+        transform: (window: T[]) => R | Promise<R>
+    ) {
+        if (size < 1 || step < 1) {
+            throw new Utils.IllegalArgumentError("window size and step must be greater than 0");
+        }
+        super(sequence as any, sequence.sizeHint().map(total => 
+            partial ? Math.ceil(total / step) 
+            : total < size ? 0 : Math.floor((total - size) / step) + 1));
+        this.windowSize = size;
+        this.step = step;
+        this.partial = partial;
+        this.transform = transform;
+    }
+
+    override async *[Symbol.asyncIterator]() {
+        let window: T[] = [];
+        let skipped = 0;
+        for await (const value of this._values as any as AsyncIterable<T>) {
+            if (skipped > 0) {
+                skipped--;
+                continue;
+            }
+            window.push(value);
+            if (window.length === this.windowSize) {
+                yield await this.transform(window);
+                skipped = Math.max(0, this.step - this.windowSize);
+                window = window.slice(this.step);
+            }
+        }
+        while (this.partial && window.length > 0) {
+            yield await this.transform(window);
+            window = window.slice(this.step);
         }
     }
 }
\ No newline at end of file
@@ -0,0 +1,442 @@
+import { Comparable, Comparator, CompareFunction } from "./Comparator.js";
+import { Utils } from "./Utils.js";
+
+/**
+ * Describes a mutable reduction of elements into a result, in the fashion of Java's collectors:
+ * a container is created by `supply`, every element is folded into it by `accumulate`, and the
+ * final container is turned into the result by `finish`.\
+ * \
+ * Collectors can be passed to `collect` on both {@link Sequence} and {@link AsyncSequence}, and be
+ * composed through the downstream collectors accepted by the functions in {@link Collectors}.
+ * @typeParam T The type of the elements collected.
+ * @typeParam A The type of the intermediate container.
+ * @typeParam R The type of the result.
+ */
+export interface Collector<T, A, R> {
+    /**
+     * Creates a new, empty container.
+     */
+    supply(): A;
+    /**
+     * Folds `item` into `container`, returning the container to use for the next element.
+     */
+    accumulate(container: A, item: T): A;
+    /**
+     * Turns the container holding every element into the result.
+     */
+    finish(container: A): R;
+}
+
+/**
+ * Statistics about a group of numbers, gathered in a single pass by 
+ * {@link Collectors.summarizing}. `sum`, `min` and `max` keep the type of the numbers, while 
+ * `mean` and `variance` (the population variance) are always plain numbers.
+ * @typeParam N The type of the numbers summarized.
+ */
+export interface SummaryStatistics<N extends number | bigint> {
+    readonly count: number;
+    /**
+     * The sum of the numbers, or 0 if there are none (the provided zero for bigints).
+     */
+    readonly sum: N;
+    /**
+     * The smallest number, or undefined if there are none.
+     */
+    readonly min: N | undefined;
+    /**
+     * The greatest number, or undefined if there are none.
+     */
+    readonly max: N | undefined;
+    /**
+     * The arithmetic mean of the numbers, or NaN if there are none.
+     */
+    readonly mean: number;
+    /**
+     * The population variance of the numbers, or NaN if there are none.
+     */
+    readonly variance: number;
+}
+
+/**
+ * Common {@link Collector} implementations.
+ */
+export class Collectors {
+    protected constructor() {}
+
+    /**
+     * Returns true if the provided value implements the {@link Collector} interface.
+     */
+    public static isCollector(value: any): value is Collector<unknown, unknown, unknown> {
+        return value != null
+            && typeof value["supply"] === "function"
+            && typeof value["accumulate"] === "function"
+            && typeof value["finish"] === "function";
+    }
+
+    /**
+     * Creates a collector gathering elements into an array, in encounter order.
+     */
+    public static toArray<T>(): Collector<T, T[], T[]> {
+        return {
+            supply: () => [],
+            accumulate: (array, item) => { array.push(item); return array; },
+            finish: array => array
+        };
+    }
+
+    /**
+     * Creates a collector gathering elements into a set, in encounter order.
+     */
+    public static toSet<T>(): Collector<T, Set<T>, Set<T>> {
+        return {
+            supply: () => new Set<T>(),
+            accumulate: (set, item) => set.add(item),
+            finish: set => set
+        };
+    }
+
+    /**
+     * Creates a collector gathering elements into a map, whose entries are generated by the
+     * provided selectors. Elements generating a key already in the map are merged into it by
+     * `onConflict`, which receives the value in the map first. If no `onConflict` function is
+     * provided, duplicate keys throw an {@link Utils.IllegalStateError}.
+     */
+    public static toMap<T, K, V>(
+        keySelector: (item: T) => K,
+        valueSelector: (item: T) => V,
+        onConflict?: (existing: V, incoming: V, key: K) => V
+    ): Collector<T, Map<K, V>, Map<K, V>> {
+        return {
+            supply: () => new Map<K, V>(),
+            accumulate: (map, item) => {
+                const key = keySelector(item);
+                const value = valueSelector(item);
+                if (!map.has(key)) return map.set(key, value);
+                if (!onConflict) {
+                    throw new Utils.IllegalStateError(`duplicate key: ${String(key)}`);
+                }
+                return map.set(key, onConflict(map.get(key)!, value, key));
+            },
+            finish: map => map
+        };
+    }
+
+    /**
+     * Creates a collector gathering the key-value pairs generated by `transform` into a map. If
+     * two elements generate the same key, the last one is kept.
+     */
+    public static associate<T, K, V>(transform: (item: T) => [K, V]): Collector<T, Map<K, V>, Map<K, V>> {
+        return {
+            supply: () => new Map<K, V>(),
+            accumulate: (map, item) => map.set(...transform(item)),
+            finish: map => map
+        };
+    }
+
+    /**
+     * Creates a collector gathering elements into a map, keyed by the key generated by `selector`.
+     * If a `transform` is provided, the values are mapped through it. If two elements generate the
+     * same key, the last one is kept.
+     */
+    public static associateBy<T, K>(selector: (item: T) => K): Collector<T, Map<K, T>, Map<K, T>>;
+    public static associateBy<T, K, V>(selector: (item: T) => K, transform: (item: T) => V): Collector<T, Map<K, V>, Map<K, V>>;
+    public static associateBy<T, K, V>(selector: (item: T) => K, transform?: (item: T) => V): Collector<T, Map<K, V>, Map<K, V>> {
+        return Collectors.associate(item => [selector(item), transform ? transform(item) : item as any]);
+    }
+
+    /**
+     * Creates a collector gathering elements into a map, where each element is the key to the
+     * value generated by `selector`. If an element is repeated, the last value is kept.
+     */
+    public static associateWith<T, V>(selector: (item: T) => V): Collector<T, Map<T, V>, Map<T, V>> {
+        return Collectors.associate(item => [item, selector(item)]);
+    }
+
+    /**
+     * Creates a collector counting the elements collected.
+     */
+    public static counting<T>(): Collector<T, number, number> {
+        return {
+            supply: () => 0,
+            accumulate: count => count + 1,
+            finish: count => count
+        };
+    }
+
+    /**
+     * Creates a collector passing only the elements fulfilling `predicate` to `downstream`.
+     */
+    public static filtering<T, A, R>(
+        predicate: (item: T) => boolean,
+        downstream: Collector<T, A, R>
+    ): Collector<T, A, R> {
+        return {
+            supply: () => downstream.supply(),
+            accumulate: (container, item) => predicate(item) ? downstream.accumulate(container, item) : container,
+            finish: container => downstream.finish(container)
+        };
+    }
+
+    /**
+     * Creates a collector gathering elements into a map of the results of `downstream` for every
+     * group of elements generating the same key through `selector` (according to {@link Map.has()}
+     * equality). Groups are gathered into arrays if no downstream collector is provided.
+     */
+    public static groupingBy<T, K>(selector: (item: T) => K): Collector<T, Map<K, T[]>, Map<K, T[]>>;
+    public static groupingBy<T, K, A, R>(selector: (item: T) => K, downstream: Collector<T, A, R>): Collector<T, Map<K, A>, Map<K, R>>;
+    public static groupingBy<T, K, A, R>(
+        selector: (item: T) => K,
+        downstream: Collector<T, A, R> = Collectors.toArray<T>() as any
+    ): Collector<T, Map<K, A>, Map<K, R>> {
+        return {
+            supply: () => new Map<K, A>(),
+            accumulate: (map, item) => {
+                const key = selector(item);
+                const container = map.has(key) ? map.get(key)! : downstream.supply();
+                return map.set(key, downstream.accumulate(container, item));
+            },
+            finish: map => {
+                const result = new Map<K, R>();
+                for (const [key, container] of map) result.set(key, downstream.finish(container));
+                return result;
+            }
+        };
+    }
+
+    /**
+     * Creates a collector joining the string representation of every element, separated by
+     * `separator` (", " by default).
+     */
+    public static joining<T>(separator: string = ", "): Collector<T, string[], string> {
+        return {
+            supply: () => [],
+            accumulate: (parts, item) => { parts.push(String(item)); return parts; },
+            finish: parts => parts.join(separator)
+        };
+    }
+
+    /**
+     * Creates a collector passing every element to `downstream` after mapping it through
+     * `transform`.
+     */
+    public static mapping<T, U, A, R>(
+        transform: (item: T) => U,
+        downstream: Collector<U, A, R>
+    ): Collector<T, A, R> {
+        return {
+            supply: () => downstream.supply(),
+            accumulate: (container, item) => downstream.accumulate(container, transform(item)),
+            finish: container => downstream.finish(container)
+        };
+    }
+
+    /**
+     * Creates a collector mapping the result of `downstream` through `transform`.
+     */
+    public static collectingAndThen<T, A, R, U>(
+        downstream: Collector<T, A, R>,
+        transform: (result: R) => U
+    ): Collector<T, A, U> {
+        return {
+            supply: () => downstream.supply(),
+            accumulate: (container, item) => downstream.accumulate(container, item),
+            finish: container => transform(downstream.finish(container))
+        };
+    }
+
+    /**
+     * Creates a collector splitting elements into a pair of results of `downstream`: the first
+     * for the elements fulfilling `predicate`, and the second for the ones that don't. Elements are
+     * gathered into arrays if no downstream collector is provided.
+     */
+    public static partitioningBy<T>(predicate: (item: T) => boolean): Collector<T, [T[], T[]], [T[], T[]]>;
+    public static partitioningBy<T, A, R>(predicate: (item: T) => boolean, downstream: Collector<T, A, R>): Collector<T, [A, A], [R, R]>;
+    public static partitioningBy<T, A, R>(
+        predicate: (item: T) => boolean,
+        downstream: Collector<T, A, R> = Collectors.toArray<T>() as any
+    ): Collector<T, [A, A], [R, R]> {
+        return {
+            supply: () => [downstream.supply(), downstream.supply()],
+            accumulate: (pair, item) => {
+                if (predicate(item)) pair[0] = downstream.accumulate(pair[0], item);
+                else pair[1] = downstream.accumulate(pair[1], item);
+                return pair;
+            },
+            finish: pair => [downstream.finish(pair[0]), downstream.finish(pair[1])]
+        };
+    }
+
+    /**
+     * Creates a collector folding elements through `operation` into the initial value returned by
+     * `supply`, which is called once per container, so that mutable accumulators are not shared
+     * between the groups of {@link groupingBy} or the halves of {@link partitioningBy}.
+     */
+    public static reducing<T, R>(supply: () => R, operation: (accumulator: R, current: T) => R): Collector<T, R, R> {
+        return {
+            supply,
+            accumulate: operation,
+            finish: result => result
+        };
+    }
+
+    /**
+     * Creates a collector adding up the elements, or the numbers generated from them by `selector`.
+     * Numbers and bigints cannot be mixed. With no elements, there is no element to tell the type
+     * from, so the sum is 0 for numbers, and the provided `zero` (usually `0n`) for bigints.
+     */
+    public static summing(): Collector<number, number | undefined, number>;
+    public static summing(zero: bigint): Collector<bigint, bigint | undefined, bigint>;
+    public static summing<T>(selector: (item: T) => number): Collector<T, number | undefined, number>;
+    public static summing<T>(selector: (item: T) => bigint, zero: bigint): Collector<T, bigint | undefined, bigint>;
+    public static summing<T>(
+        selectorOrZero?: ((item: T) => number | bigint) | bigint, 
+        zero?: bigint
+    ): Collector<T, number | bigint | undefined, number | bigint> {
+        return typeof selectorOrZero === "function"
+            ? adding(selectorOrZero, zero ?? 0)
+            : adding(item => item as any, selectorOrZero ?? 0);
+    }
+
+    /**
+     * Creates a collector calculating the arithmetic mean of the elements, or of the numbers 
+     * generated from them by `selector`. Bigints are added up exactly, and only the result is 
+     * converted to a number. With no elements, the mean is NaN.
+     */
+    public static averaging<N extends number | bigint>(): Collector<N, [number, N | undefined], number>;
+    public static averaging<T, N extends number | bigint>(selector: (item: T) => N): Collector<T, [number, N | undefined], number>;
+    public static averaging<T, N extends number | bigint>(
+        selector: (item: T) => N = item => item as any
+    ): Collector<T, [number, N | undefined], number> {
+        const summing = adding(selector, 0 as N);
+        return {
+            supply: () => [0, summing.supply()],
+            accumulate: (state, item) => [state[0] + 1, summing.accumulate(state[1], item)],
+            finish: state => state[0] === 0 ? NaN : Number(state[1]) / state[0]
+        };
+    }
+
+    /**
+     * Creates a collector finding the smallest element. NaN is smaller than any number, so that it
+     * spreads to the result as it does with {@link Math.min()}.
+     */
+    public static min<N extends number | bigint>(): Collector<N, { value: N } | undefined, N | undefined> {
+        return extremum<N>((candidate, current) => candidate < current || Number.isNaN(candidate));
+    }
+
+    /**
+     * Creates a collector finding the greatest element. NaN is greater than any number, so that it
+     * spreads to the result as it does with {@link Math.max()}.
+     */
+    public static max<N extends number | bigint>(): Collector<N, { value: N } | undefined, N | undefined> {
+        return extremum<N>((candidate, current) => candidate > current || Number.isNaN(candidate));
+    }
+
+    /**
+     * Creates a collector finding the first element generating the smallest key through 
+     * `selector`, by the natural order of the keys.
+     */
+    public static minBy<T>(selector: (item: T) => Comparable | null | undefined): Collector<T, { value: T } | undefined, T | undefined> {
+        return Collectors.minWith(Comparator.compareBy(selector));
+    }
+
+    /**
+     * Creates a collector finding the first element generating the greatest key through 
+     * `selector`, by the natural order of the keys.
+     */
+    public static maxBy<T>(selector: (item: T) => Comparable | null | undefined): Collector<T, { value: T } | undefined, T | undefined> {
+        return Collectors.maxWith(Comparator.compareBy(selector));
+    }
+
+    /**
+     * Creates a collector finding the first of the smallest elements according to `comparator`.
+     */
+    public static minWith<T>(comparator: CompareFunction<T> | Comparator<T>): Collector<T, { value: T } | undefined, T | undefined> {
+        const compare = Comparator.of(comparator).compare;
+        return extremum<T>((candidate, current) => compare(candidate, current) < 0);
+    }
+
+    /**
+     * Creates a collector finding the first of the greatest elements according to `comparator`.
+     */
+    public static maxWith<T>(comparator: CompareFunction<T> | Comparator<T>): Collector<T, { value: T } | undefined, T | undefined> {
+        const compare = Comparator.of(comparator).compare;
+        return extremum<T>((candidate, current) => compare(candidate, current) > 0);
+    }
+
+    /**
+     * Creates a collector gathering the {@link SummaryStatistics} of the elements, or of the
+     * numbers generated from them by `selector`, in a single pass. As with {@link summing}, the 
+     * sum of no bigints is the provided `zero`.
+     */
+    public static summarizing(): Collector<number, SummaryState<number>, SummaryStatistics<number>>;
+    public static summarizing(zero: bigint): Collector<bigint, SummaryState<bigint>, SummaryStatistics<bigint>>;
+    public static summarizing<T>(selector: (item: T) => number): Collector<T, SummaryState<number>, SummaryStatistics<number>>;
+    public static summarizing<T>(selector: (item: T) => bigint, zero: bigint): Collector<T, SummaryState<bigint>, SummaryStatistics<bigint>>;
+    public static summarizing<T, N extends number | bigint>(
+        selectorOrZero?: ((item: T) => N) | N,
+        zero?: N
+    ): Collector<T, SummaryState<N>, SummaryStatistics<N>> {
+        const selector = typeof selectorOrZero === "function" ? selectorOrZero : (item: T) => item as any as N;
+        const summing = adding((value: N) => value, (typeof selectorOrZero === "function" ? zero : selectorOrZero) ?? 0 as N);
+        const min = Collectors.min<N>(), max = Collectors.max<N>();
+        return {
+            supply: () => ({ count: 0, sum: undefined, min: undefined, max: undefined, mean: 0, m2: 0 }),
+            accumulate: (state, item) => {
+                const value = selector(item);
+                const number = Number(value);
+                state.count++;
+                state.sum = summing.accumulate(state.sum, value);
+                state.min = min.accumulate(state.min, value);
+                state.max = max.accumulate(state.max, value);
+                // Welford's online algorithm, which avoids the cancellation of the sum of squares.
+                const delta = number - state.mean;
+                state.mean += delta / state.count;
+                state.m2 += delta * (number - state.mean);
+                return state;
+            },
+            finish: state => ({
+                count: state.count,
+                sum: summing.finish(state.sum),
+                min: state.min?.value,
+                max: state.max?.value,
+                mean: state.count === 0 ? NaN : state.mean,
+                variance: state.count === 0 ? NaN : state.m2 / state.count
+            })
+        };
+    }
+}
+
+/**
+ * The intermediate container of {@link Collectors.summarizing}.
+ */
+export interface SummaryState<N extends number | bigint> {
+    count: number;
+    sum: N | undefined;
+    min: { value: N } | undefined;
+    max: { value: N } | undefined;
+    mean: number;
+    m2: number;
+}
+
+/**
+ * Adds up the numbers generated by `selector`, starting from the first of them so that numbers
+ * and bigints are never mixed, or returns `zero` if there are none.
+ */
+function adding<T, N extends number | bigint>(selector: (item: T) => N, zero: N): Collector<T, N | undefined, N> {
+    return {
+        supply: () => undefined,
+        accumulate: (sum, item) => sum === undefined ? selector(item) : (sum as any) + selector(item),
+        finish: sum => sum ?? zero
+    };
+}
+
+/**
+ * Keeps the first element, replacing it by every later one `replaces` returns true for.
+ */
+function extremum<T>(replaces: (candidate: T, current: T) => boolean): Collector<T, { value: T } | undefined, T | undefined> {
+    return {
+        supply: () => undefined,
+        accumulate: (current, item) => !current || replaces(item, current.value) ? { value: item } : current,
+        finish: current => current?.value
+    };
+}
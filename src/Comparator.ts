@@ -0,0 +1,167 @@
+/**
+ * A value with a natural ordering, comparable through the relational operators.
+ */
+export type Comparable = number | string | bigint | boolean | Date;
+
+/**
+ * A function comparing two values. Returns a negative number if `a` goes before `b`, a positive
+ * number if `a` goes after `b`, or 0 if both are considered equal. This is the same contract
+ * {@link Array.sort()} expects.
+ */
+export type CompareFunction<T> = (a: T, b: T) => number;
+
+/**
+ * Describes a total ordering over values of type `T`, composable into comparator chains in Kotlin
+ * fashion (eg. `Comparator.compareBy(a).thenBy(b).reversed()`).\
+ * \
+ * Comparators can be passed to `sortedWith` on both {@link Sequence} and {@link AsyncSequence}, and
+ * their `compare` function is bound, so it can be handed to {@link Array.sort()} as is.
+ * @typeParam T The type of the values compared by this comparator.
+ */
+export class Comparator<T> {
+    /**
+     * The comparison function backing this comparator.
+     */
+    public readonly compare: CompareFunction<T>;
+
+    protected constructor(compare: CompareFunction<T>) {
+        this.compare = (a, b) => compare(a, b);
+    }
+
+    /**
+     * Creates a comparator wrapping the provided comparison function or comparator.
+     */
+    public static of<T>(compare: CompareFunction<T> | Comparator<T>): Comparator<T> {
+        if (compare instanceof Comparator) return compare;
+        return new Comparator(compare);
+    }
+
+    /**
+     * Creates a comparator ordering values by their natural order. `null` and `undefined` are
+     * considered smaller than any other value.
+     */
+    public static naturalOrder<T extends Comparable | null | undefined>(): Comparator<T> {
+        return new Comparator<T>((a, b) => {
+            if (a == null || b == null) {
+                return a == null ? (b == null ? 0 : -1) : 1;
+            }
+            return a < b ? -1 : a > b ? 1 : 0;
+        });
+    }
+
+    /**
+     * Creates a comparator ordering values by the reverse of their natural order.
+     */
+    public static reverseOrder<T extends Comparable | null | undefined>(): Comparator<T> {
+        return Comparator.naturalOrder<T>().reversed();
+    }
+
+    /**
+     * Creates a comparator ordering values by the key generated by `selector`. Keys are compared by
+     * their natural order, unless a key comparator is provided.
+     */
+    public static compareBy<T>(selector: (item: T) => Comparable | null | undefined): Comparator<T>;
+    public static compareBy<T, K>(selector: (item: T) => K, comparator: CompareFunction<K> | Comparator<K>): Comparator<T>;
+    public static compareBy<T, K>(
+        selector: (item: T) => K,
+        comparator: CompareFunction<K> | Comparator<K> = Comparator.naturalOrder<any>()
+    ): Comparator<T> {
+        const compare = Comparator.of(comparator).compare;
+        return new Comparator<T>((a, b) => compare(selector(a), selector(b)));
+    }
+
+    /**
+     * Creates a comparator ordering values by the key generated by `selector`, in descending order.
+     * Keys are compared by their natural order, unless a key comparator is provided.
+     */
+    public static compareByDescending<T>(selector: (item: T) => Comparable | null | undefined): Comparator<T>;
+    public static compareByDescending<T, K>(selector: (item: T) => K, comparator: CompareFunction<K> | Comparator<K>): Comparator<T>;
+    public static compareByDescending<T, K>(
+        selector: (item: T) => K,
+        comparator: CompareFunction<K> | Comparator<K> = Comparator.naturalOrder<any>()
+    ): Comparator<T> {
+        return Comparator.compareBy(selector, comparator).reversed();
+    }
+
+    /**
+     * Creates a comparator that considers `null` and `undefined` smaller than any other value, and
+     * orders the rest with the provided comparator, or by their natural order if none is provided.
+     */
+    public static nullsFirst<T extends Comparable>(): Comparator<T | null | undefined>;
+    public static nullsFirst<T>(comparator: CompareFunction<T> | Comparator<T>): Comparator<T | null | undefined>;
+    public static nullsFirst<T>(
+        comparator: CompareFunction<T> | Comparator<T> = Comparator.naturalOrder<any>()
+    ): Comparator<T | null | undefined> {
+        const compare = Comparator.of(comparator).compare;
+        return new Comparator<T | null | undefined>((a, b) => {
+            if (a == null || b == null) {
+                return a == null ? (b == null ? 0 : -1) : 1;
+            }
+            return compare(a, b);
+        });
+    }
+
+    /**
+     * Creates a comparator that considers `null` and `undefined` greater than any other value, and
+     * orders the rest with the provided comparator, or by their natural order if none is provided.
+     */
+    public static nullsLast<T extends Comparable>(): Comparator<T | null | undefined>;
+    public static nullsLast<T>(comparator: CompareFunction<T> | Comparator<T>): Comparator<T | null | undefined>;
+    public static nullsLast<T>(
+        comparator: CompareFunction<T> | Comparator<T> = Comparator.naturalOrder<any>()
+    ): Comparator<T | null | undefined> {
+        const compare = Comparator.of(comparator).compare;
+        return new Comparator<T | null | undefined>((a, b) => {
+            if (a == null || b == null) {
+                return a == null ? (b == null ? 0 : 1) : -1;
+            }
+            return compare(a, b);
+        });
+    }
+
+    /**
+     * Returns a comparator imposing the reverse ordering of this comparator.
+     */
+    public reversed(): Comparator<T> {
+        const compare = this.compare;
+        return new Comparator<T>((a, b) => compare(b, a));
+    }
+
+    /**
+     * Returns a comparator that uses this comparator first, and `comparator` to break ties.
+     */
+    public thenComparing(comparator: CompareFunction<T> | Comparator<T>): Comparator<T> {
+        const first = this.compare, second = Comparator.of(comparator).compare;
+        return new Comparator<T>((a, b) => {
+            const result = first(a, b);
+            return result !== 0 ? result : second(a, b);
+        });
+    }
+
+    /**
+     * Returns a comparator that uses this comparator first, and the key generated by `selector` to
+     * break ties. Keys are compared by their natural order, unless a key comparator is provided.
+     */
+    public thenBy(selector: (item: T) => Comparable | null | undefined): Comparator<T>;
+    public thenBy<K>(selector: (item: T) => K, comparator: CompareFunction<K> | Comparator<K>): Comparator<T>;
+    public thenBy<K>(
+        selector: (item: T) => K,
+        comparator: CompareFunction<K> | Comparator<K> = Comparator.naturalOrder<any>()
+    ): Comparator<T> {
+        return this.thenComparing(Comparator.compareBy(selector, comparator));
+    }
+
+    /**
+     * Returns a comparator that uses this comparator first, and the key generated by `selector` in
+     * descending order to break ties. Keys are compared by their natural order, unless a key
+     * comparator is provided.
+     */
+    public thenByDescending(selector: (item: T) => Comparable | null | undefined): Comparator<T>;
+    public thenByDescending<K>(selector: (item: T) => K, comparator: CompareFunction<K> | Comparator<K>): Comparator<T>;
+    public thenByDescending<K>(
+        selector: (item: T) => K,
+        comparator: CompareFunction<K> | Comparator<K> = Comparator.naturalOrder<any>()
+    ): Comparator<T> {
+        return this.thenComparing(Comparator.compareByDescending(selector, comparator));
+    }
+}
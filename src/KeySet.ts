@@ -0,0 +1,68 @@
+/**
+ * Describes how two keys are considered equal. By default, keys are compared with the same
+ * equality a {@link Set} uses (SameValueZero).\
+ * \
+ * - If only `hash` is provided, two keys are equal when their hashes are.
+ * - If only `equals` is provided, keys are compared against every previously seen key, which is
+ *   O(n) per lookup.
+ * - If both are provided, keys are bucketed by hash and compared with `equals` inside each bucket,
+ *   so keys considered equal must share a hash.
+ */
+export interface KeyEquality<K> {
+    equals?: (a: K, b: K) => boolean;
+    hash?: (key: K) => unknown;
+}
+
+/**
+ * A set of keys honoring a custom {@link KeyEquality}. Used internally by the operations that need
+ * to remember which keys they have seen.
+ */
+export class KeySet<K> {
+    private readonly equals: ((a: K, b: K) => boolean) | undefined;
+    private readonly hash: ((key: K) => unknown) | undefined;
+    private readonly identities = new Set<unknown>();
+    private readonly buckets = new Map<unknown, K[]>();
+
+    constructor(equality?: KeyEquality<K>) {
+        this.equals = equality?.equals;
+        this.hash = equality?.hash;
+    }
+
+    /**
+     * Adds `key` to this set. Returns true if it was not already contained by it.
+     */
+    public add(key: K): boolean {
+        if (!this.equals) {
+            const identity = this.hash ? this.hash(key) : key;
+            if (this.identities.has(identity)) return false;
+            this.identities.add(identity);
+            return true;
+        }
+        const bucketKey = this.hash ? this.hash(key) : undefined;
+        const bucket = this.buckets.get(bucketKey);
+        if (!bucket) {
+            this.buckets.set(bucketKey, [key]);
+            return true;
+        }
+        for (const other of bucket) {
+            if (this.equals(other, key)) return false;
+        }
+        bucket.push(key);
+        return true;
+    }
+
+    /**
+     * Returns true if a key equal to `key` is contained by this set.
+     */
+    public has(key: K): boolean {
+        if (!this.equals) {
+            return this.identities.has(this.hash ? this.hash(key) : key);
+        }
+        const bucket = this.buckets.get(this.hash ? this.hash(key) : undefined);
+        if (!bucket) return false;
+        for (const other of bucket) {
+            if (this.equals(other, key)) return true;
+        }
+        return false;
+    }
+}
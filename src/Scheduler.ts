@@ -0,0 +1,104 @@
+/**
+ * Describes a clock able to run callbacks after a given amount of time. Time-based operations on
+ * {@link AsyncSequence} accept one, so they can run on virtual time (see {@link VirtualScheduler})
+ * instead of actually waiting.
+ */
+export interface Scheduler {
+    /**
+     * Returns the current time, in milliseconds.
+     */
+    now(): number;
+    /**
+     * Runs `callback` once `ms` milliseconds have passed, returning a handle to cancel it.
+     */
+    setTimeout(callback: () => void, ms: number): unknown;
+    /**
+     * Cancels a callback scheduled by {@link setTimeout}.
+     */
+    clearTimeout(handle: unknown): void;
+}
+
+/**
+ * A {@link Scheduler} backed by the system clock and the global timer functions. Used by default
+ * by every time-based operation.
+ */
+export class SystemScheduler implements Scheduler {
+    /**
+     * The shared system scheduler instance.
+     */
+    public static readonly instance: Scheduler = new SystemScheduler();
+
+    protected constructor() {}
+
+    public now(): number {
+        return Date.now();
+    }
+
+    public setTimeout(callback: () => void, ms: number): unknown {
+        return setTimeout(callback, ms);
+    }
+
+    public clearTimeout(handle: unknown): void {
+        clearTimeout(handle as ReturnType<typeof setTimeout>);
+    }
+}
+
+/**
+ * A {@link Scheduler} whose time only moves forward when told to, so that time-based operations
+ * can be tested deterministically and without waiting. Time starts at 0.
+ */
+export class VirtualScheduler implements Scheduler {
+    private time = 0;
+    private nextId = 0;
+    private readonly timers = new Map<number, { at: number, callback: () => void }>();
+
+    public now(): number {
+        return this.time;
+    }
+
+    public setTimeout(callback: () => void, ms: number): unknown {
+        const id = this.nextId++;
+        this.timers.set(id, { at: this.time + Math.max(0, ms), callback });
+        return id;
+    }
+
+    public clearTimeout(handle: unknown): void {
+        this.timers.delete(handle as number);
+    }
+
+    /**
+     * Moves time forward by `ms` milliseconds, running every callback scheduled up to that point in
+     * order. Pending promise callbacks are allowed to settle before and after every timer runs, so
+     * that the code awaiting them can schedule its next timers.
+     */
+    public async advance(ms: number): Promise<void> {
+        const target = this.time + ms;
+        await VirtualScheduler.settle();
+        while (true) {
+            let due: [number, { at: number, callback: () => void }] | undefined;
+            for (const entry of this.timers) {
+                if (entry[1].at <= target && (!due || entry[1].at < due[1].at)) due = entry;
+            }
+            if (!due) break;
+            this.timers.delete(due[0]);
+            this.time = due[1].at;
+            due[1].callback();
+            await VirtualScheduler.settle();
+        }
+        this.time = target;
+    }
+
+    private static settle(): Promise<void> {
+        return new Promise(resolve => setTimeout(resolve, 0));
+    }
+}
+
+/**
+ * Returns a promise resolving once `ms` milliseconds have passed according to `scheduler`, along
+ * with a function cancelling it. A cancelled sleep never settles.
+ */
+export function sleep(scheduler: Scheduler, ms: number): [Promise<void>, () => void] {
+    let handle: unknown;
+    const promise = new Promise<void>(resolve => { handle = scheduler.setTimeout(resolve, ms); });
+    return [promise, () => scheduler.clearTimeout(handle)];
+}
@@ -1,43 +1,110 @@
-import { Utils } from "./Utils.js";
+import { AsyncSequence } from "./AsyncSequence.js";
+import { Collector, Collectors, SummaryStatistics } from "./Collector.js";
+import { Comparable, Comparator, CompareFunction } from "./Comparator.js";
+import { KeyEquality, KeySet } from "./KeySet.js";
+import { SizeHint } from "./SizeHint.js";
+import { Disposable, Indexed, Utils } from "./Utils.js";
+
+/**
+ * Options for the factories walking trees and graphs, like {@link Sequence.depthFirst}.
+ */
+export interface TraversalOptions<T> {
+    /**
+     * The maximum depth of the nodes visited, where the root is at depth 0. The children of the
+     * nodes at this depth are never requested. Must be a non-negative integer or Infinity, and
+     * defaults to no limit.
+     */
+    maxDepth?: number;
+    /**
+     * Whether nodes already visited are skipped along with their children, which lets graphs with
+     * cycles be walked. Nodes are compared as a {@link Set} would, or by the keys returned for 
+     * them if a function is provided. Defaults to false.
+     */
+    detectCycles?: boolean | ((node: T) => unknown);
+    /**
+     * Whether nodes are visited before their children (the default), or after them. Only taken by
+     * depth-first traversals.
+     */
+    order?: "pre" | "post";
+}
+
+/**
+ * Returns a function telling whether a node of a walk is reached for the first time, or always
+ * true if cycles are not detected. Shared by the traversal factories of both sequence kinds.
+ */
+export function firstVisits<T>(detectCycles: TraversalOptions<T>["detectCycles"]): (node: T) => boolean {
+    if (!detectCycles) return () => true;
+    const key = typeof detectCycles === "function" ? detectCycles : (node: T) => node;
+    const visited = new KeySet<unknown>();
+    return node => visited.add(key(node));
+}
+
+/**
+ * Returns the size hint of a walk, which is made of at least its root, and of nothing else if
+ * its depth is limited to 0.
+ */
+export function traversalHint(maxDepth: number): SizeHint {
+    return maxDepth === 0 ? SizeHint.exact(1) : SizeHint.between(1, Infinity);
+}
 
 /**
  * Describes a lazily computed sequence of elements that can be synchronously iterated over, 
  * allowing for composition of intermediate operations in an efficient, on-demand execution order.
  * @typeParam T The type of the values contained by this sequence.
  */
-export class Sequence<T> implements Iterable<T> {
+export class Sequence<T> implements Iterable<T>, Disposable {
     /**
      * The underlying Iterable contained by this sequence. The values are dispatched
      * through its iterator, so any type implementing the iterator symbol is fine.
      */
     protected readonly _values: Iterable<T>;
     /**
-     * A cached size for sequences with available size information (eg. sequences made from an 
-     * sized iterable, or sequences mapped from an already sized sequence). Less than 0 for 
-     * non-deterministically sized sequences, like FilteringSequences.
+     * The size bounds of this sequence. Exact for sequences made from a sized iterable, or sequences
+     * mapped from an already sized sequence, bounded for sequences like FilteringSequences, and
+     * unknown when nothing can be inferred (see {@link SizeHint}).
      */
-    protected readonly _size: number;
+    protected readonly _sizeHint: SizeHint;
 
-    protected constructor(iterable: Iterable<T>, size?: number) {
+    protected constructor(iterable: Iterable<T>, size?: number | SizeHint) {
         this._values = iterable;
-        if (size !== undefined) {
-            this._size = size;
+        if (size instanceof SizeHint) {
+            this._sizeHint = size;
+        } else if (size !== undefined) {
+            this._sizeHint = SizeHint.of(size);
         } else {
             if (Utils.isLenghted(iterable)) {
-                this._size = iterable.length;
+                this._sizeHint = SizeHint.exact(iterable.length);
             } else if (Utils.isSized(iterable)) {
-                this._size = iterable.size;
+                this._sizeHint = SizeHint.exact(iterable.size);
             }
-            else this._size = -1;
+            else this._sizeHint = SizeHint.unknown;
         }
     }
 
+    /**
+     * The exact size of this sequence, or a negative number if not exactly known.
+     */
+    protected get _size(): number {
+        return this._sizeHint.toSize();
+    }
+
+    /**
+     * Returns a random access view over the elements of this sequence, or undefined if they can 
+     * only be reached by iterating. Sequences backed by arrays provide one, and so do the sequences
+     * derived from them through {@link map}, {@link drop}, {@link take} and {@link reversed}, 
+     * which lets operations like {@link elementAt} or {@link last} skip the elements before the 
+     * one they need.
+     */
+    protected indexed(): Indexed<T> | undefined {
+        return undefined;
+    }
+
     /**
      * Creates a lazy sequence containing the provided arguments.\
      * The sequence created is sized (known).
      */
     public static of<T>(...args: T[]): Sequence<T> {
-        return new Sequence(args, args.length);
+        return new IndexedSequence(args);
     }
 
     /**
@@ -49,7 +116,9 @@ export class Sequence<T> implements Iterable<T> {
      */
     public static from<T>(source: Iterable<T> | Iterator<T>): Sequence<T> {
         if (Utils.isIterator(source)) {
-            return new ConstrainedSequence(source, -1);
+            return new ConstrainedSequence(source, SizeHint.unknown);
+        } else if (Utils.isIndexable<T>(source)) {
+            return new IndexedSequence(source);
         } else {
             return new Sequence(source);
         }
@@ -60,7 +129,7 @@ export class Sequence<T> implements Iterable<T> {
      * The sequence created is sized (0).
      */
     public static empty<T>(): Sequence<T> {
-        return new Sequence([], 0);
+        return new IndexedSequence<T>([]);
     }
 
     /**
@@ -72,6 +141,192 @@ export class Sequence<T> implements Iterable<T> {
         return new GeneratorSequence(initial, nextValue);
     }
 
+    /**
+     * Creates a lazy sequence whose elements are generated from a state, starting from `seed`.
+     * `next` returns an element along with the state following it, or `undefined` to end the 
+     * sequence. Unlike {@link generate}, elements can be `null`, and can differ from the state 
+     * they are generated from.\
+     * The sequence created is non-sized (unknown).
+     */
+    public static unfold<T, S>(seed: S, next: (state: S) => [T, S] | undefined): Sequence<T> {
+        return new UnfoldingSequence(seed, next);
+    }
+
+    /**
+     * Creates a lazy sequence walking the tree rooted at `root` depth-first, where `children` 
+     * returns the children of a node. Nodes are visited before their children unless the `order` 
+     * is "post", and `children` is only called for a node once the walk reaches it. See 
+     * {@link TraversalOptions} for limiting the depth and walking graphs with cycles.\
+     * The sequence created is non-sized (unknown).
+     */
+    public static depthFirst<T>(root: T, children: (node: T) => Iterable<T>, options: TraversalOptions<T> = {}): Sequence<T> {
+        return new DepthFirstSequence(root, children, options);
+    }
+
+    /**
+     * Creates a lazy sequence walking the tree rooted at `root` breadth-first, level by level, 
+     * where `children` returns the children of a node. `children` is only called for a node once
+     * the walk reaches it. See {@link TraversalOptions} for limiting the depth and walking graphs
+     * with cycles.\
+     * The sequence created is non-sized (unknown).
+     */
+    public static breadthFirst<T>(root: T, children: (node: T) => Iterable<T>, options: Omit<TraversalOptions<T>, "order"> = {}): Sequence<T> {
+        return new BreadthFirstSequence(root, children, options);
+    }
+
+    /**
+     * Creates a lazy sequence of numbers going from `start` (inclusive) to `end` (exclusive),
+     * advancing by `step` on every element. If no step is provided, it defaults to 1, or to -1 if
+     * `end` is smaller than `start`. Fractional steps and `bigint` bounds are supported.\
+     * If the step goes away from `end`, the sequence is empty. An infinite `end` makes an infinite
+     * sequence, while a step of 0, a non-finite step or `start`, or a `NaN` end throw an
+     * {@link Utils.IllegalArgumentError}.\
+     * The sequence created is sized (known) for finite bounds, and its elements can be accessed by
+     * index in constant time.
+     */
+    public static range(start: number, end: number, step?: number): Sequence<number>;
+    public static range(start: bigint, end: bigint, step?: bigint): Sequence<bigint>;
+    public static range(start: number | bigint, end: number | bigint, step?: number | bigint): Sequence<number> | Sequence<bigint> {
+        if (typeof start === "bigint") {
+            return new BigIntRangeSequence(start, end as bigint, step as bigint | undefined, false);
+        }
+        return new RangeSequence(start, end as number, step as number | undefined, false);
+    }
+
+    /**
+     * Creates a lazy sequence of numbers going from `start` to `end`, both inclusive, advancing by
+     * `step` on every element. If no step is provided, it defaults to 1, or to -1 if `end` is
+     * smaller than `start`. Fractional steps and `bigint` bounds are supported.\
+     * If the step goes away from `end`, the sequence is empty. An infinite `end` makes an infinite
+     * sequence, while a step of 0, a non-finite step or `start`, or a `NaN` end throw an
+     * {@link Utils.IllegalArgumentError}.\
+     * The sequence created is sized (known) for finite bounds, and its elements can be accessed by
+     * index in constant time.
+     */
+    public static rangeClosed(start: number, end: number, step?: number): Sequence<number>;
+    public static rangeClosed(start: bigint, end: bigint, step?: bigint): Sequence<bigint>;
+    public static rangeClosed(start: number | bigint, end: number | bigint, step?: number | bigint): Sequence<number> | Sequence<bigint> {
+        if (typeof start === "bigint") {
+            return new BigIntRangeSequence(start, end as bigint, step as bigint | undefined, true);
+        }
+        return new RangeSequence(start, end as number, step as number | undefined, true);
+    }
+
+    /**
+     * Creates a lazy sequence of tuples, where the tuple at index `i` contains the elements at
+     * index `i` of every provided sequence. The sequence created ends as soon as any of the
+     * provided sequences does.\
+     * The sequence created is sized if and only if all the provided sequences are, in which case
+     * its size is the one of the shortest sequence.
+     */
+    public static zip<S extends unknown[]>(...sequences: { [K in keyof S]: Sequence<S[K]> }): Sequence<S> {
+        return new ZipSequence(sequences as Sequence<any>[], values => values as S);
+    }
+
+    /**
+     * Calls `body` with the resource created by `resource`, and disposes of that resource once
+     * `body` returns or throws, just like a `using` declaration would. Meant for runtimes that do
+     * not support the syntax yet. Any sequence returned by `body` should be consumed within it, as
+     * its resources are released as soon as it returns.
+     */
+    public static using<R extends Disposable, U>(resource: () => R, body: (resource: R) => U): U {
+        const value = resource();
+        try {
+            return body(value);
+        } finally {
+            value[Utils.dispose]();
+        }
+    }
+
+    /**
+     * Returns an {@link AsyncSequence} containing the elements of this sequence. Elements are not
+     * awaited by this sequence, so promises contained by it will be awaited by the created one.\
+     * \
+     * The sequence created retains size information.
+     */
+    public asAsync(): AsyncSequence<T extends Promise<infer U> ? U : T> {
+        return AsyncSequence.from(this as any);
+    }
+
+    /**
+     * Returns a map containing the key-value pairs generated by `transform` for every element of
+     * this sequence. If two elements generate the same key, the last one is kept. 
+     * This is a terminal operation.
+     */
+    public associate<K, V>(transform: (item: T) => [K, V]): Map<K, V> {
+        return this.collect(Collectors.associate(transform));
+    }
+
+    /**
+     * Returns a map containing the elements of this sequence, keyed by the key generated by 
+     * `selector`. If a `transform` is provided, the values are mapped through it. If two elements
+     * generate the same key, the last one is kept. This is a terminal operation.
+     */
+    public associateBy<K>(selector: (item: T) => K): Map<K, T>;
+    public associateBy<K, V>(selector: (item: T) => K, transform: (item: T) => V): Map<K, V>;
+    public associateBy<K, V>(selector: (item: T) => K, transform?: (item: T) => V): Map<K, V> {
+        return this.collect(Collectors.associateBy(selector, transform ?? (item => item as any)));
+    }
+
+    /**
+     * Returns a map where every element of this sequence is the key to the value generated by
+     * `selector`. If an element is repeated, the last value is kept. This is a terminal operation.
+     */
+    public associateWith<V>(selector: (item: T) => V): Map<T, V> {
+        return this.collect(Collectors.associateWith(selector));
+    }
+
+    /**
+     * Returns the arithmetic mean of the numbers in this sequence, or NaN if it's empty. Bigints 
+     * are added up exactly, and only the result is converted to a number. 
+     * This is a terminal operation.
+     */
+    public average(this: Sequence<number> | Sequence<bigint>): number {
+        return (this as Sequence<any>).collect(Collectors.averaging());
+    }
+
+    /**
+     * Returns a new {@link Sequence} storing the elements of this sequence as they are produced
+     * for the first time, so that later and simultaneous iterations replay them instead of 
+     * computing them again, pulling from this sequence only past the stored ones. This makes 
+     * sequences made from iterators iterable more than once, and if this sequence throws, the
+     * error is thrown again by every iteration reaching that point. Once disposed of, this 
+     * sequence is not pulled from anymore, and iterations end after replaying the stored elements.
+     * This operation is intermediate and stateful.\
+     * \
+     * The sequence created retains size information, and reports its exact size once this 
+     * sequence is exhausted or the sequence created is disposed of.
+     */
+    public cached(): Sequence<T> {
+        return new CachingSequence(this);
+    }
+
+    /**
+     * Returns a new {@link Sequence} splitting this sequence into arrays of `size` elements. The
+     * last chunk may be smaller than `size` if there are not enough elements left. If a transform
+     * is provided, every chunk is mapped through it. A size smaller than 1 throws an 
+     * {@link Utils.IllegalArgumentError}. This operation is intermediate and stateful.\
+     * \
+     * The sequence created retains size information.
+     */
+    public chunked(size: number): Sequence<T[]>;
+    public chunked<R>(size: number, transform: (chunk: T[]) => R): Sequence<R>;
+    public chunked<R>(size: number, transform?: (chunk: T[]) => R): Sequence<T[]> | Sequence<R> {
+        return new WindowingSequence<T, T[] | R>(this, size, size, true, transform ?? (chunk => chunk)) as Sequence<R>;
+    }
+
+    /**
+     * Returns the result of gathering the elements of this sequence through `collector` (see 
+     * {@link Collectors} for the available ones). This is a terminal operation.
+     */
+    public collect<A, R>(collector: Collector<T, A, R>): R {
+        let container = collector.supply();
+        for (const item of this) {
+            container = collector.accumulate(container, item);
+        }
+        return collector.finish(container);
+    }
+
     /**
      * Returns a new {@link Sequence} containing the values of this sequence and the
      * one provided as an argument. This operation is intermediate and stateless.\
@@ -97,16 +352,24 @@ export class Sequence<T> implements Iterable<T> {
     }
 
     /**
-     * Returns true if all the values in `values` are contained by this sequence.
+     * Returns true if all the values in `values` are contained by this sequence. Values are 
+     * compared with `===`, as {@link contains} does, and this sequence is iterated at most once.
      * This is a short-circuiting terminal operation.
      */
     public containsAll(values: Iterable<T>): boolean {
+        const missing = new Set<T>();
         for (const value of values) {
-            if (!this.contains(value)) {
-                return false;
+            // NaN is never contained according to ===, though a Set would find it.
+            if (value !== value) return false;
+            missing.add(value);
+        }
+        if (missing.size === 0) return true;
+        for (const item of this) {
+            if (missing.delete(item) && missing.size === 0) {
+                return true;
             }
         }
-        return true;
+        return false;
     }
 
     /**
@@ -114,7 +377,7 @@ export class Sequence<T> implements Iterable<T> {
      * one iteration. 
      */
     public constrainOnce(): Sequence<T> {
-        return new ConstrainedSequence(this[Symbol.iterator](), this.size());
+        return new ConstrainedSequence(this[Symbol.iterator](), this.sizeHint());
     }
 
     /**
@@ -137,13 +400,38 @@ export class Sequence<T> implements Iterable<T> {
     }
 
     /**
-     * Returns a new {@link Sequence} skipping the first `n` elements.
-     * This operation is intermediate and stateful.\
+     * Returns a new {@link Sequence} containing only the first occurrence of every element in this
+     * sequence. Elements are compared as a {@link Set} would, unless a custom `equals` and/or 
+     * `hash` function is provided. This operation is intermediate and stateful, but it yields 
+     * elements as soon as they are found, so it does not hang for infinite sequences.\
+     * \
+     * The sequence created is non-sized.
+     */
+    public distinct(equality?: KeyEquality<T>): Sequence<T> {
+        return new DistinctSequence(this, item => item, equality);
+    }
+
+    /**
+     * Returns a new {@link Sequence} containing only the first element of this sequence for every
+     * distinct key generated by `selector`. Keys are compared as a {@link Set} would, unless a
+     * custom `equals` and/or `hash` function is provided. This operation is intermediate and 
+     * stateful, but it yields elements as soon as they are found, so it does not hang for infinite
+     * sequences.\
+     * \
+     * The sequence created is non-sized.
+     */
+    public distinctBy<K>(selector: (item: T) => K, equality?: KeyEquality<K>): Sequence<T> {
+        return new DistinctSequence(this, selector, equality);
+    }
+
+    /**
+     * Returns a new {@link Sequence} skipping the first `n` elements. A NaN count throws an
+     * {@link Utils.IllegalArgumentError}. This operation is intermediate and stateful.\
      * \
      * The sequence created retains size information.
      */
     public drop(n: number): Sequence<T> {
-        return new DropSequence(this, n);
+        return new FusedSequence(this, dropStage(n));
     }
 
     /**
@@ -155,15 +443,21 @@ export class Sequence<T> implements Iterable<T> {
     public dropWhile(predicate: (item: T) => boolean): Sequence<T>;
     public dropWhile(predicate: (item: T, index?: number) => boolean): Sequence<T>;
     public dropWhile(predicate: (item: T, index?: number) => boolean): Sequence<T> {
-        return new DropWhileSequence(this, predicate);
+        return new FusedSequence(this, dropWhileStage(predicate));
     }
 
     /**
      * Returns the element at `index`, or undefined if the index is out of bounds.
-     * Since {@link Sequence}s are not a Random Access collection, this operation is O(n).
+     * Since {@link Sequence}s are not a Random Access collection, this operation is O(n), unless
+     * this sequence is backed by an array, in which case it is O(1).
      * This is a short-circuiting terminal operation.
      */
     public elementAt(index: number): T | undefined {
+        const indexed = this.indexed();
+        if (indexed) {
+            return Number.isInteger(index) && index >= 0 && index < indexed.length 
+                ? indexed.get(index) : undefined;
+        }
         if (index < 0) return undefined;
         let count = 0;
         for (const item of this) {
@@ -198,7 +492,29 @@ export class Sequence<T> implements Iterable<T> {
     public filter<S extends T>(predicate: (item: T) => item is S): Sequence<S>;
     public filter<S extends T>(predicate: (item: T, index?: number) => item is S): Sequence<S>;
     public filter<S extends T>(predicate: (item: T, index?: number) => boolean): Sequence<T> | Sequence<S> {
-        return new FilteringSequence(this, predicate);
+        return new FusedSequence(this, filterStage(predicate));
+    }
+
+    /**
+     * Returns a new {@link Sequence} keeping the elements in this sequence that are instances of 
+     * `type`, according to `instanceof`.
+     * This operation is intermediate and stateless.\
+     * \
+     * The sequence created is non-sized.
+     */
+    public filterIsInstance<R>(type: abstract new (...args: any[]) => R): Sequence<R> {
+        return new FusedSequence(this, filterStage(item => item instanceof type));
+    }
+
+    /**
+     * Returns a new {@link Sequence} keeping the elements in this sequence that are neither `null`
+     * nor `undefined`.
+     * This operation is intermediate and stateless.\
+     * \
+     * The sequence created is non-sized.
+     */
+    public filterNotNull(): Sequence<NonNullable<T>> {
+        return new FusedSequence(this, filterStage(item => item != null));
     }
 
     /**
@@ -278,7 +594,8 @@ export class Sequence<T> implements Iterable<T> {
 
     /**
      * Returns a new {@link Sequence} flattening every sequence generated by the transformator function
-     * by one level. This operation is intermediate and stateless.\
+     * by one level. To flatten {@link AsyncSequence}s, use {@link flatMapAsync} instead.
+     * This operation is intermediate and stateless.\
      * \
      * The sequence created is non-sized.
      */
@@ -288,6 +605,20 @@ export class Sequence<T> implements Iterable<T> {
         return new FlatmappingSequence(this, transform);
     }
 
+    /**
+     * Returns a new {@link AsyncSequence} flattening every sequence generated by the asynchronous
+     * transformator function by one level. The transformator may return either 
+     * {@link AsyncSequence}s or {@link Sequence}s. Equivalent to `asAsync().flatMap(transform)`.
+     * This operation is intermediate and stateless.\
+     * \
+     * The sequence created is non-sized.
+     */
+    public flatMapAsync<U>(transform: (item: T) => AsyncSequence<U> | Sequence<U> | Promise<AsyncSequence<U> | Sequence<U>>): AsyncSequence<U>;
+    public flatMapAsync<U>(transform: (item: T, index?: number) => AsyncSequence<U> | Sequence<U> | Promise<AsyncSequence<U> | Sequence<U>>): AsyncSequence<U>;
+    public flatMapAsync<U>(transform: (item: T, index?: number) => AsyncSequence<U> | Sequence<U> | Promise<AsyncSequence<U> | Sequence<U>>): AsyncSequence<U> {
+        return (this.asAsync() as AsyncSequence<any> as AsyncSequence<T>).flatMap(transform);
+    }
+
     /**
      * Returns a value resulting from recursively applying an operation on an initial value and
      * the current value for every item of this sequence. This is a terminal operation. 
@@ -315,26 +646,69 @@ export class Sequence<T> implements Iterable<T> {
         }
     }
 
+    /**
+     * Returns a new {@link Sequence} combining every element of this sequence with every element of
+     * `inner` sharing its key, as {@link innerJoin} does. Elements of this sequence without 
+     * matches are combined with `undefined`, and so are the elements of `inner` without matches,
+     * which follow the rest grouped by key. Keys are compared as a {@link Map} would.
+     * `inner` is indexed as soon as the first element is requested, so it must be finite. 
+     * This operation is intermediate and stateful.\
+     * \
+     * The sequence created is non-sized.
+     */
+    public fullOuterJoin<I, K, R>(
+        inner: Iterable<I>,
+        outerKey: (item: T) => K,
+        innerKey: (item: I) => K,
+        combine: (outer: T | undefined, inner: I | undefined) => R
+    ): Sequence<R> {
+        return new JoiningSequence(this, Sequence.from(inner), outerKey, innerKey, combine, true, true);
+    }
+
     /**
      * Groups items in this sequence into a map by a key generated by the selector provided.
      * All items that generate the same key (according to {@link Map.has()} equality) will end up
-     * in the same bucket. This is a terminal operation.\
+     * in the same bucket. If a downstream collector is provided, every bucket is gathered through
+     * it instead of into an array (eg. `groupBy(selector, Collectors.counting())`).
+     * This is a terminal operation.\
      * \
      * Note: TinyLazySeq is opinionated about grouping algorithms and does not provide a "group to
      * object" equivalent (this method is equivalent to {@link Map.groupBy()}, and Sequence does not 
      * provide an {@link Object.groupBy()} version). The library developer discourages the usage of
      * objects as maps, as frequent dynamic addition of keys degrades property access performance.
      */
-    public groupBy<K>(selector: (item: T) => K): Map<K, T[]> {
-        return this.fold(new Map<K, T[]>(), (map, item) => {
-            const key = selector(item);
-            if (map.has(key)) {
-                map.get(key)!.push(item);
-            } else {
-                map.set(key, [])
-            }
-            return map;
-        })
+    public groupBy<K>(selector: (item: T) => K): Map<K, T[]>;
+    public groupBy<K, R>(selector: (item: T) => K, downstream: Collector<T, any, R>): Map<K, R>;
+    public groupBy<K, R>(selector: (item: T) => K, downstream?: Collector<T, any, R>): Map<K, T[] | R> {
+        return this.collect(Collectors.groupingBy<T, K, any, R | T[]>(selector, downstream ?? Collectors.toArray()));
+    }
+
+    /**
+     * Returns a new {@link Sequence} combining every element of this sequence with the array of
+     * elements of `inner` sharing its key, which is empty if there are none. Keys are compared as
+     * a {@link Map} would. `inner` is indexed as soon as the first element is requested, so it 
+     * must be finite. This operation is intermediate and stateful.\
+     * \
+     * The sequence created retains size information.
+     */
+    public groupJoin<I, K, R>(
+        inner: Iterable<I>,
+        outerKey: (item: T) => K,
+        innerKey: (item: I) => K,
+        combine: (outer: T, inners: I[]) => R
+    ): Sequence<R> {
+        return new GroupJoiningSequence(this, Sequence.from(inner), outerKey, innerKey, combine);
+    }
+
+    /**
+     * Returns a new {@link Sequence} containing the elements of this sequence, or the ones of the
+     * sequence returned by `fallback` if this sequence turns out to be empty. `fallback` is only
+     * called in that case. This operation is intermediate and stateless.\
+     * \
+     * The sequence created retains size information if this sequence is known to be non-empty.
+     */
+    public ifEmpty(fallback: () => Iterable<T>): Sequence<T> {
+        return new IfEmptySequence(this, fallback);
     }
 
     /**
@@ -350,6 +724,40 @@ export class Sequence<T> implements Iterable<T> {
         return -1;
     }
 
+    /**
+     * Returns a new {@link Sequence} combining every element of this sequence with every element of
+     * `inner` sharing its key, in order. Elements without matches are left out. Keys are compared
+     * as a {@link Map} would. `inner` is indexed as soon as the first element is requested, so
+     * it must be finite, while this sequence is streamed. 
+     * This operation is intermediate and stateful.\
+     * \
+     * The sequence created is non-sized.
+     */
+    public innerJoin<I, K, R>(
+        inner: Iterable<I>,
+        outerKey: (item: T) => K,
+        innerKey: (item: I) => K,
+        combine: (outer: T, inner: I) => R
+    ): Sequence<R> {
+        return new JoiningSequence(this, Sequence.from(inner), outerKey, innerKey, 
+            combine as (outer: T | undefined, inner: I | undefined) => R, false, false);
+    }
+
+    /**
+     * Returns a new {@link Sequence} containing the distinct elements of this sequence that are
+     * also contained by `other`, compared as {@link union} does. `other` is indexed as soon as the
+     * first element is requested, so it must be finite. This operation is intermediate and
+     * stateful.\
+     * \
+     * The sequence created retains size information: it has at most as many elements as the smaller
+     * of both sequences.
+     */
+    public intersect(other: Iterable<T>): Sequence<T>;
+    public intersect<K>(other: Iterable<T>, selector: (item: T) => K, equality?: KeyEquality<K>): Sequence<T>;
+    public intersect<K>(other: Iterable<T>, selector: (item: T) => K = item => item as unknown as K, equality?: KeyEquality<K>): Sequence<T> {
+        return new KeyFilteringSequence(this, Sequence.from(other), selector, equality, true);
+    }
+
     /**
      * Returns true if this collection contains no elements. This is a short-circuiting
      * terminal operation and it does not hang for infinite sequences.
@@ -405,10 +813,12 @@ export class Sequence<T> implements Iterable<T> {
     }
 
     /**
-     * Returns the last element contained by this sequence. 
-     * This is a terminal operation.
+     * Returns the last element contained by this sequence. This operation is O(1) for sequences
+     * backed by an array. This is a terminal operation.
      */
     public last(): T | undefined {
+        const indexed = this.indexed();
+        if (indexed) return indexed.length > 0 ? indexed.get(indexed.length - 1) : undefined;
         let result: T | undefined;
         for (const item of this) {
             result = item;
@@ -421,6 +831,14 @@ export class Sequence<T> implements Iterable<T> {
      * This is a terminal operation.
      */
     public lastIndexOf(value: T): number {
+        const indexed = this.indexed();
+        if (indexed) {
+            // searching backwards stops at the last match, without visiting the elements before it.
+            for (let index = indexed.length - 1; index >= 0; index--) {
+                if (indexed.get(index) === value) return index;
+            }
+            return -1;
+        }
         let result = -1;
         let index = 0;
         for (const item of this) {
@@ -431,122 +849,774 @@ export class Sequence<T> implements Iterable<T> {
     }
 
     /**
-     * Returns a new {@link Sequence} transforming each value of this sequence.
-     * This operation is intermediate and stateless.\
+     * Returns a new {@link Sequence} combining every element of this sequence with every element of
+     * `inner` sharing its key, as {@link innerJoin} does. Elements of this sequence without 
+     * matches are combined with `undefined`. Keys are compared as a {@link Map} would.
+     * `inner` is indexed as soon as the first element is requested, so it must be finite. 
+     * This operation is intermediate and stateful.\
+     * \
+     * The sequence created is non-sized.
+     */
+    public leftJoin<I, K, R>(
+        inner: Iterable<I>,
+        outerKey: (item: T) => K,
+        innerKey: (item: I) => K,
+        combine: (outer: T, inner: I | undefined) => R
+    ): Sequence<R> {
+        return new JoiningSequence(this, Sequence.from(inner), outerKey, innerKey, 
+            combine as (outer: T | undefined, inner: I | undefined) => R, true, false);
+    }
+
+    /**
+     * Returns a new {@link Sequence} transforming each value of this sequence. Over sequences
+     * backed by an array, `transform` is only called for the elements actually read, so the ones
+     * skipped by {@link drop}, or passed over by {@link elementAt} and {@link last}, are never
+     * transformed. This operation is intermediate and stateless.\
      * \
      * The sequence created retains size information.
      */
     public map<U>(transform: (item: T) => U): Sequence<U>;
     public map<U>(transform: (item: T, index?: number) => U): Sequence<U>;
     public map<U>(transform: (item: T, index?: number) => U): Sequence<U> {
-        return new MapSequence(this, transform);
+        return new FusedSequence(this, mapStage(transform));
     }
 
     /**
-     * Returns a value resulting from recursively applying an operation on the first element 
-     * of this sequence and the current value for every item of this sequence after the first. 
-     * This is a terminal operation. 
+     * Returns a new {@link Sequence} transforming each value of this sequence, and keeping only the
+     * results that are neither `null` nor `undefined`.
+     * This operation is intermediate and stateless.\
+     * \
+     * The sequence created is non-sized.
      */
-    public reduce<R extends T>(operation: (accumulator: R, current: T) => R): R | null;
-    public reduce<R extends T>(operation: (accumulator: R, current: T, index?: number) => R): R | null;
-    public reduce<R extends T>(operation: (accumulator: R, current: T, index: number) => R): R | null {
-        if (this.isEmpty()) return null;
-        let index = 0;
-        let result = this.first() as R;
-        for (const item of this.drop(1)) {
-            result = operation(result, item, index++);
-        }
-        return result;
+    public mapNotNull<U>(transform: (item: T) => U | null | undefined): Sequence<U>;
+    public mapNotNull<U>(transform: (item: T, index?: number) => U | null | undefined): Sequence<U>;
+    public mapNotNull<U>(transform: (item: T, index?: number) => U | null | undefined): Sequence<U> {
+        return new FusedSequence(this, mapNotNullStage(transform));
     }
 
     /**
-     * Returns the size of the iterable wrapped by this sequence if said iterable is a sized 
-     * collection (by implementing a length or size property). Otherwise, returns a negative number.
+     * Returns the greatest number in this sequence, or undefined if it's empty. NaN is greater 
+     * than any number, as with {@link Math.max()}. This is a terminal operation.
      */
-    public size(): number {
-        return this._size;
+    public max(this: Sequence<number>): number | undefined;
+    public max(this: Sequence<bigint>): bigint | undefined;
+    public max(this: Sequence<number> | Sequence<bigint>): number | bigint | undefined {
+        return (this as Sequence<any>).collect(Collectors.max());
     }
 
     /**
-     * If a predicate is provided, returns `true` if at least one element of this sequence fulfills
-     * it. Otherwise, returns `true` if there is at least one element in this sequence.
-     * This is short-circuiting terminal operation.
+     * Returns the first element of this sequence generating the greatest key through `selector`, 
+     * by the natural order of the keys, or undefined if it's empty. This is a terminal operation.
      */
-    public some(): boolean;
-    public some(predicate?: (item: T) => boolean): boolean;
-    public some(predicate?: (item: T, index?: number) => boolean): boolean;
-    public some(predicate: (item: T, index: number) => boolean = _ => true): boolean {
-        let index = 0;
-        for (const item of this) {
-            if (predicate(item, index++)) return true;
-        }
-        return false;
+    public maxBy(selector: (item: T) => Comparable | null | undefined): T | undefined {
+        return this.collect(Collectors.maxBy(selector));
     }
 
     /**
-     * Returns a new {@link Sequence} dropping all elements after the first `n`.
-     * This operation is intermediate and stateful.\
-     * \
-     * The sequence created retains size information.
+     * Returns the first of the greatest elements of this sequence according to `comparator`, or
+     * undefined if it's empty. This is a terminal operation.
      */
-    public take(n: number): Sequence<T> {
-        return new TakeSequence(this, n);
+    public maxWith(comparator: CompareFunction<T> | Comparator<T>): T | undefined {
+        return this.collect(Collectors.maxWith(comparator));
     }
 
     /**
-     * Returns a new {@link Sequence} dropping all elements after a predicate stops fulfilling for the
-     * first time. This operation is intermediate and stateful.\
-     * \
-     * The sequence created is non-sized.
+     * Returns the smallest number in this sequence, or undefined if it's empty. NaN is smaller 
+     * than any number, as with {@link Math.min()}. This is a terminal operation.
      */
-    public takeWhile(predicate: (item: T) => boolean): Sequence<T>;
-    public takeWhile(predicate: (item: T, index?: number) => boolean): Sequence<T>;
-    public takeWhile(predicate: (item: T, index?: number) => boolean): Sequence<T> {
-        return new TakeWhileSequence(this, predicate);
+    public min(this: Sequence<number>): number | undefined;
+    public min(this: Sequence<bigint>): bigint | undefined;
+    public min(this: Sequence<number> | Sequence<bigint>): number | bigint | undefined {
+        return (this as Sequence<any>).collect(Collectors.min());
     }
 
     /**
-     * Returns an array containing the elements of this sequence. This is a terminal operation.
+     * Returns the first element of this sequence generating the smallest key through `selector`, 
+     * by the natural order of the keys, or undefined if it's empty. This is a terminal operation.
      */
-    public toArray(): T[] {
-        return this.fold<T[]>([], (acc, curr) => { acc.push(curr); return acc; });
+    public minBy(selector: (item: T) => Comparable | null | undefined): T | undefined {
+        return this.collect(Collectors.minBy(selector));
     }
 
     /**
-     * Returns a string representation of this sequence and its estimated size, which could be one
-     * of the following:
-     * - empty: Sequence (empty)
-     * - an integer: Sequence (5)
-     * - unknown size: Sequence (unknown)
+     * Returns the first of the smallest elements of this sequence according to `comparator`, or
+     * undefined if it's empty. This is a terminal operation.
      */
-    public toString(): string {
-        if (this.isEmpty()) return "Sequence (empty)";
-        let sizeString = this.size() < 0
-            ? "unknown" : this.size().toString(); 
-        return `Sequence (${sizeString})`;
+    public minWith(comparator: CompareFunction<T> | Comparator<T>): T | undefined {
+        return this.collect(Collectors.minWith(comparator));
     }
 
     /**
-     * Returns a generator yielding all values contained by this sequence.
+     * Returns a new {@link Sequence} calling `callback` once every iteration over it ends, be it 
+     * because the sequence was exhausted, an error was thrown, or the consumer stopped early (eg.
+     * through `break`, `take` or `find`). Useful to release the resources behind a sequence. 
+     * This operation is intermediate and stateless.\
+     * \
+     * The sequence created retains size information.
      */
-    *[Symbol.iterator](): Generator<T> {
-        for (const value of this._values) yield value;
+    public onClose(callback: () => void): Sequence<T> {
+        return new ClosingSequence(this, callback);
     }
 
     /**
-     * ToString tag.
+     * Returns a new {@link Sequence} calling `action` on every element of this sequence as it 
+     * passes through, and then passing it on unchanged. Unlike {@link forEach}, nothing happens
+     * until the sequence created is iterated. This operation is intermediate and stateless.\
+     * \
+     * The sequence created retains size information.
      */
-    [Symbol.toStringTag]() { return "Sequence"; }
-}
+    public onEach(action: (item: T) => void): Sequence<T>;
+    public onEach(action: (item: T, index?: number) => void): Sequence<T>;
+    public onEach(action: (item: T, index?: number) => void): Sequence<T> {
+        return new FusedSequence(this, onEachStage(action));
+    }
 
-class GeneratorSequence<T> extends Sequence<T> {
-    private readonly initial: T;
-    private readonly nextValue: (current: T) => T | null;
-    constructor(
-        initial: T, 
-        nextValue: (current: T) => T | null
+    /**
+     * Returns a pair of arrays, the first containing the elements of this sequence fulfilling 
+     * `predicate`, and the second containing the ones that don't. This is a terminal operation.
+     */
+    public partition(predicate: (item: T) => boolean): [T[], T[]] {
+        return this.collect(Collectors.partitioningBy(predicate));
+    }
+
+    /**
+     * Returns a value resulting from recursively applying an operation on the first element 
+     * of this sequence and the current value for every item of this sequence after the first. 
+     * This is a terminal operation. 
+     */
+    public reduce<R extends T>(operation: (accumulator: R, current: T) => R): R | null;
+    public reduce<R extends T>(operation: (accumulator: R, current: T, index?: number) => R): R | null;
+    public reduce<R extends T>(operation: (accumulator: R, current: T, index: number) => R): R | null {
+        if (this.isEmpty()) return null;
+        let index = 0;
+        let result = this.first() as R;
+        for (const item of this.drop(1)) {
+            result = operation(result, item, index++);
+        }
+        return result;
+    }
+
+    /**
+     * Returns a new {@link Sequence} containing the elements of this sequence, throwing an 
+     * {@link Utils.IllegalArgumentError} upon reaching a `null` or `undefined` element.
+     * This operation is intermediate and stateless.\
+     * \
+     * The sequence created retains size information.
+     */
+    public requireNoNulls(): Sequence<NonNullable<T>> {
+        return new FusedSequence(this, onEachStage((item, index) => {
+            if (item == null) {
+                throw new Utils.IllegalArgumentError(`null element found at index ${index}`);
+            }
+        }));
+    }
+
+    /**
+     * Returns a new {@link Sequence} containing the elements of this sequence in reverse order.
+     * Sequences backed by an array are read backwards in place. Otherwise, every element is 
+     * buffered before the first one is yielded. This operation is intermediate and stateful.\
+     * \
+     * The sequence created retains size information.
+     */
+    public reversed(): Sequence<T> {
+        return new ReversingSequence(this);
+    }
+
+    /**
+     * Returns a new {@link Sequence} containing `initial`, followed by every intermediate result of
+     * recursively applying an operation on it and the current value for every item of this 
+     * sequence, in the same way {@link fold} does. Its last element is the result of `fold`. 
+     * This operation is intermediate and stateful.\
+     * \
+     * The sequence created retains size information, and has one more element than this sequence.
+     */
+    public runningFold<R>(initial: R, operation: (accumulator: R, current: T) => R): Sequence<R>;
+    public runningFold<R>(initial: R, operation: (accumulator: R, current: T, index?: number) => R): Sequence<R>;
+    public runningFold<R>(initial: R, operation: (accumulator: R, current: T, index: number) => R): Sequence<R> {
+        return new RunningFoldSequence(this, initial, operation);
+    }
+
+    /**
+     * Returns a new {@link Sequence} containing the first element of this sequence, followed by 
+     * every intermediate result of recursively applying an operation on it and the current value
+     * for every item after the first, in the same way {@link reduce} does. Its last element is the 
+     * result of `reduce`. This operation is intermediate and stateful.\
+     * \
+     * The sequence created retains size information.
+     */
+    public runningReduce<R extends T>(operation: (accumulator: R, current: T) => R): Sequence<R>;
+    public runningReduce<R extends T>(operation: (accumulator: R, current: T, index?: number) => R): Sequence<R>;
+    public runningReduce<R extends T>(operation: (accumulator: R, current: T, index: number) => R): Sequence<R> {
+        return new RunningReduceSequence(this, operation);
+    }
+
+    /**
+     * Equivalent to {@link runningFold}. This operation is intermediate and stateful.\
+     * \
+     * The sequence created retains size information, and has one more element than this sequence.
+     */
+    public scan<R>(initial: R, operation: (accumulator: R, current: T) => R): Sequence<R>;
+    public scan<R>(initial: R, operation: (accumulator: R, current: T, index?: number) => R): Sequence<R>;
+    public scan<R>(initial: R, operation: (accumulator: R, current: T, index: number) => R): Sequence<R> {
+        return new RunningFoldSequence(this, initial, operation);
+    }
+
+    /**
+     * Returns the size of the iterable wrapped by this sequence if said iterable is a sized 
+     * collection (by implementing a length or size property). Otherwise, returns a negative number.
+     * For bounds on the size of sequences whose size is not exactly known, see {@link sizeHint}.
+     */
+    public size(): number {
+        return this.sizeHint().toSize();
+    }
+
+    /**
+     * Returns the lower and upper bounds on the amount of elements in this sequence, as inferred
+     * from its source and the operations applied to it. The bounds are exact for sized sequences,
+     * and never require iterating the sequence.
+     */
+    public sizeHint(): SizeHint {
+        return this._sizeHint;
+    }
+
+    /**
+     * If a predicate is provided, returns `true` if at least one element of this sequence fulfills
+     * it. Otherwise, returns `true` if there is at least one element in this sequence.
+     * This is short-circuiting terminal operation.
+     */
+    public some(): boolean;
+    public some(predicate?: (item: T) => boolean): boolean;
+    public some(predicate?: (item: T, index?: number) => boolean): boolean;
+    public some(predicate: (item: T, index: number) => boolean = _ => true): boolean {
+        let index = 0;
+        for (const item of this) {
+            if (predicate(item, index++)) return true;
+        }
+        return false;
+    }
+
+    /**
+     * Returns a new {@link Sequence} containing the elements of this sequence sorted by their
+     * natural order. The sort is stable. This operation is intermediate and stateful.\
+     * \
+     * The sequence created retains size information.
+     */
+    public sorted<T extends Comparable | null | undefined>(this: Sequence<T>): Sequence<T> {
+        return new SortingSequence(this, item => item, Comparator.naturalOrder<T>().compare);
+    }
+
+    /**
+     * Returns a new {@link Sequence} containing the elements of this sequence sorted by the natural
+     * order of the key generated by `selector`. The selector is called once per element, and the 
+     * sort is stable. This operation is intermediate and stateful.\
+     * \
+     * The sequence created retains size information.
+     */
+    public sortedBy(selector: (item: T) => Comparable | null | undefined): Sequence<T> {
+        return new SortingSequence(this, selector, Comparator.naturalOrder<any>().compare);
+    }
+
+    /**
+     * Returns a new {@link Sequence} containing the elements of this sequence sorted descending by
+     * the natural order of the key generated by `selector`. The selector is called once per element,
+     * and the sort is stable. This operation is intermediate and stateful.\
+     * \
+     * The sequence created retains size information.
+     */
+    public sortedByDescending(selector: (item: T) => Comparable | null | undefined): Sequence<T> {
+        return new SortingSequence(this, selector, Comparator.reverseOrder<any>().compare);
+    }
+
+    /**
+     * Returns a new {@link Sequence} containing the elements of this sequence sorted descending by
+     * their natural order. The sort is stable. This operation is intermediate and stateful.\
+     * \
+     * The sequence created retains size information.
+     */
+    public sortedDescending<T extends Comparable | null | undefined>(this: Sequence<T>): Sequence<T> {
+        return new SortingSequence(this, item => item, Comparator.reverseOrder<T>().compare);
+    }
+
+    /**
+     * Returns a new {@link Sequence} containing the elements of this sequence sorted according to
+     * the provided comparator, which can be either a {@link Comparator} or a comparison function. 
+     * The sort is stable. This operation is intermediate and stateful.\
+     * \
+     * The sequence created retains size information.
+     */
+    public sortedWith(comparator: CompareFunction<T> | Comparator<T>): Sequence<T> {
+        return new SortingSequence(this, item => item, Comparator.of(comparator).compare);
+    }
+
+    /**
+     * Returns a new {@link Sequence} containing the distinct elements of this sequence that are
+     * not contained by `other`, compared as {@link union} does. `other` is indexed as soon as the
+     * first element is requested, so it must be finite. This operation is intermediate and
+     * stateful.\
+     * \
+     * The sequence created retains size information: it has at most as many elements as this
+     * sequence.
+     */
+    public subtract(other: Iterable<T>): Sequence<T>;
+    public subtract<K>(other: Iterable<T>, selector: (item: T) => K, equality?: KeyEquality<K>): Sequence<T>;
+    public subtract<K>(other: Iterable<T>, selector: (item: T) => K = item => item as unknown as K, equality?: KeyEquality<K>): Sequence<T> {
+        return new KeyFilteringSequence(this, Sequence.from(other), selector, equality, false);
+    }
+
+    /**
+     * Returns the sum of the numbers in this sequence, or 0 if it's empty. An empty sequence 
+     * cannot tell numbers from bigints, so bigint sums return the provided `zero` (usually `0n`)
+     * instead. This is a terminal operation.
+     */
+    public sum(this: Sequence<number>): number;
+    public sum(this: Sequence<bigint>, zero: bigint): bigint;
+    public sum(this: Sequence<number> | Sequence<bigint>, zero?: bigint): number | bigint {
+        return zero === undefined 
+            ? (this as Sequence<number>).collect(Collectors.summing()) 
+            : (this as Sequence<bigint>).collect(Collectors.summing(zero));
+    }
+
+    /**
+     * Returns the sum of the numbers generated by `selector` for every element of this sequence, 
+     * or 0 if it's empty (`zero` for bigints, as in {@link sum}). This is a terminal operation.
+     */
+    public sumBy(selector: (item: T) => number): number;
+    public sumBy(selector: (item: T) => bigint, zero: bigint): bigint;
+    public sumBy(selector: (item: T) => number | bigint, zero?: bigint): number | bigint {
+        return zero === undefined 
+            ? this.collect(Collectors.summing(selector as (item: T) => number)) 
+            : this.collect(Collectors.summing(selector as (item: T) => bigint, zero));
+    }
+
+    /**
+     * Returns the count, sum, minimum, maximum, mean and population variance of the numbers in 
+     * this sequence, gathered in a single pass (see {@link SummaryStatistics}). The sum of an
+     * empty sequence is 0, or `zero` for bigints, as in {@link sum}. This is a terminal operation.
+     */
+    public summaryStatistics(this: Sequence<number>): SummaryStatistics<number>;
+    public summaryStatistics(this: Sequence<bigint>, zero: bigint): SummaryStatistics<bigint>;
+    public summaryStatistics(this: Sequence<number> | Sequence<bigint>, zero?: bigint): SummaryStatistics<number> | SummaryStatistics<bigint> {
+        return zero === undefined 
+            ? (this as Sequence<number>).collect(Collectors.summarizing()) 
+            : (this as Sequence<bigint>).collect(Collectors.summarizing(zero));
+    }
+
+    /**
+     * Returns a new {@link Sequence} containing the distinct elements of this sequence that are
+     * not contained by `other`, followed by the distinct elements of `other` that are not
+     * contained by this sequence, compared as {@link union} does. `other` is indexed as soon as
+     * the first element is requested, so it must be finite. This operation is intermediate and
+     * stateful.\
+     * \
+     * The sequence created retains size information: it has at most as many elements as both
+     * sequences together.
+     */
+    public symmetricDifference(other: Iterable<T>): Sequence<T>;
+    public symmetricDifference<K>(other: Iterable<T>, selector: (item: T) => K, equality?: KeyEquality<K>): Sequence<T>;
+    public symmetricDifference<K>(other: Iterable<T>, selector: (item: T) => K = item => item as unknown as K, equality?: KeyEquality<K>): Sequence<T> {
+        return new SymmetricDifferenceSequence(this, Sequence.from(other), selector, equality);
+    }
+
+    /**
+     * Returns a new {@link Sequence} dropping all elements after the first `n`. A NaN 
+     * count throws an {@link Utils.IllegalArgumentError}.
+     * This operation is intermediate and stateful.\
+     * \
+     * The sequence created retains size information.
+     */
+    public take(n: number): Sequence<T> {
+        return new FusedSequence(this, takeStage(n));
+    }
+
+    /**
+     * Returns a new {@link Sequence} dropping all elements after a predicate stops fulfilling for the
+     * first time. This operation is intermediate and stateful.\
+     * \
+     * The sequence created is non-sized.
+     */
+    public takeWhile(predicate: (item: T) => boolean): Sequence<T>;
+    public takeWhile(predicate: (item: T, index?: number) => boolean): Sequence<T>;
+    public takeWhile(predicate: (item: T, index?: number) => boolean): Sequence<T> {
+        return new FusedSequence(this, takeWhileStage(predicate));
+    }
+
+    /**
+     * Returns an array containing the elements of this sequence. This is a terminal operation.
+     */
+    public toArray(): T[] {
+        const size = this.size();
+        if (size < 0) return this.fold<T[]>([], (acc, curr) => { acc.push(curr); return acc; });
+        // exactly sized sequences are copied into a pre-allocated array instead.
+        let index = 0;
+        const result = this.fold(new Array<T>(size), (acc, curr) => { acc[index++] = curr; return acc; });
+        result.length = index;
+        return result;
+    }
+
+    /**
+     * Returns a map containing the entries generated by the provided selectors for every element of
+     * this sequence. Elements generating a key already in the map are merged into it by 
+     * `onConflict`, which receives the value in the map first. If no `onConflict` function is 
+     * provided, duplicate keys throw an {@link Utils.IllegalStateError}. 
+     * This is a terminal operation.
+     */
+    public toMap<K, V>(
+        keySelector: (item: T) => K, 
+        valueSelector: (item: T) => V, 
+        onConflict?: (existing: V, incoming: V, key: K) => V
+    ): Map<K, V> {
+        return this.collect(Collectors.toMap(keySelector, valueSelector, onConflict));
+    }
+
+    /**
+     * Returns a set containing the elements of this sequence. This is a terminal operation.
+     */
+    public toSet(): Set<T> {
+        return this.collect(Collectors.toSet());
+    }
+
+    /**
+     * Returns a string representation of this sequence and its estimated size, which could be one
+     * of the following:
+     * - empty: Sequence (empty)
+     * - an integer: Sequence (5)
+     * - a range: Sequence (≤10), Sequence (≥3), Sequence (3..10)
+     * - unknown size: Sequence (unknown)
+     * - infinite: Sequence (infinite)
+     */
+    public toString(): string {
+        if (this.isEmpty()) return "Sequence (empty)";
+        return `Sequence (${this.sizeHint()})`;
+    }
+
+    /**
+     * Returns a new {@link Sequence} containing the distinct elements of this sequence, followed
+     * by the distinct elements of `other` that are not contained by this sequence. Elements are
+     * compared by the keys generated by `selector`, or by themselves if none is provided,
+     * according to the custom {@link KeyEquality} if one is given, or as a {@link Set} would
+     * otherwise. {@link intersect}, {@link subtract} and {@link symmetricDifference} compare
+     * elements the same way. This operation is intermediate and stateful, but it yields elements
+     * as soon as they are found, so it does not hang for infinite sequences.\
+     * \
+     * The sequence created retains size information: it has at most as many elements as both
+     * sequences together, and at least one if either of them is non-empty.
+     */
+    public union(other: Iterable<T>): Sequence<T>;
+    public union<K>(other: Iterable<T>, selector: (item: T) => K, equality?: KeyEquality<K>): Sequence<T>;
+    public union<K>(other: Iterable<T>, selector: (item: T) => K = item => item as unknown as K, equality?: KeyEquality<K>): Sequence<T> {
+        return new UnionSequence(this, Sequence.from(other), selector, equality);
+    }
+
+    /**
+     * Returns a pair of arrays, the first containing the first element of every pair in this 
+     * sequence, and the second containing the second ones. This is a terminal operation.
+     */
+    public unzip<A, B>(this: Sequence<[A, B]>): [A[], B[]] {
+        return this.fold<[A[], B[]]>([[], []], (acc, [a, b]) => {
+            acc[0].push(a);
+            acc[1].push(b);
+            return acc;
+        });
+    }
+
+    /**
+     * Returns a new {@link Sequence} of sliding windows of `size` elements over this sequence, 
+     * starting a new window every `step` elements (1 by default). Windows smaller than `size` at 
+     * the end of the sequence are only kept if `partial` is true. A size or step smaller than 1 
+     * throws an {@link Utils.IllegalArgumentError}. This operation is intermediate and stateful.\
+     * \
+     * The sequence created retains size information.
+     */
+    public windowed(size: number, step: number = 1, options?: { partial?: boolean }): Sequence<T[]> {
+        return new WindowingSequence(this, size, step, options?.partial ?? false, window => window);
+    }
+
+    /**
+     * Returns a new {@link Sequence} pairing every element of this sequence with its index, as
+     * `{ index, value }` objects. This operation is intermediate and stateless.\
+     * \
+     * The sequence created retains size information.
+     */
+    public withIndex(): Sequence<{ index: number, value: T }> {
+        return new FusedSequence(this, mapStage((value, index) => ({ index: index!, value })));
+    }
+
+    /**
+     * Returns a new {@link Sequence} of pairs built from the elements of this sequence and `other`
+     * at the same index. The sequence created ends as soon as either of them does.
+     * This operation is intermediate and stateless.\
+     * \
+     * The sequence created is sized if and only if both sequences are, in which case its size is
+     * the one of the shortest sequence.
+     */
+    public zip<U>(other: Sequence<U>): Sequence<[T, U]> {
+        return new ZipSequence<[T, U]>([this, other], values => values as [T, U]);
+    }
+
+    /**
+     * Returns a new {@link Sequence} of pairs built from the elements of this sequence and `other`
+     * at the same index. Unlike {@link zip}, the sequence created ends when both of them do, and
+     * the missing elements of this sequence are replaced by `fill`, and the ones of `other` by
+     * `otherFill`, or by `undefined` where no fill is provided. To only fill the elements of 
+     * `other`, pass `undefined` as `fill`. This operation is intermediate and stateless.\
+     * \
+     * The sequence created is sized if and only if both sequences are, in which case its size is
+     * the one of the longest sequence.
+     */
+    public zipLongest<U>(other: Sequence<U>): Sequence<[T | undefined, U | undefined]>;
+    public zipLongest<U>(other: Sequence<U>, fill: T): Sequence<[T, U | undefined]>;
+    public zipLongest<U>(other: Sequence<U>, fill: T, otherFill: U): Sequence<[T, U]>;
+    public zipLongest<U>(other: Sequence<U>, fill: undefined, otherFill: U): Sequence<[T | undefined, U]>;
+    public zipLongest<U>(other: Sequence<U>, fill?: T, otherFill?: U): Sequence<[T | undefined, U | undefined]> | Sequence<[T, U | undefined]> | Sequence<[T | undefined, U]> {
+        return new ZipLongestSequence<[T | undefined, U | undefined]>([this, other], [fill, otherFill]);
+    }
+
+    /**
+     * Returns a new {@link Sequence} combining the elements of this sequence and `other` at the
+     * same index through the `combine` function. The sequence created ends as soon as either of 
+     * them does. This operation is intermediate and stateless.\
+     * \
+     * The sequence created is sized if and only if both sequences are, in which case its size is
+     * the one of the shortest sequence.
+     */
+    public zipWith<U, R>(other: Sequence<U>, combine: (item: T, otherItem: U) => R): Sequence<R> {
+        return new ZipSequence<R>([this, other], values => combine(values[0] as T, values[1] as U));
+    }
+
+    /**
+     * Returns a generator yielding all values contained by this sequence.
+     */
+    *[Symbol.iterator](): Generator<T> {
+        for (const value of this._values) yield value;
+    }
+
+    /**
+     * Releases the resources behind this sequence, forwarding the disposal to the iterable it 
+     * wraps, if disposable. Intermediate sequences forward it to the sequences they were created
+     * from, so disposing of any stage releases its source.
+     */
+    [Utils.dispose](): void {
+        if (Utils.isDisposable(this._values)) this._values[Utils.dispose]();
+    }
+
+    /**
+     * ToString tag.
+     */
+    [Symbol.toStringTag]() { return "Sequence"; }
+}
+
+/**
+ * Marks elements dropped by a fused stage, such as the ones failing a filter.
+ */
+const skip: unique symbol = Symbol("skip");
+
+/**
+ * Marks the end of a fused iteration, once a stage cannot let any more elements through.
+ */
+const stop: unique symbol = Symbol("stop");
+
+/**
+ * State shared by the stages of a single fused iteration. Stages set `last` to end the iteration
+ * right after the current element, so that no extra element is pulled.
+ */
+interface FusionState {
+    last: boolean;
+}
+
+/**
+ * An intermediate operation that can be fused with its neighbours into a single loop. `create`
+ * is called once per iteration, returning the step that processes every element: it returns the
+ * element to pass downstream, `skip` to drop it, or `stop` to end the iteration.
+ */
+interface Stage {
+    size(upstream: SizeHint): SizeHint;
+    create(state: FusionState): (value: any) => any;
+    /**
+     * Returns the random access view of this stage over the view of its upstream, for stages 
+     * whose output elements depend only on their position.
+     */
+    index?(upstream: Indexed<any>): Indexed<any>;
+}
+
+function dropStage(n: number): Stage {
+    if (Number.isNaN(n)) {
+        throw new Utils.IllegalArgumentError("drop count must be a number");
+    }
+    // fractional counts behave as the next integer, as the counting in create() does.
+    const count = Math.max(0, Math.ceil(n));
+    return {
+        size: upstream => upstream.minus(count),
+        create: () => {
+            let dropped = 0;
+            return value => dropped++ >= n ? value : skip;
+        },
+        index: upstream => ({
+            length: Math.max(0, upstream.length - count),
+            get: index => upstream.get(index + count)
+        })
+    };
+}
+
+function dropWhileStage(predicate: (item: any, index?: number) => boolean): Stage {
+    return {
+        size: upstream => upstream.orFewer(),
+        create: () => {
+            let yielding = false;
+            let index = 0;
+            return value => {
+                if (!predicate(value, index++)) yielding = true;
+                return yielding ? value : skip;
+            };
+        }
+    };
+}
+
+function filterStage(predicate: (item: any, index?: number) => boolean): Stage {
+    return {
+        size: upstream => upstream.orFewer(),
+        create: () => {
+            let index = 0;
+            return value => predicate(value, index++) ? value : skip;
+        }
+    };
+}
+
+function mapStage(transform: (item: any, index?: number) => unknown): Stage {
+    return {
+        size: upstream => upstream,
+        create: () => {
+            let index = 0;
+            return value => transform(value, index++);
+        },
+        index: upstream => ({
+            length: upstream.length,
+            get: index => transform(upstream.get(index), index)
+        })
+    };
+}
+
+function mapNotNullStage(transform: (item: any, index?: number) => unknown): Stage {
+    return {
+        size: upstream => upstream.orFewer(),
+        create: () => {
+            let index = 0;
+            return value => transform(value, index++) ?? skip;
+        }
+    };
+}
+
+/**
+ * Has no random access view, so that `action` sees every element before the ones requested, as
+ * it would when iterating.
+ */
+function onEachStage(action: (item: any, index?: number) => void): Stage {
+    return {
+        size: upstream => upstream,
+        create: () => {
+            let index = 0;
+            return value => {
+                action(value, index++);
+                return value;
+            };
+        }
+    };
+}
+
+function takeStage(n: number): Stage {
+    if (Number.isNaN(n)) {
+        throw new Utils.IllegalArgumentError("take count must be a number");
+    }
+    const count = Math.max(0, Math.ceil(n));
+    return {
+        size: upstream => upstream.atMost(count),
+        create: state => {
+            if (n <= 0) state.last = true;
+            let taken = 0;
+            return value => {
+                // stopping right after the last element, instead of on the next one, keeps an
+                // extra element from being pulled from upstream.
+                if (++taken >= n) state.last = true;
+                return value;
+            };
+        },
+        index: upstream => ({
+            length: Math.min(upstream.length, count),
+            get: upstream.get
+        })
+    };
+}
+
+function takeWhileStage(predicate: (item: any, index?: number) => boolean): Stage {
+    return {
+        size: upstream => upstream.orFewer(),
+        create: () => {
+            let index = 0;
+            return value => predicate(value, index++) ? value : stop;
+        }
+    };
+}
+
+class FusedSequence<T> extends Sequence<T> {
+    private readonly stages: Stage[];
+    constructor(sequence: Sequence<any>, stage: Stage) {
+        // consecutive fusable stages share a single loop over the first non-fused upstream
+        // sequence, instead of nesting one generator per stage.
+        const fused = sequence instanceof FusedSequence;
+        super(fused ? sequence._values : sequence, stage.size(sequence.sizeHint()));
+        this.stages = fused ? [...sequence.stages, stage] : [stage];
+    }
+
+    protected override indexed(): Indexed<T> | undefined {
+        if (!this.stages.every(stage => stage.index)) return undefined;
+        let indexed: Indexed<any> | undefined = (this._values as Sequence<any>)["indexed"]();
+        for (const stage of this.stages) {
+            if (!indexed) return undefined;
+            indexed = stage.index!(indexed);
+        }
+        return indexed;
+    }
+
+    override *[Symbol.iterator]() {
+        const indexed = this.indexed();
+        if (indexed) {
+            for (let index = 0; index < indexed.length; index++) yield indexed.get(index);
+            return;
+        }
+        const state: FusionState = { last: false };
+        const steps = this.stages.map(stage => stage.create(state));
+        if (state.last) return;
+        for (const item of this._values) {
+            let value: unknown = item;
+            for (let index = 0; index < steps.length; index++) {
+                value = steps[index]!(value);
+                if (value === skip || value === stop) break;
+            }
+            if (value === stop) return;
+            if (value !== skip) yield value as T;
+            if (state.last) return;
+        }
+    }
+}
+
+class IndexedSequence<T> extends Sequence<T> {
+    constructor(values: ArrayLike<T> & Iterable<T>) {
+        super(values, values.length);
+    }
+
+    protected override indexed(): Indexed<T> {
+        const values = this._values as any as ArrayLike<T>;
+        return { length: values.length, get: index => values[index]! };
+    }
+}
+
+class GeneratorSequence<T> extends Sequence<T> {
+    private readonly initial: T;
+    private readonly nextValue: (current: T) => T | null;
+    constructor(
+        initial: T, 
+        nextValue: (current: T) => T | null
     ) { 
-        super([], -1); 
+        super([], SizeHint.unknown); 
         this.initial = initial;
         this.nextValue = nextValue;
     }
@@ -562,14 +1632,275 @@ class GeneratorSequence<T> extends Sequence<T> {
     }
 }
 
+class UnfoldingSequence<T, S> extends Sequence<T> {
+    private readonly seed: S;
+    private readonly next: (state: S) => [T, S] | undefined;
+    constructor(
+        seed: S,
+        next: (state: S) => [T, S] | undefined
+    ) {
+        super([], SizeHint.unknown);
+        this.seed = seed;
+        this.next = next;
+    }
+
+    override *[Symbol.iterator]() {
+        let state = this.seed;
+        let step: [T, S] | undefined;
+        while ((step = this.next(state)) !== undefined) {
+            yield step[0];
+            state = step[1];
+        }
+    }
+}
+
+class DepthFirstSequence<T> extends Sequence<T> {
+    private readonly root: T;
+    private readonly children: (node: T) => Iterable<T>;
+    private readonly maxDepth: number;
+    private readonly detectCycles: boolean | ((node: T) => unknown) | undefined;
+    private readonly postOrder: boolean;
+    constructor(
+        root: T,
+        children: (node: T) => Iterable<T>,
+        options: TraversalOptions<T>
+    ) {
+        const maxDepth = options.maxDepth ?? Infinity;
+        if (!(Number.isInteger(maxDepth) || maxDepth === Infinity) || maxDepth < 0) {
+            throw new Utils.IllegalArgumentError("maxDepth must be a non-negative integer or Infinity");
+        }
+        super([], traversalHint(maxDepth));
+        this.root = root;
+        this.children = children;
+        this.maxDepth = maxDepth;
+        this.detectCycles = options.detectCycles;
+        this.postOrder = options.order === "post";
+    }
+
+    override *[Symbol.iterator]() {
+        const firstVisit = firstVisits(this.detectCycles);
+        firstVisit(this.root);
+        if (!this.postOrder) yield this.root;
+        // every node from the root to the current one, along with its children left to visit.
+        const path: [T, Iterator<T> | undefined][] = [[this.root, this.childrenOf(this.root, 0)]];
+        try {
+            while (path.length > 0) {
+                const [node, children] = path[path.length - 1]!;
+                const result = children?.next();
+                if (!result || result.done) {
+                    path.pop();
+                    if (this.postOrder) yield node;
+                } else if (firstVisit(result.value)) {
+                    if (!this.postOrder) yield result.value;
+                    path.push([result.value, this.childrenOf(result.value, path.length)]);
+                }
+            }
+        } finally {
+            for (const [, children] of path) children?.return?.();
+        }
+    }
+
+    private childrenOf(node: T, depth: number): Iterator<T> | undefined {
+        return depth < this.maxDepth ? this.children(node)[Symbol.iterator]() : undefined;
+    }
+}
+
+class BreadthFirstSequence<T> extends Sequence<T> {
+    private readonly root: T;
+    private readonly children: (node: T) => Iterable<T>;
+    private readonly maxDepth: number;
+    private readonly detectCycles: boolean | ((node: T) => unknown) | undefined;
+    constructor(
+        root: T,
+        children: (node: T) => Iterable<T>,
+        options: Omit<TraversalOptions<T>, "order">
+    ) {
+        const maxDepth = options.maxDepth ?? Infinity;
+        if (!(Number.isInteger(maxDepth) || maxDepth === Infinity) || maxDepth < 0) {
+            throw new Utils.IllegalArgumentError("maxDepth must be a non-negative integer or Infinity");
+        }
+        super([], traversalHint(maxDepth));
+        this.root = root;
+        this.children = children;
+        this.maxDepth = maxDepth;
+        this.detectCycles = options.detectCycles;
+    }
+
+    override *[Symbol.iterator]() {
+        const firstVisit = firstVisits(this.detectCycles);
+        firstVisit(this.root);
+        // nodes are marked as visited once queued, so that no node is queued twice.
+        let level = [this.root];
+        for (let depth = 0; level.length > 0; depth++) {
+            const next: T[] = [];
+            for (const node of level) {
+                yield node;
+                if (depth >= this.maxDepth) continue;
+                for (const child of this.children(node)) {
+                    if (firstVisit(child)) next.push(child);
+                }
+            }
+            level = next;
+        }
+    }
+}
+
+class RangeSequence extends Sequence<number> {
+    private readonly start: number;
+    private readonly step: number;
+    private readonly length: number;
+    constructor(start: number, end: number, step: number | undefined, closed: boolean) {
+        // an infinite end is how infinite ranges are made, but no other bound can be non-finite.
+        if (!Number.isFinite(start) || Number.isNaN(end)) {
+            throw new Utils.IllegalArgumentError("range start must be finite and end must be a number");
+        }
+        const actualStep = step ?? (end < start ? -1 : 1);
+        if (actualStep === 0) {
+            throw new Utils.IllegalArgumentError("range step must be non-zero");
+        }
+        if (!Number.isFinite(actualStep)) {
+            throw new Utils.IllegalArgumentError("range step must be finite");
+        }
+        // floating point steps can land a hair away from an exact multiple (eg. 0.3 / 0.1), so
+        // quotients very close to an integer are snapped to it before rounding.
+        let quotient = (end - start) / actualStep;
+        const nearest = Math.round(quotient);
+        if (Math.abs(quotient - nearest) < 1e-9) quotient = nearest;
+        const length = Math.max(0, closed ? Math.floor(quotient) + 1 : Math.ceil(quotient));
+        super([], Number.isFinite(length) ? SizeHint.exact(length) : SizeHint.infinite);
+        this.start = start;
+        this.step = actualStep;
+        this.length = length;
+    }
+
+    override elementAt(index: number): number | undefined {
+        if (index < 0 || index >= this.length || !Number.isInteger(index)) return undefined;
+        return this.start + index * this.step;
+    }
+
+    protected override indexed(): Indexed<number> | undefined {
+        // infinite ranges keep iterating instead, so that last() hangs as it always has.
+        if (!Number.isFinite(this.length)) return undefined;
+        return { length: this.length, get: index => this.start + index * this.step };
+    }
+
+    override *[Symbol.iterator]() {
+        for (let index = 0; index < this.length; index++) {
+            yield this.start + index * this.step;
+        }
+    }
+}
+
+class BigIntRangeSequence extends Sequence<bigint> {
+    private readonly start: bigint;
+    private readonly step: bigint;
+    constructor(start: bigint, end: bigint, step: bigint | undefined, closed: boolean) {
+        const zero = BigInt(0), one = BigInt(1);
+        const actualStep = step ?? (end < start ? -one : one);
+        if (actualStep === zero) {
+            throw new Utils.IllegalArgumentError("range step must be non-zero");
+        }
+        const span = end - start;
+        let length: bigint;
+        if (span !== zero && (span > zero) !== (actualStep > zero)) {
+            length = zero;
+        } else {
+            const distance  = span < zero ? -span : span;
+            const magnitude = actualStep < zero ? -actualStep : actualStep;
+            length = closed 
+                ? distance / magnitude + one 
+                : (distance + magnitude - one) / magnitude;
+        }
+        super([], Number(length));
+        this.start = start;
+        this.step = actualStep;
+    }
+
+    protected override indexed(): Indexed<bigint> {
+        return { length: this._size, get: index => this.start + BigInt(index) * this.step };
+    }
+
+    override *[Symbol.iterator]() {
+        for (let index = 0; index < this._size; index++) {
+            yield this.start + BigInt(index) * this.step;
+        }
+    }
+}
+
+class CachingSequence<T> extends Sequence<T> {
+    private readonly cache: T[] = [];
+    private iterator: Iterator<T> | undefined;
+    private exhausted = false;
+    private disposed = false;
+    private failure: { error: unknown } | undefined;
+    constructor(sequence: Sequence<T>) {
+        super(sequence, sequence.sizeHint());
+    }
+
+    override sizeHint(): SizeHint {
+        return this.exhausted || this.disposed ? SizeHint.exact(this.cache.length) : this._sizeHint;
+    }
+
+    override [Utils.dispose](): void {
+        this.disposed = true;
+        // the shared iterator outlives the iterations abandoning it, so it is only closed here.
+        this.iterator?.return?.();
+        this.iterator = undefined;
+        super[Utils.dispose]();
+    }
+
+    override *[Symbol.iterator]() {
+        for (let index = 0; ; index++) {
+            if (index >= this.cache.length) {
+                if (this.failure) throw this.failure.error;
+                // a disposed source is never reopened, only its stored elements are replayed.
+                if (this.exhausted || this.disposed) return;
+                this.iterator ??= this._values[Symbol.iterator]();
+                let next: IteratorResult<T>;
+                try {
+                    next = this.iterator.next();
+                } catch (error) {
+                    this.failure = { error };
+                    throw error;
+                }
+                if (next.done) {
+                    this.exhausted = true;
+                    this.iterator = undefined;
+                    return;
+                }
+                this.cache.push(next.value);
+            }
+            yield this.cache[index]!;
+        }
+    }
+}
+
+class ClosingSequence<T> extends Sequence<T> {
+    private readonly callback: () => void;
+    constructor(
+        sequence: Sequence<T>,
+        callback: () => void
+    ) {
+        super(sequence, sequence.sizeHint());
+        this.callback = callback;
+    }
+
+    override *[Symbol.iterator]() {
+        try {
+            yield* this._values;
+        } finally {
+            this.callback();
+        }
+    }
+}
+
 class ConcatSequence<T> extends Sequence<T> {
     private readonly other: Sequence<T>;
     constructor(
         sequence: Sequence<T>,
         other: Sequence<T>
     ) {
-        if (sequence.size() < 0 || other.size() < 0) { super(sequence, -1); } 
-        else { super(sequence, sequence.size() + other.size()); }
+        super(sequence, sequence.sizeHint().plus(other.sizeHint()));
         this.other = other;
     }
 
@@ -577,94 +1908,265 @@ class ConcatSequence<T> extends Sequence<T> {
         yield* this._values;
         yield* this.other["_values"]; // absolutely cursed. I know.
     }
+
+    override [Utils.dispose](): void {
+        super[Utils.dispose]();
+        this.other[Utils.dispose]();
+    }
 }
 
 class ConstrainedSequence<T> extends Sequence<T> {
     private readonly iterator: Iterator<T>;
     private iterated: boolean = false;
-    constructor(iterator: Iterator<T>, size: number) {
+    constructor(iterator: Iterator<T>, size: SizeHint) {
         super([], size);
         this.iterator = iterator;
     }
 
+    /**
+     * Releases the iterator behind this sequence, through its own disposal if it has one, or by
+     * closing it otherwise. The sequence cannot be iterated afterwards.
+     */
+    override [Utils.dispose](): void {
+        this.iterated = true;
+        if (Utils.isDisposable(this.iterator)) this.iterator[Utils.dispose]();
+        else this.iterator.return?.();
+    }
+
     override *[Symbol.iterator]() {
         if (this.iterated) { 
-            throw new Utils.IllegalStateError("attempted to iterate a constrained sequence more than once"); 
+            throw new Utils.ConsumedError("attempted to iterate a constrained sequence more than once"); 
         }
         this.iterated = true;
-        let next = this.iterator.next();
-        while (!next.done) {
-            try {
-                yield next.value;
-            } finally {
-                next = this.iterator.next();
+        // whether the iterator has to be closed if this generator is abandoned. Iterators whose
+        // next() or throw() threw, or that are done, are already closed by protocol.
+        let active = false;
+        try {
+            let next = this.iterator.next();
+            while (!next.done) {
+                active = true;
+                let thrown: { error: unknown } | undefined;
+                try {
+                    yield next.value;
+                } catch (error) {
+                    thrown = { error };
+                }
+                if (thrown && !this.iterator.throw) throw thrown.error;
+                active = false;
+                next = thrown ? this.iterator.throw!(thrown.error) : this.iterator.next();
             }
+        } finally {
+            if (active) this.iterator.return?.();
         }
     }
 }
 
-class DropSequence<T> extends Sequence<T> {
-    private readonly n: number;
+class DistinctSequence<T, K> extends Sequence<T> {
+    private readonly selector: (item: T) => K;
+    private readonly equality: KeyEquality<K> | undefined;
     constructor(
         sequence: Sequence<T>,
-        n: number
-    ) { 
-        if (sequence.size() < 0) { super(sequence, -1); } 
-        else { super(sequence, sequence.size() - n < 0 ? 0 : sequence.size() - n); }
-        this.n = n;
+        selector: (item: T) => K,
+        equality: KeyEquality<K> | undefined
+    ) {
+        // at least one element is kept out of a non-empty sequence.
+        const hint = sequence.sizeHint();
+        super(sequence, SizeHint.between(Math.min(1, hint.lower), hint.upper));
+        this.selector = selector;
+        this.equality = equality;
     }
 
     override *[Symbol.iterator]() {
-        let dropped = 0;
+        const seen = new KeySet(this.equality);
         for (const value of this._values) {
-            if (dropped++ >= this.n) {
-                yield value;
+            if (seen.add(this.selector(value))) yield value;
+        }
+    }
+}
+
+class JoiningSequence<T, I, K, R> extends Sequence<R> {
+    private readonly inner: Sequence<I>;
+    private readonly outerKey: (item: T) => K;
+    private readonly innerKey: (item: I) => K;
+    private readonly combine: (outer: T | undefined, inner: I | undefined) => R;
+    private readonly keepOuter: boolean;
+    private readonly keepInner: boolean;
+    constructor(
+        sequence: Sequence<T>,
+        inner: Sequence<I>,
+        outerKey: (item: T) => K,
+        innerKey: (item: I) => K,
+        combine: (outer: T | undefined, inner: I | undefined) => R,
+        keepOuter: boolean,
+        keepInner: boolean
+    ) {
+        // every element of this sequence is kept at least once by outer joins.
+        super(sequence as any, keepOuter ? SizeHint.between(sequence.sizeHint().lower, Infinity) : SizeHint.unknown);
+        this.inner = inner;
+        this.outerKey = outerKey;
+        this.innerKey = innerKey;
+        this.combine = combine;
+        this.keepOuter = keepOuter;
+        this.keepInner = keepInner;
+    }
+
+    override *[Symbol.iterator]() {
+        const lookup = this.inner.groupBy(this.innerKey);
+        const matched = new Set<K>();
+        for (const item of this._values as any as Iterable<T>) {
+            const key = this.outerKey(item);
+            const group = lookup.get(key);
+            if (group) {
+                if (this.keepInner) matched.add(key);
+                for (const other of group) yield this.combine(item, other);
+            } else if (this.keepOuter) {
+                yield this.combine(item, undefined);
             }
         }
+        if (!this.keepInner) return;
+        for (const [key, group] of lookup) {
+            if (matched.has(key)) continue;
+            for (const other of group) yield this.combine(undefined, other);
+        }
     }
 }
 
-class DropWhileSequence<T> extends Sequence<T> {
-    private readonly predicate: (item: T, index?: number) => boolean;
+class GroupJoiningSequence<T, I, K, R> extends Sequence<R> {
+    private readonly inner: Sequence<I>;
+    private readonly outerKey: (item: T) => K;
+    private readonly innerKey: (item: I) => K;
+    private readonly combine: (outer: T, inners: I[]) => R;
     constructor(
         sequence: Sequence<T>,
-        predicate: (item: T, index?: number) => boolean
-    ) { 
-        super(sequence, -1); 
-        this.predicate = predicate;
+        inner: Sequence<I>,
+        outerKey: (item: T) => K,
+        innerKey: (item: I) => K,
+        combine: (outer: T, inners: I[]) => R
+    ) {
+        super(sequence as any, sequence.sizeHint());
+        this.inner = inner;
+        this.outerKey = outerKey;
+        this.innerKey = innerKey;
+        this.combine = combine;
     }
 
     override *[Symbol.iterator]() {
-        let yielding = false;
-        let index = 0;
+        const lookup = this.inner.groupBy(this.innerKey);
+        for (const item of this._values as any as Iterable<T>) {
+            yield this.combine(item, lookup.get(this.outerKey(item)) ?? []);
+        }
+    }
+}
+
+class KeyFilteringSequence<T, K> extends Sequence<T> {
+    private readonly other: Sequence<T>;
+    private readonly selector: (item: T) => K;
+    private readonly equality: KeyEquality<K> | undefined;
+    private readonly retain: boolean;
+    constructor(
+        sequence: Sequence<T>,
+        other: Sequence<T>,
+        selector: (item: T) => K,
+        equality: KeyEquality<K> | undefined,
+        retain: boolean
+    ) {
+        // an intersection keeps at most one element per element of the other sequence.
+        const hint = sequence.sizeHint().orFewer();
+        super(sequence, retain ? hint.min(other.sizeHint()) : hint);
+        this.other = other;
+        this.selector = selector;
+        this.equality = equality;
+        this.retain = retain;
+    }
+
+    override *[Symbol.iterator]() {
+        const index = new KeySet(this.equality);
+        for (const value of this.other) {
+            index.add(this.selector(value));
+        }
+        const seen = new KeySet(this.equality);
         for (const value of this._values) {
-            if (!this.predicate(value, index++)) yielding = true;
-            if (yielding) yield value;
+            const key = this.selector(value);
+            if (index.has(key) === this.retain && seen.add(key)) yield value;
         }
     }
 }
 
-class FilteringSequence<T> extends Sequence<T> {
-    private readonly predicate: (item: T, index?: number) => boolean;
+class SymmetricDifferenceSequence<T, K> extends Sequence<T> {
+    private readonly other: Sequence<T>;
+    private readonly selector: (item: T) => K;
+    private readonly equality: KeyEquality<K> | undefined;
     constructor(
         sequence: Sequence<T>,
-        predicate: (item: T, index?: number) => boolean
+        other: Sequence<T>,
+        selector: (item: T) => K,
+        equality: KeyEquality<K> | undefined
     ) {
-        super(sequence, -1);
-        this.predicate = predicate;
+        super(sequence, sequence.sizeHint().plus(other.sizeHint()).orFewer());
+        this.other = other;
+        this.selector = selector;
+        this.equality = equality;
     }
 
     override *[Symbol.iterator]() {
-        let index = 0;
+        // the other sequence is buffered while indexed, so that it is only iterated once.
+        const others: [T, K][] = [];
+        const index = new KeySet(this.equality);
+        for (const value of this.other) {
+            const key = this.selector(value);
+            others.push([value, key]);
+            index.add(key);
+        }
+        const seen = new KeySet(this.equality);
+        for (const value of this._values) {
+            const key = this.selector(value);
+            if (seen.add(key) && !index.has(key)) yield value;
+        }
+        for (const [value, key] of others) {
+            if (seen.add(key)) yield value;
+        }
+    }
+}
+
+class UnionSequence<T, K> extends Sequence<T> {
+    private readonly other: Sequence<T>;
+    private readonly selector: (item: T) => K;
+    private readonly equality: KeyEquality<K> | undefined;
+    constructor(
+        sequence: Sequence<T>,
+        other: Sequence<T>,
+        selector: (item: T) => K,
+        equality: KeyEquality<K> | undefined
+    ) {
+        // at least one element is kept out of a non-empty union.
+        const hint = sequence.sizeHint().plus(other.sizeHint());
+        super(sequence, SizeHint.between(Math.min(1, hint.lower), hint.upper));
+        this.other = other;
+        this.selector = selector;
+        this.equality = equality;
+    }
+
+    override *[Symbol.iterator]() {
+        const seen = new KeySet(this.equality);
         for (const value of this._values) {
-            if (this.predicate(value, index++)) yield value;
+            if (seen.add(this.selector(value))) yield value;
+        }
+        for (const value of this.other) {
+            if (seen.add(this.selector(value))) yield value;
         }
     }
 }
 
+/**
+ * Flattened sequences can only be known to be empty if their upstream sequence is.
+ */
+function flattenedHint(sequence: Sequence<any>): SizeHint {
+    return sequence.sizeHint().upper === 0 ? SizeHint.exact(0) : SizeHint.unknown;
+}
+
 class FlatteningSequence<T> extends Sequence<T> {
     constructor(sequence: Sequence<Sequence<T>>) { 
-        super(sequence as any, -1); 
+        super(sequence as any, flattenedHint(sequence)); 
     }
 
     override *[Symbol.iterator]() {
@@ -680,7 +2182,7 @@ class FlatmappingSequence<T, U> extends Sequence<U> {
         sequence: Sequence<T>,
         transform: (item: T, index?: number) => Sequence<U>
     ) {
-        super(sequence as any, -1);
+        super(sequence as any, flattenedHint(sequence));
         this.transform = transform;
     }
 
@@ -692,67 +2194,243 @@ class FlatmappingSequence<T, U> extends Sequence<U> {
     }
 }
 
-class MapSequence<T, U> extends Sequence<U> {
-    private readonly transform: (item: T, index?: number) => U;
+class ReversingSequence<T> extends Sequence<T> {
+    constructor(sequence: Sequence<T>) {
+        super(sequence, sequence.sizeHint());
+    }
+
+    protected override indexed(): Indexed<T> | undefined {
+        const indexed: Indexed<T> | undefined = (this._values as Sequence<T>)["indexed"]();
+        if (!indexed) return undefined;
+        const last = indexed.length - 1;
+        return { length: indexed.length, get: index => indexed.get(last - index) };
+    }
+
+    override *[Symbol.iterator]() {
+        const indexed = this.indexed();
+        if (indexed) {
+            for (let index = 0; index < indexed.length; index++) yield indexed.get(index);
+            return;
+        }
+        const buffer = [...this._values];
+        for (let index = buffer.length - 1; index >= 0; index--) yield buffer[index]!;
+    }
+}
+
+class IfEmptySequence<T> extends Sequence<T> {
+    private readonly fallback: () => Iterable<T>;
     constructor(
         sequence: Sequence<T>,
-        transform: (item: T, index?: number) => U
+        fallback: () => Iterable<T>
     ) {
-        super(sequence as any, sequence.size());
-        this.transform = transform;
+        // only sequences known to hold an element are known to not be replaced by the fallback.
+        super(sequence, sequence.sizeHint().lower > 0 ? sequence.sizeHint() : SizeHint.unknown);
+        this.fallback = fallback;
+    }
+
+    override *[Symbol.iterator]() {
+        let empty = true;
+        for (const item of this._values) {
+            empty = false;
+            yield item;
+        }
+        if (empty) yield* this.fallback();
+    }
+}
+
+class RunningFoldSequence<T, R> extends Sequence<R> {
+    private readonly initial: R;
+    private readonly operation: (accumulator: R, current: T, index: number) => R;
+    constructor(
+        sequence: Sequence<T>,
+        initial: R,
+        operation: (accumulator: R, current: T, index: number) => R
+    ) {
+        super(sequence as any, sequence.sizeHint().plus(SizeHint.exact(1)));
+        this.initial = initial;
+        this.operation = operation;
     }
 
     override *[Symbol.iterator]() {
+        let accumulator = this.initial;
         let index = 0;
-        for (const value of this._values) {
-            yield this.transform(value as any, index++);
+        yield accumulator;
+        for (const item of this._values as any as Iterable<T>) {
+            yield accumulator = this.operation(accumulator, item, index++);
+        }
+    }
+}
+
+class RunningReduceSequence<T, R extends T> extends Sequence<R> {
+    private readonly operation: (accumulator: R, current: T, index: number) => R;
+    constructor(
+        sequence: Sequence<T>,
+        operation: (accumulator: R, current: T, index: number) => R
+    ) {
+        super(sequence as any, sequence.sizeHint());
+        this.operation = operation;
+    }
+
+    override *[Symbol.iterator]() {
+        let accumulator: R | undefined;
+        let index = -1;
+        for (const item of this._values as any as Iterable<T>) {
+            // the first element starts the accumulation, and the index counts from the second one,
+            // as reduce does.
+            accumulator = index < 0 ? item as R : this.operation(accumulator!, item, index);
+            index++;
+            yield accumulator;
         }
     }
 }
 
-class TakeSequence<T> extends Sequence<T> {
-    private readonly n: number;
+class SortingSequence<T, K> extends Sequence<T> {
+    private readonly selector: (item: T) => K;
+    private readonly compare: CompareFunction<K>;
     constructor(
         sequence: Sequence<T>,
-        n: number
+        selector: (item: T) => K,
+        compare: CompareFunction<K>
     ) {
-        super(sequence, 
-            sequence.size() < 0          // if the current sequence is of unknown size,
-                ? -1                     // the new sequence will also have unknown size.
-                : n > sequence.size()    // otherwise, if n is greater than the current size,
-                    ? sequence.size()    // then the size will be the current size.
-                    : n);                // else, n.
-        this.n = n;
+        super(sequence, sequence.sizeHint());
+        this.selector = selector;
+        this.compare = compare;
     }
 
     override *[Symbol.iterator]() {
-        let taken = 0;
+        // elements are paired with their keys so selectors run once per element, and so that
+        // Array.sort never sees (and moves to the end) an undefined element on its own.
+        const entries: [K, T][] = [];
         for (const value of this._values) {
-            if (taken++ < this.n) {
-                yield value;
+            entries.push([this.selector(value), value]);
+        }
+        entries.sort((a, b) => this.compare(a[0], b[0]));
+        for (const entry of entries) yield entry[1];
+    }
+}
+
+class ZipSequence<R> extends Sequence<R> {
+    private readonly sequences: Sequence<any>[];
+    private readonly combine: (values: unknown[]) => R;
+    constructor(
+        sequences: Sequence<any>[],
+        combine: (values: unknown[]) => R
+    ) {
+        super([], sequences.length === 0 
+            ? SizeHint.exact(0) 
+            : sequences.map(sequence => sequence.sizeHint()).reduce((acc, hint) => acc.min(hint)));
+        this.sequences = sequences;
+        this.combine = combine;
+    }
+
+    override *[Symbol.iterator]() {
+        if (this.sequences.length === 0) return;
+        const iterators: Iterator<unknown>[] = this.sequences.map(sequence => sequence[Symbol.iterator]());
+        try {
+            while (true) {
+                const values: unknown[] = [];
+                for (const iterator of iterators) {
+                    const next = iterator.next();
+                    if (next.done) return;
+                    values.push(next.value);
+                }
+                yield this.combine(values);
             }
-            else break;
+        } finally {
+            for (const iterator of iterators) iterator.return?.();
         }
     }
+
+    override [Utils.dispose](): void {
+        for (const sequence of this.sequences) sequence[Utils.dispose]();
+    }
 }
 
-class TakeWhileSequence<T> extends Sequence<T> {
-    private readonly predicate: (item: T, index?: number) => boolean;
+class ZipLongestSequence<R extends unknown[]> extends Sequence<R> {
+    private readonly sequences: Sequence<any>[];
+    private readonly fills: unknown[];
+    constructor(
+        sequences: Sequence<any>[],
+        fills: unknown[]
+    ) {
+        super([], sequences
+            .map(sequence => sequence.sizeHint())
+            .reduce((acc, hint) => acc.max(hint), SizeHint.exact(0)));
+        this.sequences = sequences;
+        this.fills = fills;
+    }
+
+    override *[Symbol.iterator]() {
+        const iterators: Iterator<unknown>[] = this.sequences.map(sequence => sequence[Symbol.iterator]());
+        const finished = iterators.map(() => false);
+        try {
+            while (true) {
+                const values: unknown[] = [];
+                for (let index = 0; index < iterators.length; index++) {
+                    const next = finished[index] ? undefined : iterators[index]!.next();
+                    if (!next || next.done) {
+                        finished[index] = true;
+                        values.push(this.fills[index]);
+                    } else {
+                        values.push(next.value);
+                    }
+                }
+                if (finished.every(done => done)) return;
+                yield values as R;
+            }
+        } finally {
+            for (const iterator of iterators) iterator.return?.();
+        }
+    }
+
+    override [Utils.dispose](): void {
+        for (const sequence of this.sequences) sequence[Utils.dispose]();
+    }
+}
+
+class WindowingSequence<T, R> extends Sequence<R> {
+    private readonly windowSize: number;
+    private readonly step: number;
+    private readonly partial: boolean;
+    private readonly transform: (window: T[]) => R;
     constructor(
         sequence: Sequence<T>,
-        predicate: (item: T, index?: number) => boolean
+        size: number,
+        step: number,
+        partial: boolean,
+        transform: (window: T[]) => R
     ) {
-        super(sequence, -1);
-        this.predicate = predicate;
+        if (size < 1 || step < 1) {
+            throw new Utils.IllegalArgumentError("window size and step must be greater than 0");
+        }
+        super(sequence as any, sequence.sizeHint().map(total => 
+            partial ? Math.ceil(total / step) 
+            : total < size ? 0 : Math.floor((total - size) / step) + 1));
+        this.windowSize = size;
+        this.step = step;
+        this.partial = partial;
+        this.transform = transform;
     }
 
     override *[Symbol.iterator]() {
-        let yielding = true;
-        let index = 0;
-        for (const value of this._values) {
-            if (!this.predicate(value, index++)) yielding = false;
-            if (!yielding) break;
-            yield value;
+        let window: T[] = [];
+        let skipped = 0;
+        for (const value of this._values as any as Iterable<T>) {
+            if (skipped > 0) {
+                skipped--;
+                continue;
+            }
+            window.push(value);
+            if (window.length === this.windowSize) {
+                yield this.transform(window);
+                // steps longer than the window skip elements between windows
+                skipped = Math.max(0, this.step - this.windowSize);
+                window = window.slice(this.step);
+            }
+        }
+        while (this.partial && window.length > 0) {
+            yield this.transform(window);
+            window = window.slice(this.step);
         }
     }
 }
\ No newline at end of file
@@ -0,0 +1,135 @@
+/**
+ * Bounds on the amount of elements a sequence contains, in the fashion of Rust's `size_hint`. The
+ * size is exact when both bounds are equal, and `upper` is `Infinity` when there is no known upper
+ * bound. Infinite sequences have both bounds set to `Infinity`.\
+ * \
+ * Size hints are immutable: every operation returns a new one.
+ */
+export class SizeHint {
+    /**
+     * The size hint of a sequence nothing is known about.
+     */
+    public static readonly unknown: SizeHint = new SizeHint(0, Infinity);
+
+    /**
+     * The size hint of a sequence that never ends.
+     */
+    public static readonly infinite: SizeHint = new SizeHint(Infinity, Infinity);
+
+    /**
+     * The minimum amount of elements.
+     */
+    public readonly lower: number;
+    /**
+     * The maximum amount of elements, or `Infinity` if unbounded.
+     */
+    public readonly upper: number;
+
+    protected constructor(lower: number, upper: number) {
+        this.lower = lower;
+        this.upper = upper;
+    }
+
+    /**
+     * Creates a size hint for exactly `size` elements.
+     */
+    public static exact(size: number): SizeHint {
+        return new SizeHint(size, size);
+    }
+
+    /**
+     * Creates a size hint for at least `lower` and at most `upper` elements.
+     */
+    public static between(lower: number, upper: number): SizeHint {
+        return new SizeHint(Math.max(0, lower), Math.max(lower, upper));
+    }
+
+    /**
+     * Creates a size hint from a size as returned by `size()`, where a negative number means the
+     * size is unknown.
+     */
+    public static of(size: number): SizeHint {
+        return size < 0 ? SizeHint.unknown : SizeHint.exact(size);
+    }
+
+    /**
+     * Returns true if the size is exactly known and finite.
+     */
+    public isExact(): boolean {
+        return this.lower === this.upper && Number.isFinite(this.lower);
+    }
+
+    /**
+     * Returns the exact size if known, or a negative number otherwise, as `size()` does.
+     */
+    public toSize(): number {
+        return this.isExact() ? this.lower : -1;
+    }
+
+    /**
+     * Returns the size hint of this size followed by `other`.
+     */
+    public plus(other: SizeHint): SizeHint {
+        return new SizeHint(this.lower + other.lower, this.upper + other.upper);
+    }
+
+    /**
+     * Returns the size hint of this size, after removing its first `n` elements.
+     */
+    public minus(n: number): SizeHint {
+        return new SizeHint(Math.max(0, this.lower - n), Math.max(0, this.upper - n));
+    }
+
+    /**
+     * Returns the size hint of this size, capped to `n` elements.
+     */
+    public atMost(n: number): SizeHint {
+        const cap = Math.max(0, n);
+        return new SizeHint(Math.min(this.lower, cap), Math.min(this.upper, cap));
+    }
+
+    /**
+     * Returns the size hint of this size, after removing an unknown amount of its elements.
+     */
+    public orFewer(): SizeHint {
+        return new SizeHint(0, this.upper);
+    }
+
+    /**
+     * Returns the size hint of the shortest of this size and `other`.
+     */
+    public min(other: SizeHint): SizeHint {
+        return new SizeHint(Math.min(this.lower, other.lower), Math.min(this.upper, other.upper));
+    }
+
+    /**
+     * Returns the size hint of the longest of this size and `other`.
+     */
+    public max(other: SizeHint): SizeHint {
+        return new SizeHint(Math.max(this.lower, other.lower), Math.max(this.upper, other.upper));
+    }
+
+    /**
+     * Returns the size hint resulting from applying `transform` to both bounds. The transform must
+     * be non-decreasing, and map `Infinity` to `Infinity`.
+     */
+    public map(transform: (size: number) => number): SizeHint {
+        return new SizeHint(transform(this.lower), transform(this.upper));
+    }
+
+    /**
+     * Returns a string representation of this size hint, which could be one of the following:
+     * - exact: 5
+     * - bounded: 3..10
+     * - only upper bound: ≤10
+     * - only lower bound: ≥3
+     * - no bounds: unknown
+     * - infinite: infinite
+     */
+    public toString(): string {
+        if (this.lower === Infinity) return "infinite";
+        if (this.lower === this.upper) return this.lower.toString();
+        if (this.upper === Infinity) return this.lower === 0 ? "unknown" : `≥${this.lower}`;
+        return this.lower === 0 ? `≤${this.upper}` : `${this.lower}..${this.upper}`;
+    }
+}
@@ -1,4 +1,40 @@
+/**
+ * An object holding a resource that can be released synchronously, as the `using` declaration
+ * expects.
+ */
+export interface Disposable {
+    [Utils.dispose](): void;
+}
+
+/**
+ * An object holding a resource that can be released asynchronously, as the `await using` 
+ * declaration expects.
+ */
+export interface AsyncDisposable {
+    [Utils.asyncDispose](): Promise<void>;
+}
+
+/**
+ * A random access view over a sequence, mapping each index in `[0, length)` to its element.
+ */
+export interface Indexed<T> {
+    readonly length: number;
+    get(index: number): T;
+}
+
 export class Utils {
+    /**
+     * The `Symbol.dispose` well-known symbol, or a registered stand-in on runtimes lacking it.
+     * Polyfills defining it must be loaded before this library.
+     */
+    public static readonly dispose: unique symbol = ((Symbol as any).dispose ?? Symbol.for("Symbol.dispose")) as any;
+
+    /**
+     * The `Symbol.asyncDispose` well-known symbol, or a registered stand-in on runtimes lacking 
+     * it. Polyfills defining it must be loaded before this library.
+     */
+    public static readonly asyncDispose: unique symbol = ((Symbol as any).asyncDispose ?? Symbol.for("Symbol.asyncDispose")) as any;
+
     public static isIterable<T>(value: any): value is Iterable<T> {
         return typeof value[Symbol.iterator] === "function";
     }
@@ -11,6 +47,14 @@ export class Utils {
         return typeof value["next"] === "function";
     }
 
+    public static isDisposable(value: any): value is Disposable {
+        return value != null && typeof value[Utils.dispose] === "function";
+    }
+
+    public static isAsyncDisposable(value: any): value is AsyncDisposable {
+        return value != null && typeof value[Utils.asyncDispose] === "function";
+    }
+
     public static isLenghted<T>(value: T): value is T & { length: number } {
         return typeof (value as any)["length"] === "number";
     }
@@ -19,9 +63,47 @@ export class Utils {
         return typeof (value as any)["size"] === "number";
     }
 
+    /**
+     * Returns true for arrays and typed arrays, whose elements can be accessed by index in the 
+     * same order they are iterated.
+     */
+    public static isIndexable<T>(value: any): value is ArrayLike<T> {
+        return Array.isArray(value) || (ArrayBuffer.isView(value) && !(value instanceof DataView));
+    }
+
+    public static readonly AbortError = class AbortError extends Error {
+        constructor(message?: string) { super(message);
+            Object.setPrototypeOf(this, new.target.prototype);
+            this.name = "AbortError";
+        }
+    }
+
+    public static readonly IllegalArgumentError = class IllegalArgumentError extends Error {
+        constructor(message?: string) { super(message);
+            Object.setPrototypeOf(this, new.target.prototype);
+        }
+    }
+
     public static readonly IllegalStateError = class IllegalStateError extends Error {
         constructor(message?: string) { super(message);
             Object.setPrototypeOf(this, new.target.prototype);
         }
     }
+
+    /**
+     * Thrown when a sequence that can only be iterated once is iterated again.
+     */
+    public static readonly ConsumedError = class ConsumedError extends Utils.IllegalStateError {
+        constructor(message?: string) { super(message);
+            Object.setPrototypeOf(this, new.target.prototype);
+            this.name = "ConsumedError";
+        }
+    }
+
+    public static readonly TimeoutError = class TimeoutError extends Error {
+        constructor(message?: string) { super(message);
+            Object.setPrototypeOf(this, new.target.prototype);
+            this.name = "TimeoutError";
+        }
+    }
 }
\ No newline at end of file
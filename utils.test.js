@@ -72,6 +72,23 @@ describe("Utils", () => {
         });
     });
 
+    describe("isDisposable", () => {
+        it("should return true only if the provided value implements the dispose symbol", () => {
+            expect(Utils.isDisposable({ [Utils.dispose]() {} })).toBe(true);
+            expect(Utils.isDisposable({ [Utils.asyncDispose]() {} })).toBe(false);
+            expect(Utils.isDisposable(array)).toBe(false);
+            expect(Utils.isDisposable(null)).toBe(false);
+        });
+    });
+
+    describe("isAsyncDisposable", () => {
+        it("should return true only if the provided value implements the asyncDispose symbol", () => {
+            expect(Utils.isAsyncDisposable({ [Utils.asyncDispose]() {} })).toBe(true);
+            expect(Utils.isAsyncDisposable({ [Utils.dispose]() {} })).toBe(false);
+            expect(Utils.isAsyncDisposable(undefined)).toBe(false);
+        });
+    });
+
     describe("isLengthed", () => {
         it("should return true (and type intersect) if the provided value implements a numeric length property", () => {
             expect(Utils.isLenghted(array)).toBe(true);
@@ -98,9 +115,36 @@ describe("Utils", () => {
         });
     });
 
+    describe("AbortError", () => {
+        it("should be an instance of Error named AbortError", () => {
+            expect(new Utils.AbortError()).toBeInstanceOf(Error);
+            expect(new Utils.AbortError().name).toBe("AbortError");
+        });
+    });
+
+    describe("ConsumedError", () => {
+        it("should be an instance of IllegalStateError named ConsumedError", () => {
+            expect(new Utils.ConsumedError()).toBeInstanceOf(Utils.IllegalStateError);
+            expect(new Utils.ConsumedError().name).toBe("ConsumedError");
+        });
+    });
+
+    describe("IllegalArgumentError", () => {
+        it("should be an instance of Error", () => {
+            expect(new Utils.IllegalArgumentError()).toBeInstanceOf(Error);
+        });
+    });
+
     describe("IllegalStateError", () => {
         it("should be an instance of Error", () => {
             expect(new Utils.IllegalStateError()).toBeInstanceOf(Error);
         });
     });
+
+    describe("TimeoutError", () => {
+        it("should be an instance of Error named TimeoutError", () => {
+            expect(new Utils.TimeoutError()).toBeInstanceOf(Error);
+            expect(new Utils.TimeoutError().name).toBe("TimeoutError");
+        });
+    });
 });
\ No newline at end of file